@@ -51,6 +51,17 @@ function gitCommit(dir: string, msg: string): void {
   });
 }
 
+/** Repository id a temp repo is indexed under (ids are `repo:<id>`, `file:<id>:<rel>`). */
+function repoIdOf(repo: string): string {
+  return path.basename(repo);
+}
+
+/** Stored id of the File at absolute `filePath` inside `repo`. */
+function fileIdOf(repo: string, filePath: string): string {
+  const rel = path.relative(repo, filePath).split(path.sep).join("/");
+  return `file:${repoIdOf(repo)}:${rel}`;
+}
+
 function runCli(repo: string): { stdout: string; stderr: string; ok: boolean } {
   const r = spawnSync(
     "npx",
@@ -58,6 +69,8 @@ function runCli(repo: string): { stdout: string; stderr: string; ok: boolean } {
       "ts-node",
       path.resolve(__dirname, "..", "src", "cli.ts"),
       repo,
+      "--repo-id",
+      repoIdOf(repo),
       "--no-json",
       "--incremental",
       "--neo4j-uri",
@@ -93,8 +106,8 @@ async function fileNodeMeta(
     const s = d.session();
     try {
       const r = await s.run(
-        `MATCH (f:File { path: $p }) RETURN f.contentHash AS h, f.lastIndexed AS t LIMIT 1`,
-        { p: filePath },
+        `MATCH (f:File { id: $id }) RETURN f.contentHash AS h, f.lastIndexed AS t LIMIT 1`,
+        { id: fileIdOf(repo, filePath) },
       );
       if (r.records.length === 0) return null;
       return {
@@ -114,9 +127,9 @@ async function repoMeta(
     const s = d.session();
     try {
       const r = await s.run(
-        `MATCH (r:Repository { path: $p })
+        `MATCH (r:Repository { id: $id })
          RETURN r.lastCommit AS c, r.lastIndexed AS t LIMIT 1`,
-        { p: repo },
+        { id: `repo:${repoIdOf(repo)}` },
       );
       if (r.records.length === 0) return null;
       return {
@@ -134,8 +147,8 @@ async function fileExists(repo: string, filePath: string): Promise<boolean> {
     const s = d.session();
     try {
       const r = await s.run(
-        `MATCH (f:File { path: $p }) RETURN count(f) AS n`,
-        { p: filePath },
+        `MATCH (f:File { id: $id }) RETURN count(f) AS n`,
+        { id: fileIdOf(repo, filePath) },
       );
       const n = r.records[0].get("n");
       return Number((n as { low?: number }).low ?? n) > 0;
@@ -145,13 +158,14 @@ async function fileExists(repo: string, filePath: string): Promise<boolean> {
   });
 }
 
-async function clearReposByPath(prefix: string): Promise<void> {
+/** Delete every node indexed for `repo` (all but ExternalPackages carry `repo`). */
+async function clearRepo(repo: string): Promise<void> {
   await withDriver(async (d) => {
     const s = d.session();
     try {
       await s.run(
-        `MATCH (n:CodeNode) WHERE n.path STARTS WITH $p DETACH DELETE n`,
-        { p: prefix },
+        `MATCH (n:CodeNode { repo: $repo }) DETACH DELETE n`,
+        { repo: repoIdOf(repo) },
       );
     } finally {
       await s.close();
@@ -208,7 +222,7 @@ async function caseColdGitIndex(): Promise<void> {
       `hash=${(util?.contentHash ?? "missing").slice(0, 12)}, t=${util?.lastIndexed ?? "missing"}`,
     );
   } finally {
-    await clearReposByPath(repo);
+    await clearRepo(repo);
     fs.rmSync(repo, { recursive: true, force: true });
   }
 }
@@ -228,7 +242,7 @@ async function caseGitFastPath(): Promise<void> {
       r.stderr.split("\n").find((l) => l.includes("up to date")) ?? "(line not found)",
     );
   } finally {
-    await clearReposByPath(repo);
+    await clearRepo(repo);
     fs.rmSync(repo, { recursive: true, force: true });
   }
 }
@@ -267,7 +281,7 @@ async function caseSingleLeafEdit(): Promise<void> {
       `before=${beforeUtil?.lastIndexed} after=${afterUtil?.lastIndexed}`,
     );
   } finally {
-    await clearReposByPath(repo);
+    await clearRepo(repo);
     fs.rmSync(repo, { recursive: true, force: true });
   }
 }
@@ -304,12 +318,12 @@ async function caseCascadeOnImportedFile(): Promise<void> {
       const s = d.session();
       try {
         const r = await s.run(
-          `MATCH (f1:File { path: $sp })-[:DEFINES]->(caller:Function { name: "compute" })
-                 -[:CALLS]->(callee:Function { name: "helper" })<-[:DEFINES]-(f2:File { path: $up })
+          `MATCH (f1:File { id: $sid })-[:DEFINES]->(caller:Function { name: "compute" })
+                 -[:CALLS]->(callee:Function { name: "helper" })<-[:DEFINES]-(f2:File { id: $uid })
            RETURN count(*) AS n`,
           {
-            sp: path.join(repo, "src", "service.ts"),
-            up: path.join(repo, "src", "util.ts"),
+            sid: fileIdOf(repo, path.join(repo, "src", "service.ts")),
+            uid: fileIdOf(repo, path.join(repo, "src", "util.ts")),
           },
         );
         return Number(r.records[0].get("n"));
@@ -324,7 +338,7 @@ async function caseCascadeOnImportedFile(): Promise<void> {
     );
     void beforeMain;
   } finally {
-    await clearReposByPath(repo);
+    await clearRepo(repo);
     fs.rmSync(repo, { recursive: true, force: true });
   }
 }
@@ -348,7 +362,7 @@ async function caseFileAdded(): Promise<void> {
     const exists = await fileExists(repo, path.join(repo, "src", "newcomer.ts"));
     record("added file: File node exists post-incremental", exists, `exists=${exists}`);
   } finally {
-    await clearReposByPath(repo);
+    await clearRepo(repo);
     fs.rmSync(repo, { recursive: true, force: true });
   }
 }
@@ -379,7 +393,7 @@ async function caseFileDeleted(): Promise<void> {
       `before=${beforeExists}, after=${afterExists}`,
     );
   } finally {
-    await clearReposByPath(repo);
+    await clearRepo(repo);
     fs.rmSync(repo, { recursive: true, force: true });
   }
 }
@@ -407,7 +421,7 @@ async function caseUncommittedEdit(): Promise<void> {
       `before=${beforeMain?.lastIndexed} after=${afterMain?.lastIndexed}`,
     );
   } finally {
-    await clearReposByPath(repo);
+    await clearRepo(repo);
     fs.rmSync(repo, { recursive: true, force: true });
   }
 }
@@ -443,7 +457,7 @@ async function caseHashModeNonGit(): Promise<void> {
       `hash before=${beforeMain?.contentHash?.slice(0, 12)} after=${afterMain?.contentHash?.slice(0, 12)}`,
     );
   } finally {
-    await clearReposByPath(repo);
+    await clearRepo(repo);
     fs.rmSync(repo, { recursive: true, force: true });
   }
 }
@@ -0,0 +1,63 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { analyzeRepository } from "../analyser";
+import type { CodeGraph } from "../../util/graph";
+
+describe("barrel re-exports", () => {
+  let dir: string;
+  let graph: CodeGraph;
+
+  beforeAll(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "reexports-"));
+    fs.writeFileSync(path.join(dir, "svc.ts"), "export function helper() {}\n");
+    // The same declaration, renamed and through a wildcard.
+    fs.writeFileSync(
+      path.join(dir, "index.ts"),
+      'export { helper as h } from "./svc";\nexport * from "./svc";\n',
+    );
+    fs.writeFileSync(
+      path.join(dir, "a.ts"),
+      'import { helper } from "./index";\nexport function useHelper() { helper(); }\n',
+    );
+    fs.writeFileSync(
+      path.join(dir, "b.ts"),
+      'import { h } from "./index";\nexport function useH() { h(); }\n',
+    );
+    graph = await analyzeRepository(dir, {
+      repoId: "fx",
+      jobs: 1,
+      extractCache: false,
+    });
+  });
+
+  afterAll(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  const helperId = "file:fx:svc.ts#fn:helper";
+
+  it("keeps every name the barrel exports the declaration under", () => {
+    const exports = graph.edges.filter(
+      (e) => e.kind === "EXPORTS" && e.from === "file:fx:index.ts",
+    );
+    expect(exports).toHaveLength(1);
+    expect(exports[0].to).toBe(helperId);
+    const names = [
+      exports[0].meta?.exportedName,
+      ...((exports[0].meta?.alsoExportedAs as string[] | undefined) ?? []),
+    ];
+    expect(names.sort()).toEqual(["h", "helper"]);
+  });
+
+  it.each([
+    ["file:fx:a.ts#fn:useHelper", "the original name"],
+    ["file:fx:b.ts#fn:useH", "the renamed export"],
+  ])("resolves a call through %s (%s) via import-export", (from) => {
+    const call = graph.edges.find((e) => e.kind === "CALLS" && e.from === from);
+    expect(call?.to).toBe(helperId);
+    expect(call?.meta).toMatchObject({
+      strategy: "import-export",
+      confidence: "high",
+      candidateCount: 1,
+    });
+  });
+});
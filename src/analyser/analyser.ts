@@ -3,21 +3,76 @@ import path from "path";
 import {
   GraphBuilder,
   GraphNode,
+  GraphEdge,
   CodeGraph,
   NodeKind,
+  ID_SCHEME,
 } from "../util/graph";
 import { detectLanguage, SupportedLanguage } from "../util/language";
-import { getParser } from "./../util/parserFactory";
-import { ExtractContext, LanguageExtractor } from "../extractor/base";
-import { JsTsExtractor } from "../extractor/jsts";
-import { JavaExtractor } from "../extractor/java";
+import {
+  ExtractContext,
+  RouteArgRef,
+  RouterCall,
+  addExportEdge,
+  exportedNamesOf,
+  joinRoute,
+} from "../extractor/base";
 import { sha256OfFile } from "../util/hash";
+import { TsconfigIndex, AliasMatch } from "../util/tsconfig";
+import {
+  discoverWorkspacePackages,
+  matchWorkspacePackage,
+  packageEntryCandidates,
+  WorkspacePackage,
+} from "../util/workspace";
+import {
+  MANIFEST_FILES,
+  readManifestDependencies,
+  readManifestCoordinates,
+  npmPackageName,
+  matchMavenArtifact,
+} from "../util/manifests";
+import { repositoryIdOf } from "../util/repo-source";
+import { RepoIgnore, SkippedFile, skipReasonOf } from "../util/ignore";
+import { extractFiles, ExtractOptions, FileTask } from "./extract-pool";
+import { ExtractCache } from "./extract-cache";
 
 export interface AnalyzeOptions {
-  /** Folder/file names to ignore. Defaults to common build artefacts. */
+  /**
+   * Folder/file names to ignore, on top of common build artefacts. The
+   * repo's `.gitignore` files and `.codelensignore` always apply (RepoIgnore).
+   */
   ignore?: string[];
+  /** Skip source files that are too large, minified or generated. Default true. */
+  skipGenerated?: boolean;
+  /** Told about each file skipGenerated leaves out. */
+  onSkip?: (file: SkippedFile) => void;
   /** Whether to attempt to resolve unresolved CALLS to local Function/Method nodes by name. */
   resolveCallsByName?: boolean;
+  /** Repository identifier ids are keyed on. Defaults to `repositoryIdOf(repo)`. */
+  repoId?: string;
+  /**
+   * Worker threads to parse and extract files on. Defaults to one per CPU;
+   * 1 keeps everything on the calling thread. The graph is the same either way.
+   */
+  jobs?: number;
+  /**
+   * Directory of the on-disk extraction cache (see ExtractCache), or false to
+   * parse every file. Defaults to defaultExtractCacheDir().
+   */
+  extractCache?: string | false;
+  /**
+   * Stream the graph out as it's built: after the walk's
+   * Repository/Folder/File skeleton, each batch of extracted files is handed
+   * over — keyed like the returned graph — as soon as it's merged, and its
+   * bodies are dropped. Only the bodies leave memory: resolution still runs
+   * over everything at the end, so the rest of the graph stays, and the
+   * returned graph is complete except for those bodies; the consumer
+   * reconciles it with what it was sent (see Neo4jStream).
+   */
+  onBatch?: (batch: { nodes: GraphNode[]; edges: GraphEdge[] }) => Promise<void>;
+  /** Files per onBatch batch. Default 500. */
+  batchFiles?: number;
 }
 
 export interface ScanEntry {
@@ -55,17 +110,17 @@ const DEFAULT_IGNORES = new Set([
   "coverage",
 ]);
 
-export function analyzeRepository(
+export async function analyzeRepository(
   repoPath: string,
   opts: AnalyzeOptions = {},
-): CodeGraph {
+): Promise<CodeGraph> {
   const absRepo = path.resolve(repoPath);
   const stat = fs.statSync(absRepo);
   if (!stat.isDirectory()) {
     throw new Error(`Not a directory: ${absRepo}`);
   }
 
-  const ignores = new Set([...DEFAULT_IGNORES, ...(opts.ignore ?? [])]);
+  const ignores = repoIgnore(absRepo, opts);
   const builder = new GraphBuilder();
 
   // Repository node.
@@ -75,11 +130,14 @@ export function analyzeRepository(
     kind: "Repository",
     name: repoName,
     path: absRepo,
+    idScheme: ID_SCHEME,
   });
 
   // Walk filesystem.  Track folder→nodeId map so we can wire CONTAINS edges.
   const pendingImports: ExtractContext["pendingImports"] = [];
   const fileNodesByAbsPath = new Map<string, GraphNode>();
+  const manifests: string[] = [];
+  const tasks: FileTask[] = [];
 
   const walkDir = (dir: string, parentNode: GraphNode): void => {
     let entries: fs.Dirent[];
@@ -89,8 +147,8 @@ export function analyzeRepository(
       return;
     }
     for (const entry of entries) {
-      if (ignores.has(entry.name) || entry.name.startsWith(".")) continue;
       const full = path.join(dir, entry.name);
+      if (ignores.ignores(full, entry.isDirectory())) continue;
       if (entry.isDirectory()) {
         const folder = builder.addNode({
           id: `folder:${full}`,
@@ -105,8 +163,9 @@ export function analyzeRepository(
         });
         walkDir(full, folder);
       } else if (entry.isFile()) {
+        if (MANIFEST_FILES.has(entry.name)) manifests.push(full);
         const lang = detectLanguage(full);
-        if (!lang) continue;
+        if (!lang || skipsFile(full, opts)) continue;
         const fileNode = builder.addNode({
           id: `file:${full}`,
           kind: "File",
@@ -120,27 +179,81 @@ export function analyzeRepository(
           to: fileNode.id,
         });
         fileNodesByAbsPath.set(full, fileNode);
-        analyzeFile(full, lang, fileNode, builder, pendingImports);
+        tasks.push({
+          absPath: full,
+          language: lang,
+          fileNode,
+          hash: opts.extractCache === false ? undefined : hashOf(full),
+        });
       }
     }
   };
 
   walkDir(absRepo, repoNode);
 
+  // Parse + extract every file (cache misses only), merged back in walk order.
+  const repoId = opts.repoId ?? repositoryIdOf(absRepo);
+  if (opts.onBatch) {
+    await streamFiles(tasks, builder, pendingImports, absRepo, repoId, opts);
+  } else {
+    await extractFiles(tasks, builder, pendingImports, extractOptions(opts));
+  }
+
+  const packages = addWorkspacePackages(
+    absRepo,
+    ignores,
+    repoNode,
+    fileNodesByAbsPath,
+    builder,
+  );
+  const externals = addDeclaredDependencies(
+    absRepo,
+    manifests,
+    repoNode,
+    packages,
+    builder,
+  );
+
+  // Go methods are declared against a receiver type that may live in a
+  // sibling file; bind them to their struct now that the package is complete.
+  bindGoReceivers(builder);
+
+  // Next.js routes live in the file layout, not in router calls; Spring and
+  // Nest controller methods already carry theirs.
+  addFileSystemRoutes(absRepo, builder);
+  addControllerRoutes(builder);
+
   // Resolve imports → File nodes when possible.
-  resolveImports(pendingImports, fileNodesByAbsPath, builder);
+  const specTargets = resolveImports(
+    absRepo,
+    pendingImports,
+    fileNodesByAbsPath,
+    packages,
+    externals,
+    builder,
+  );
+
+  // Bind `export … from` placeholders to real declarations, through barrels.
+  resolveReexports(builder, specTargets);
+
+  // Express-style routers: compose `app.use("/api", router)` mounts across
+  // files into Route nodes with ordered MIDDLEWARE chains.
+  composeRouterRoutes(builder, specTargets);
 
   // Cross-file class/interface inheritance: bind unresolved EXTENDS/IMPLEMENTS
   // edges to real Class/Interface nodes by name lookup, disambiguated via
   // the IMPORTS edges we just resolved.
   resolveTypeRefsByName(builder);
 
+  // React: bind RENDERS / USES_HOOK placeholders to components and hooks.
+  resolveReactRefs(builder);
+
   // Optional: collapse unresolved CALLS that match a Function/Method name in the same file or repo.
   if (opts.resolveCallsByName !== false) {
     resolveCallsByName(builder);
   }
 
-  return builder.build();
+  return keyOnRepository(builder, absRepo, repoId);
 }
 
 /**
@@ -150,13 +263,13 @@ export function analyzeRepository(
  */
 export function scanRepository(
   repoPath: string,
-  opts: { ignore?: string[]; withHashes?: boolean } = {},
+  opts: WalkOptions & { withHashes?: boolean } = {},
 ): RepoScan {
   const absRepo = path.resolve(repoPath);
   const stat = fs.statSync(absRepo);
   if (!stat.isDirectory()) throw new Error(`Not a directory: ${absRepo}`);
 
-  const ignores = new Set([...DEFAULT_IGNORES, ...(opts.ignore ?? [])]);
+  const ignores = repoIgnore(absRepo, opts);
   const files: ScanEntry[] = [];
 
   const walk = (dir: string): void => {
@@ -167,13 +280,13 @@ export function scanRepository(
       return;
     }
     for (const entry of entries) {
-      if (ignores.has(entry.name) || entry.name.startsWith(".")) continue;
       const full = path.join(dir, entry.name);
+      if (ignores.ignores(full, entry.isDirectory())) continue;
       if (entry.isDirectory()) {
         walk(full);
       } else if (entry.isFile()) {
         const lang = detectLanguage(full);
-        if (!lang) continue;
+        if (!lang || skipsFile(full, opts)) continue;
         const e: ScanEntry = { absPath: full, language: lang };
         if (opts.withHashes) {
           try {
@@ -199,15 +312,15 @@ export function scanRepository(
  * files own real builder nodes; unchanged files appear as phantom path-only
  * entries that map to Neo4j IDs which already exist from prior runs).
  */
-export function analyzeIncremental(
+export async function analyzeIncremental(
   repoPath: string,
   opts: IncrementalAnalyzeOptions,
-): CodeGraph {
+): Promise<CodeGraph> {
   const absRepo = path.resolve(repoPath);
   const stat = fs.statSync(absRepo);
   if (!stat.isDirectory()) throw new Error(`Not a directory: ${absRepo}`);
 
-  const ignores = new Set([...DEFAULT_IGNORES, ...(opts.ignore ?? [])]);
+  const ignores = repoIgnore(absRepo, opts);
   const builder = new GraphBuilder();
 
   const repoNode = builder.addNode({
@@ -215,12 +328,15 @@ export function analyzeIncremental(
     kind: "Repository",
     name: path.basename(absRepo),
     path: absRepo,
+    idScheme: ID_SCHEME,
   });
 
   const pendingImports: ExtractContext["pendingImports"] = [];
   const fileNodesByAbsPath = new Map<string, GraphNode>();
+  const manifests: string[] = [];
+  const tasks: FileTask[] = [];
 
-  // Walk the tree. For files in `extractOnly`: real File nodes + analyseFile.
+  // Walk the tree. For files in `extractOnly`: real File nodes, queued for extraction.
   // For other files: phantom GraphNode (id+path only) for import resolution —
   // never added to the builder so they don't get re-written to Neo4j.
   const walk = (dir: string, parentNode: GraphNode): void => {
@@ -231,8 +347,8 @@ export function analyzeIncremental(
       return;
     }
     for (const entry of entries) {
-      if (ignores.has(entry.name) || entry.name.startsWith(".")) continue;
       const full = path.join(dir, entry.name);
+      if (ignores.ignores(full, entry.isDirectory())) continue;
       if (entry.isDirectory()) {
         const folder = builder.addNode({
           id: `folder:${full}`,
@@ -247,8 +363,9 @@ export function analyzeIncremental(
         });
         walk(full, folder);
       } else if (entry.isFile()) {
+        if (MANIFEST_FILES.has(entry.name)) manifests.push(full);
         const lang = detectLanguage(full);
-        if (!lang) continue;
+        if (!lang || skipsFile(full, opts)) continue;
 
         if (opts.extractOnly.has(full)) {
           const fileNode = builder.addNode({
@@ -266,7 +383,15 @@ export function analyzeIncremental(
             to: fileNode.id,
           });
           fileNodesByAbsPath.set(full, fileNode);
-          analyzeFile(full, lang, fileNode, builder, pendingImports);
+          tasks.push({
+            absPath: full,
+            language: lang,
+            fileNode,
+            hash:
+              opts.extractCache === false
+                ? undefined
+                : (opts.hashes?.get(full) ?? hashOf(full)),
+          });
         } else {
           // Phantom — used for resolution lookups only.
           fileNodesByAbsPath.set(full, {
@@ -282,61 +407,218 @@ export function analyzeIncremental(
   };
 
   walk(absRepo, repoNode);
+  await extractFiles(tasks, builder, pendingImports, extractOptions(opts));
+
+  // Phantom files are skipped for Package CONTAINS — their edges already
+  // exist in Neo4j — but every package still takes part in resolution.
+  const packages = addWorkspacePackages(
+    absRepo,
+    ignores,
+    repoNode,
+    fileNodesByAbsPath,
+    builder,
+  );
+  const externals = addDeclaredDependencies(
+    absRepo,
+    manifests,
+    repoNode,
+    packages,
+    builder,
+  );
 
-  resolveImports(pendingImports, fileNodesByAbsPath, builder);
+  bindGoReceivers(builder);
+  addFileSystemRoutes(absRepo, builder);
+  addControllerRoutes(builder);
+  const specTargets = resolveImports(
+    absRepo,
+    pendingImports,
+    fileNodesByAbsPath,
+    packages,
+    externals,
+    builder,
+  );
+  resolveReexports(builder, specTargets);
+  composeRouterRoutes(builder, specTargets);
   resolveTypeRefsByName(builder);
+  resolveReactRefs(builder);
   if (opts.resolveCallsByName !== false) resolveCallsByName(builder);
 
-  return builder.build();
+  return keyOnRepository(
+    builder,
+    absRepo,
+    opts.repoId ?? repositoryIdOf(absRepo),
+  );
+}
+
+/** The options every repository walk honours. */
+export type WalkOptions = Pick<AnalyzeOptions, "ignore" | "skipGenerated" | "onSkip">;
+
+/** What the walks of `absRepo` leave out under these options. */
+export function repoIgnore(absRepo: string, opts: WalkOptions): RepoIgnore {
+  return new RepoIgnore(
+    absRepo,
+    new Set([...DEFAULT_IGNORES, ...(opts.ignore ?? [])]),
+  );
+}
+
+/** Whether skipReasonOf rules a source file out; reported through `onSkip`. */
+function skipsFile(absPath: string, opts: WalkOptions): boolean {
+  if (opts.skipGenerated === false) return false;
+  const reason = skipReasonOf(absPath);
+  if (!reason) return false;
+  opts.onSkip?.({ absPath, reason });
+  return true;
+}
+
+/**
+ * Whether a walk would index this file, for callers that learn about files
+ * one at a time (the watcher): the file itself isn't ignored, has a
+ * supported language and isn't skipped. Its directories are taken as walked.
+ */
+export function walksFile(
+  absPath: string,
+  ignores: RepoIgnore,
+  opts: WalkOptions,
+): boolean {
+  return (
+    !ignores.ignores(absPath, false) &&
+    !!detectLanguage(absPath) &&
+    !skipsFile(absPath, opts)
+  );
+}
+
+function extractOptions(opts: AnalyzeOptions): ExtractOptions {
+  return {
+    jobs: opts.jobs,
+    cache:
+      opts.extractCache === false
+        ? undefined
+        : new ExtractCache(opts.extractCache),
+  };
 }
 
-function analyzeFile(
-  filePath: string,
-  language: SupportedLanguage,
-  fileNode: GraphNode,
+/**
+ * analyzeRepository's streaming extraction: send the skeleton, then extract
+ * `tasks` a batch at a time, sending what each batch added to the graph and
+ * then dropping those nodes' bodies. Bodies the resolve passes read (Next.js
+ * pages-router handlers, sniffed for HTTP methods) are kept.
+ */
+async function streamFiles(
+  tasks: FileTask[],
   builder: GraphBuilder,
   pendingImports: ExtractContext["pendingImports"],
-): void {
-  let source: string;
+  absRepo: string,
+  repoId: string,
+  opts: AnalyzeOptions,
+): Promise<void> {
+  const key = repositoryKeyer(absRepo, repoId);
+  const send = (nodes: GraphNode[], edges: GraphEdge[]) =>
+    opts.onBatch!({ nodes: nodes.map(key.node), edges: edges.map(key.edge) });
+
+  const skeleton = builder.build();
+  await send(skeleton.nodes, skeleton.edges);
+
+  const size = opts.batchFiles ?? 500;
+  const extract = extractOptions(opts);
+  for (let i = 0; i < tasks.length; i += size) {
+    const batch = tasks.slice(i, i + size);
+    const added = await extractFiles(batch, builder, pendingImports, extract);
+    // The File nodes come along again, now carrying extraction's annotations.
+    await send([...batch.map((t) => t.fileNode), ...added.nodes], added.edges);
+    for (const n of added.nodes) {
+      const rel = n.path ? path.relative(absRepo, n.path) : "";
+      if (nextRouteOf(rel)?.router === "pages") continue;
+      delete n.body;
+    }
+  }
+}
+
+/** sha256 of a file, or undefined when it can't be read (it won't be cached). */
+function hashOf(absPath: string): string | undefined {
   try {
-    source = fs.readFileSync(filePath, "utf8");
+    return sha256OfFile(absPath);
   } catch {
-    return;
+    return undefined;
   }
+}
 
-  let tree;
-  try {
-    const parser = getParser(language);
-    // node-tree-sitter's default internal buffer is 32 KiB; pass an explicit
-    // bufferSize so files larger than that still parse cleanly.
-    tree = parser.parse(source, undefined, {
-      bufferSize: Math.max(source.length + 1024, 32 * 1024),
-    });
-  } catch (err) {
-    console.warn(`[ast-graph] parse failed for ${filePath}: ${(err as Error).message}`);
-    return;
+/**
+ * Rewrite the absolute paths the passes above work with into the stored
+ * form: `path` relative to the repo root, and ids keyed on the repository
+ * identifier instead of the checkout location — `repo:<id>`,
+ * `folder:<id>:src/lib`, `file:<id>:src/a.ts#fn:load`,
+ * `file:<id>:src/app.ts#route:POST /users`. Applied to node ids and paths, edge endpoints
+ * and string meta (manifest paths, router refs). Every node but the shared
+ * ExternalPackages is stamped with `repo`, which scopes queries and deletes
+ * when several repositories share a database.
+ */
+function keyOnRepository(
+  builder: GraphBuilder,
+  absRepo: string,
+  repoId: string,
+): CodeGraph {
+  const key = repositoryKeyer(absRepo, repoId);
+  const graph = builder.build();
+  const out = new GraphBuilder();
+  for (const n of graph.nodes) out.addNode(key.node(n));
+  for (const e of graph.edges) {
+    const { id: _id, ...edge } = key.edge(e);
+    out.addEdge(edge);
   }
+  return out.build();
+}
 
-  const extractor = pickExtractor(language);
-  const ctx: ExtractContext = {
-    builder,
-    fileNode,
-    filePath,
-    language,
-    pendingImports,
+/** keyOnRepository for one node or edge at a time (copies; inputs are left alone). */
+function repositoryKeyer(
+  absRepo: string,
+  repoId: string,
+): { node(n: GraphNode): GraphNode; edge(e: GraphEdge): GraphEdge } {
+  const rewrite = (s: string): string => {
+    const at = s.indexOf(absRepo);
+    if (at < 0) return s;
+    const prefix = s.slice(0, at);
+    const rest = s.slice(at + absRepo.length);
+    if (prefix && !/^[a-z]+:$/.test(prefix)) return s;
+    if (rest && !rest.startsWith(path.sep)) return s;
+    const rel = rest.slice(1).split(path.sep).join("/");
+    if (!prefix) return rel;
+    return rel ? `${prefix}${repoId}:${rel}` : `${prefix}${repoId}`;
+  };
+  const rewriteMeta = (v: unknown): unknown => {
+    if (typeof v === "string") return rewrite(v);
+    if (Array.isArray(v)) return v.map(rewriteMeta);
+    if (v && typeof v === "object") {
+      return Object.fromEntries(
+        Object.entries(v).map(([k, x]) => [k, rewriteMeta(x)]),
+      );
+    }
+    return v;
   };
-  extractor.extract(tree.rootNode, ctx);
-}
 
-function pickExtractor(language: SupportedLanguage): LanguageExtractor {
-  switch (language) {
-    case "java":
-      return new JavaExtractor();
-    case "javascript":
-    case "typescript":
-    case "tsx":
-      return new JsTsExtractor();
-  }
+  return {
+    node(n) {
+      const node: GraphNode = { ...n, id: rewrite(n.id) };
+      if (n.kind !== "ExternalPackage") node.repo = repoId;
+      // The root's own location is exactly what ids no longer depend on.
+      if (n.kind === "Repository") delete node.path;
+      else if (n.path) node.path = rewrite(n.path);
+      if (n.meta) node.meta = rewriteMeta(n.meta) as Record<string, unknown>;
+      return node;
+    },
+    edge(e) {
+      const from = rewrite(e.from);
+      const to = rewrite(e.to);
+      return {
+        ...e,
+        id: `${e.kind}:${from}->${to}`,
+        from,
+        to,
+        ...(e.meta
+          ? { meta: rewriteMeta(e.meta) as Record<string, unknown> }
+          : {}),
+      };
+    },
+  };
 }
 
 const JS_EXT_PRIORITY = [
@@ -362,33 +644,517 @@ const JS_TO_TS_EXT_MAP: Record<string, string[]> = {
   ".cjs": [".cts", ".ts"],
 };
 
+/**
+ * Emit a `Package` node for every npm/yarn/pnpm workspace member, CONTAINS'd
+ * by the Repository, with CONTAINS edges to the files it owns (the deepest
+ * package directory wins for nested packages). Returns name → package for
+ * bare-specifier resolution.
+ */
+function addWorkspacePackages(
+  absRepo: string,
+  ignores: RepoIgnore,
+  repoNode: GraphNode,
+  fileNodes: Map<string, GraphNode>,
+  builder: GraphBuilder,
+): Map<string, WorkspacePackage> {
+  const packages = new Map<string, WorkspacePackage>();
+  const found = discoverWorkspacePackages(absRepo, ignores);
+  if (found.length === 0) return packages;
+
+  const byDir = new Map<string, GraphNode>();
+  for (const pkg of found) {
+    packages.set(pkg.name, pkg);
+    const node = builder.addNode({
+      id: `package:${pkg.dir}`,
+      kind: "Package",
+      name: pkg.name,
+      path: pkg.dir,
+      meta:
+        pkg.version || pkg.private
+          ? { version: pkg.version, private: pkg.private }
+          : undefined,
+    });
+    builder.addEdge({ kind: "CONTAINS", from: repoNode.id, to: node.id });
+    byDir.set(pkg.dir, node);
+  }
+
+  for (const [p, file] of fileNodes) {
+    if (!builder.getNode(file.id)) continue; // phantom
+    for (let dir = path.dirname(p); dir.startsWith(absRepo); ) {
+      const pkgNode = byDir.get(dir);
+      if (pkgNode) {
+        builder.addEdge({ kind: "CONTAINS", from: pkgNode.id, to: file.id });
+        break;
+      }
+      const parent = path.dirname(dir);
+      if (parent === dir) break;
+      dir = parent;
+    }
+  }
+  return packages;
+}
+
+/**
+ * Declared third-party dependencies, for linking otherwise-unresolved
+ * imports: npm package name → node id, and the `groupId:artifactId` list
+ * used for Java's package-prefix matching.
+ */
+interface ExternalIndex {
+  npm: Map<string, string>;
+  maven: string[];
+}
+
+/**
+ * Emit an `ExternalPackage` node per declared third-party dependency and a
+ * DEPENDS_ON edge from the declaring Repository/Package (edge meta carries
+ * `version`, `scope` and `declaredAs`). package.json is only read at the
+ * repo root and in workspace packages; pom.xml/Gradle files anywhere in the
+ * tree (multi-module builds) attach to their Package if they sit in one's
+ * root, else to the Repository. Dependencies on other workspace members
+ * become Package → Package DEPENDS_ON instead. Each owner also records the
+ * coordinates it publishes under in `meta.publishes` (`npm:@acme/billing`,
+ * `maven:com.acme:billing`).
+ */
+function addDeclaredDependencies(
+  absRepo: string,
+  manifests: string[],
+  repoNode: GraphNode,
+  packages: Map<string, WorkspacePackage>,
+  builder: GraphBuilder,
+): ExternalIndex {
+  const index: ExternalIndex = { npm: new Map(), maven: [] };
+  const packageDirs = new Set([...packages.values()].map((p) => p.dir));
+
+  for (const manifest of manifests) {
+    const dir = path.dirname(manifest);
+    const ownerId = packageDirs.has(dir)
+      ? `package:${dir}`
+      : dir === absRepo || path.basename(manifest) !== "package.json"
+        ? repoNode.id
+        : null;
+    if (!ownerId) continue; // stray package.json (fixtures, examples)
+
+    // What the owner publishes as, so other repositories indexed into the
+    // same database can link their ExternalPackage dependency to it.
+    const published = readManifestCoordinates(manifest);
+    if (published) {
+      const owner = builder.getNode(ownerId)!;
+      const key = `${published.ecosystem}:${published.name}`;
+      const publishes = (owner.meta?.publishes as string[] | undefined) ?? [];
+      if (!publishes.includes(key)) {
+        owner.meta = { ...owner.meta, publishes: [...publishes, key] };
+      }
+    }
+
+    for (const dep of readManifestDependencies(manifest)) {
+      const internal =
+        dep.ecosystem === "npm" ? packages.get(dep.name) : undefined;
+      let targetId: string;
+      if (internal) {
+        targetId = `package:${internal.dir}`;
+      } else {
+        targetId = `external:${dep.ecosystem}:${dep.name}`;
+        const node =
+          builder.getNode(targetId) ??
+          builder.addNode({
+            id: targetId,
+            kind: "ExternalPackage",
+            name: dep.name,
+            meta: { ecosystem: dep.ecosystem, versions: [] },
+          });
+        const versions = node.meta!.versions as string[];
+        if (dep.version && !versions.includes(dep.version)) {
+          versions.push(dep.version);
+        }
+        if (dep.ecosystem === "npm") index.npm.set(dep.name, targetId);
+        else if (!index.maven.includes(dep.name)) index.maven.push(dep.name);
+      }
+      builder.addEdge({
+        kind: "DEPENDS_ON",
+        from: ownerId,
+        to: targetId,
+        meta: {
+          version: dep.version,
+          scope: dep.scope,
+          declaredAs: dep.declaredAs,
+          manifest,
+        },
+      });
+    }
+  }
+  return index;
+}
+
+/** Declared ExternalPackage an unresolved import belongs to, if any. */
+function matchExternal(
+  fromFile: GraphNode,
+  spec: string,
+  externals: ExternalIndex,
+): string | null {
+  if (isJsLike(fromFile.language)) {
+    const name = npmPackageName(spec);
+    return name ? (externals.npm.get(name) ?? null) : null;
+  }
+  if (fromFile.language === "java") {
+    const artifact = matchMavenArtifact(spec, externals.maven);
+    return artifact ? `external:maven:${artifact}` : null;
+  }
+  return null;
+}
+
 function resolveImports(
+  absRepo: string,
   pending: ExtractContext["pendingImports"],
   fileNodes: Map<string, GraphNode>,
+  packages: Map<string, WorkspacePackage>,
+  externals: ExternalIndex,
   builder: GraphBuilder,
-): void {
+): Map<string, string> {
+  // `${fromFileId}|${spec}` → resolved File id, for the re-export pass.
+  const specTargets = new Map<string, string>();
+  // Built lazily — only repos with Go files pay for the go.mod walk.
+  let goIndex: GoPackageIndex | null = null;
+  let pyIndex: PythonModuleIndex | null = null;
+  const tsconfigs = new TsconfigIndex();
+
   for (const imp of pending) {
     const fromNode = builder.getNode(imp.from);
     if (!fromNode || !fromNode.path) continue;
 
-    const targetFile = resolveSpec(fromNode, imp.spec, fileNodes);
-    if (targetFile) {
-      builder.addEdge({
-        kind: "IMPORTS",
-        from: fromNode.id,
-        to: targetFile.id,
-      });
+    // A Go import names a package (directory), so it links to every
+    // non-test file in it rather than a single file.
+    let targets: GraphNode[];
+    // Set when a tsconfig/jsconfig alias rule matched, so each IMPORTS edge
+    // records which rule (and which config) produced it — even if the
+    // substitution didn't land on a file we parsed.
+    let alias: AliasMatch | null = null;
+    let workspacePkg: string | undefined;
+    // Stamped on resolved edges like CALLS: path / go-package /
+    // tsconfig-alias / workspace-package are exact (high); a manifest match
+    // is exact for npm names but a groupId guess for Java (medium).
+    let strategy = "path";
+    if (fromNode.language === "go") {
+      goIndex ??= buildGoPackageIndex(fileNodes);
+      targets = resolveGoImport(imp.spec, goIndex).filter(
+        (t) => t.id !== fromNode.id,
+      );
+      strategy = "go-package";
+    } else if (fromNode.language === "python") {
+      pyIndex ??= buildPythonModuleIndex(absRepo, fileNodes);
+      if (imp.names) {
+        targets = resolvePythonFromImport(
+          fromNode.path,
+          imp.spec,
+          imp.names,
+          fileNodes,
+          pyIndex,
+        );
+      } else {
+        const target = resolvePythonSpec(fromNode.path, imp.spec, fileNodes, pyIndex);
+        targets = target ? [target] : [];
+      }
     } else {
-      builder.addEdge({
-        kind: "IMPORTS",
-        from: fromNode.id,
-        to: `unresolved:module:${imp.spec}`,
-        unresolved: imp.spec,
+      let targetFile = resolveSpec(fromNode, imp.spec, fileNodes);
+      if (!targetFile && isJsLike(fromNode.language)) {
+        alias = tsconfigs.match(fromNode.path, imp.spec);
+        strategy = "tsconfig-alias";
+        for (const base of alias?.candidates ?? []) {
+          targetFile = probeJsModule(base, fileNodes);
+          if (targetFile) break;
+        }
+        // A missed `baseUrl` lookup is just a bare package import (tsc
+        // falls through to node_modules), and so is a missed catch-all
+        // `"*"` rule; a missed rule with a prefix is worth reporting.
+        if (!targetFile && (alias?.rule === "baseUrl" || alias?.rule === "*")) {
+          alias = null;
+        }
+      }
+      // Bare specifier naming a workspace member (`@acme/billing/x`). Also
+      // tried when an alias rule matched but missed, as tsc falls through
+      // to node_modules then.
+      if (!targetFile && isJsLike(fromNode.language)) {
+        const hit = matchWorkspacePackage(imp.spec, packages);
+        if (hit) {
+          workspacePkg = hit.pkg.name;
+          strategy = "workspace-package";
+          for (const base of packageEntryCandidates(hit.pkg, hit.subpath)) {
+            targetFile = probeJsModule(base, fileNodes);
+            if (targetFile) break;
+          }
+          if (targetFile) alias = null;
+        }
+      }
+      targets = targetFile ? [targetFile] : [];
+    }
+    const meta = alias
+      ? {
+          alias: alias.rule,
+          // Repo-relative, so a config above the repo reads `../…`.
+          tsconfig: path
+            .relative(absRepo, alias.configPath)
+            .split(path.sep)
+            .join("/"),
+        }
+      : workspacePkg
+        ? { workspacePackage: workspacePkg }
+        : undefined;
+
+    if (targets.length > 0) {
+      specTargets.set(`${fromNode.id}|${imp.spec}`, targets[0].id);
+      for (const targetFile of targets) {
+        builder.addEdge({
+          kind: "IMPORTS",
+          from: fromNode.id,
+          to: targetFile.id,
+          meta: {
+            ...meta,
+            strategy,
+            confidence: "high",
+            // A Go package's files are all candidates; other targets are
+            // each exact (Python submodules imported side by side).
+            candidateCount: strategy === "go-package" ? targets.length : 1,
+          },
+        });
+      }
+    } else {
+      // Not in the repo — but maybe a declared third-party dependency,
+      // which a missed alias rule didn't produce.
+      const external = matchExternal(fromNode, imp.spec, externals);
+      builder.addEdge(
+        external
+          ? {
+              kind: "IMPORTS",
+              from: fromNode.id,
+              to: external,
+              meta: {
+                ...(workspacePkg && { workspacePackage: workspacePkg }),
+                strategy: "manifest",
+                confidence: fromNode.language === "java" ? "medium" : "high",
+                candidateCount: 1,
+              },
+            }
+          : {
+              kind: "IMPORTS",
+              from: fromNode.id,
+              to: `unresolved:module:${imp.spec}`,
+              unresolved: imp.spec,
+              meta,
+            },
+      );
+    }
+  }
+  return specTargets;
+}
+
+/**
+ * Rebind the `export … from` placeholders the JS/TS extractor emits
+ * (EXPORTS edges with `meta.reexportFrom`) to the declarations they name.
+ *
+ *   - named (`export { a as b } from`): one EXPORTS edge to `a`'s declaration
+ *   - namespace (`export * as ns from`): EXPORTS to the source File node
+ *   - wildcard (`export * from`): expanded into one EXPORTS edge per name the
+ *     source exports (minus `default`, and minus names this file exports
+ *     itself — explicit exports shadow star exports, as in ES modules)
+ *
+ * Names are followed through any depth of barrels. Lookups carry a visited
+ * set, so cyclic barrels (`a` re-exports `b`, `b` re-exports `a`) terminate.
+ * Placeholders whose source didn't resolve to a repo file (packages, phantom
+ * files in incremental runs) are left as-is and persist as :Unresolved.
+ *
+ * Afterwards every EXPORTS edge on a barrel points at a real declaration,
+ * so `followViaImports` resolves calls through barrels in a single hop.
+ */
+function resolveReexports(
+  builder: GraphBuilder,
+  specTargets: Map<string, string>,
+): void {
+  const graph = builder.build();
+  const direct = new Map<string, Map<string, GraphNode>>();
+  const reexports = new Map<string, GraphEdge[]>();
+  for (const e of graph.edges) {
+    if (e.kind !== "EXPORTS") continue;
+    if (typeof e.meta?.reexportFrom === "string") {
+      const arr = reexports.get(e.from) ?? [];
+      arr.push(e);
+      reexports.set(e.from, arr);
+      continue;
+    }
+    const target = builder.getNode(e.to);
+    if (!target) continue;
+    const table = direct.get(e.from) ?? new Map<string, GraphNode>();
+    for (const name of exportedNamesOf(e)) table.set(name, target);
+    direct.set(e.from, table);
+  }
+  if (reexports.size === 0) return;
+
+  const sourceOf = (e: GraphEdge): string | undefined =>
+    specTargets.get(`${e.from}|${e.meta!.reexportFrom}`);
+
+  const lookup = (
+    fileId: string,
+    name: string,
+    seen: Set<string>,
+  ): GraphNode | null => {
+    const key = `${fileId}|${name}`;
+    if (seen.has(key)) return null;
+    seen.add(key);
+    const own = direct.get(fileId)?.get(name);
+    if (own) return own;
+    const edges = reexports.get(fileId) ?? [];
+    for (const e of edges) {
+      if (e.meta!.wildcard || e.meta!.exportedName !== name) continue;
+      const src = sourceOf(e);
+      if (!src) continue;
+      if (e.meta!.namespace) return builder.getNode(src) ?? null;
+      return lookup(src, e.meta!.importedName as string, seen);
+    }
+    if (name === "default") return null;
+    for (const e of edges) {
+      if (!e.meta!.wildcard) continue;
+      const src = sourceOf(e);
+      const hit = src ? lookup(src, name, seen) : null;
+      if (hit) return hit;
+    }
+    return null;
+  };
+
+  const namesOf = (fileId: string, seen: Set<string>): Set<string> => {
+    const names = new Set<string>();
+    if (seen.has(fileId)) return names;
+    seen.add(fileId);
+    for (const n of direct.get(fileId)?.keys() ?? []) names.add(n);
+    for (const e of reexports.get(fileId) ?? []) {
+      if (!e.meta!.wildcard) {
+        names.add(e.meta!.exportedName as string);
+        continue;
+      }
+      const src = sourceOf(e);
+      if (!src) continue;
+      for (const n of namesOf(src, seen)) if (n !== "default") names.add(n);
+    }
+    return names;
+  };
+
+  for (const [fileId, edges] of reexports) {
+    const explicit = new Set(direct.get(fileId)?.keys() ?? []);
+    for (const e of edges) {
+      if (!e.meta!.wildcard) explicit.add(e.meta!.exportedName as string);
+    }
+
+    for (const e of edges) {
+      const src = sourceOf(e);
+      if (!src) continue;
+
+      if (e.meta!.wildcard) {
+        builder.removeEdge(e.from, e.to, e.kind);
+        for (const name of namesOf(src, new Set([fileId]))) {
+          if (name === "default" || explicit.has(name)) continue;
+          const target = lookup(src, name, new Set([`${fileId}|${name}`]));
+          if (!target) continue;
+          addExportEdge(builder, {
+            kind: "EXPORTS",
+            from: fileId,
+            to: target.id,
+            meta: { exportedName: name, reexportFrom: e.meta!.reexportFrom, wildcard: true },
+          });
+        }
+        continue;
+      }
+
+      const exportedName = e.meta!.exportedName as string;
+      const target = e.meta!.namespace
+        ? builder.getNode(src)
+        : lookup(
+            src,
+            e.meta!.importedName as string,
+            new Set([`${fileId}|${exportedName}`]),
+          );
+      if (!target) continue;
+      builder.removeEdge(e.from, e.to, e.kind);
+      addExportEdge(builder, {
+        kind: "EXPORTS",
+        from: fileId,
+        to: target.id,
+        meta: e.meta,
       });
     }
   }
 }
 
+/**
+ * Go package lookup tables.
+ *
+ * - `modules`: module path (from each `go.mod`'s `module` line) → directory
+ *   holding that go.mod. A repo may contain several modules; imports between
+ *   them resolve the same way as imports within one.
+ * - `filesByDir`: package directory → its non-test `.go` File nodes.
+ */
+interface GoPackageIndex {
+  modules: Map<string, string>;
+  filesByDir: Map<string, GraphNode[]>;
+}
+
+function buildGoPackageIndex(
+  fileNodes: Map<string, GraphNode>,
+): GoPackageIndex {
+  const modules = new Map<string, string>();
+  const filesByDir = new Map<string, GraphNode[]>();
+  // dir → module path of the nearest go.mod at-or-above it (null: none).
+  const nearest = new Map<string, string | null>();
+
+  const lookup = (dir: string): string | null => {
+    if (nearest.has(dir)) return nearest.get(dir)!;
+    let result: string | null = null;
+    const goMod = path.join(dir, "go.mod");
+    let text: string | null = null;
+    try {
+      text = fs.readFileSync(goMod, "utf8");
+    } catch {
+      // no go.mod here — keep climbing
+    }
+    const m = text ? /^\s*module\s+(\S+)/m.exec(text) : null;
+    if (m) {
+      result = m[1].replace(/^"|"$/g, "");
+      modules.set(result, dir);
+    } else {
+      const parent = path.dirname(dir);
+      result = parent === dir ? null : lookup(parent);
+    }
+    nearest.set(dir, result);
+    return result;
+  };
+
+  for (const [p, node] of fileNodes) {
+    if (node.language !== "go") continue;
+    const dir = path.dirname(p);
+    lookup(dir);
+    if (p.endsWith("_test.go")) continue;
+    const arr = filesByDir.get(dir) ?? [];
+    arr.push(node);
+    filesByDir.set(dir, arr);
+  }
+
+  return { modules, filesByDir };
+}
+
+/**
+ * Map an import path onto a package directory via the longest matching
+ * module path (`example.com/app` + `/internal/http` → `<modDir>/internal/http`)
+ * and return that package's files. Stdlib and third-party modules don't
+ * match any local go.mod and come back empty.
+ */
+function resolveGoImport(spec: string, index: GoPackageIndex): GraphNode[] {
+  let best: string | null = null;
+  for (const mod of index.modules.keys()) {
+    if (spec !== mod && !spec.startsWith(mod + "/")) continue;
+    if (!best || mod.length > best.length) best = mod;
+  }
+  if (!best) return [];
+  const rest = spec.slice(best.length).replace(/^\//, "");
+  const dir = path.join(index.modules.get(best)!, ...rest.split("/"));
+  return index.filesByDir.get(dir) ?? [];
+}
+
 function resolveSpec(
   fromFile: GraphNode,
   spec: string,
@@ -398,25 +1164,10 @@ function resolveSpec(
 
   // Relative JS/TS specifier
   if (spec.startsWith(".") || spec.startsWith("/")) {
-    const base = path.resolve(path.dirname(fromFile.path), spec);
-    if (fileNodes.has(base)) return fileNodes.get(base)!;
-
-    // NodeNext / bundler resolution: `./foo.js` → `./foo.ts` (or `.tsx`, …).
-    const ext = path.extname(base);
-    const swaps = JS_TO_TS_EXT_MAP[ext];
-    if (swaps) {
-      const stem = base.slice(0, -ext.length);
-      for (const swap of swaps) {
-        const candidate = stem + swap;
-        if (fileNodes.has(candidate)) return fileNodes.get(candidate)!;
-      }
-    }
-
-    for (const e of JS_EXT_PRIORITY) {
-      const candidate = base + e;
-      if (fileNodes.has(candidate)) return fileNodes.get(candidate)!;
-    }
-    return null;
+    return probeJsModule(
+      path.resolve(path.dirname(fromFile.path), spec),
+      fileNodes,
+    );
   }
 
   // Java: dotted spec like `com.foo.Bar` -> look for a file path ending with `com/foo/Bar.java`
@@ -431,6 +1182,164 @@ function resolveSpec(
   return null;
 }
 
+function isJsLike(language: GraphNode["language"]): boolean {
+  return (
+    language === "javascript" || language === "typescript" || language === "tsx"
+  );
+}
+
+/**
+ * Find the File node for an absolute JS/TS module path the way TS/Node
+ * would: exact file, runtime→source extension swap, appended extension,
+ * then directory index. Shared by relative specs and tsconfig aliases.
+ */
+function probeJsModule(
+  base: string,
+  fileNodes: Map<string, GraphNode>,
+): GraphNode | null {
+  if (fileNodes.has(base)) return fileNodes.get(base)!;
+
+  // NodeNext / bundler resolution: `./foo.js` → `./foo.ts` (or `.tsx`, …).
+  const ext = path.extname(base);
+  const swaps = JS_TO_TS_EXT_MAP[ext];
+  if (swaps) {
+    const stem = base.slice(0, -ext.length);
+    for (const swap of swaps) {
+      const candidate = stem + swap;
+      if (fileNodes.has(candidate)) return fileNodes.get(candidate)!;
+    }
+  }
+
+  for (const e of JS_EXT_PRIORITY) {
+    const candidate = base + e;
+    if (fileNodes.has(candidate)) return fileNodes.get(candidate)!;
+  }
+  return null;
+}
+
+/**
+ * Python module lookup table: absolute module name (`app.models`) → each
+ * file that is that module under some source root. sys.path isn't known, so
+ * the source roots are guessed: the repo root, every `src/` directory, and
+ * the directory above each top-level package (where a chain of
+ * `__init__.py` directories ends). Within a root `x.py` outranks `x.pyi`,
+ * which outranks `x/__init__.py`; entries are kept in that order.
+ */
+interface PythonModuleIndex {
+  modules: Map<string, { root: string; file: GraphNode }[]>;
+}
+
+function buildPythonModuleIndex(
+  absRepo: string,
+  fileNodes: Map<string, GraphNode>,
+): PythonModuleIndex {
+  const pyFiles = [...fileNodes].filter(([, n]) => n.language === "python");
+  const roots = new Set<string>([absRepo]);
+  for (const [p] of pyFiles) {
+    let dir = path.dirname(p);
+    if (fileNodes.has(path.join(dir, "__init__.py"))) {
+      while (dir !== absRepo && fileNodes.has(path.join(dir, "__init__.py"))) {
+        dir = path.dirname(dir);
+      }
+      roots.add(dir);
+    }
+    for (let d = path.dirname(p); d.startsWith(absRepo + path.sep); d = path.dirname(d)) {
+      if (path.basename(d) === "src") roots.add(d);
+    }
+  }
+
+  const rank = (p: string) =>
+    p.endsWith("__init__.py") ? 2 : p.endsWith(".pyi") ? 1 : 0;
+  const modules = new Map<string, { root: string; file: GraphNode }[]>();
+  for (const [p, file] of pyFiles.sort(([a], [b]) => rank(a) - rank(b))) {
+    for (let root = path.dirname(p); ; root = path.dirname(root)) {
+      if (roots.has(root)) {
+        const segs = path
+          .relative(root, p)
+          .replace(/\.pyi?$/, "")
+          .split(path.sep);
+        if (segs[segs.length - 1] === "__init__") segs.pop();
+        // `my-tool/run.py` isn't importable as a module.
+        if (segs.length > 0 && segs.every((s) => /^[A-Za-z_]\w*$/.test(s))) {
+          const name = segs.join(".");
+          const arr = modules.get(name) ?? [];
+          arr.push({ root, file });
+          modules.set(name, arr);
+        }
+      }
+      if (root === absRepo || root === path.dirname(root)) break;
+    }
+  }
+  return { modules };
+}
+
+/**
+ * Resolve a Python module spec to its File node. Each dotted segment is a
+ * directory; the last one is either `<name>.py` or a package `<name>/__init__.py`.
+ *
+ *   - Relative (`.pkg`, `..util.io`): one leading dot is the importing file's
+ *     own package, every extra dot climbs one directory.
+ *   - Absolute (`app.models`): looked up under the source roots (see
+ *     PythonModuleIndex). A name several files answer to resolves to the one
+ *     under the innermost root holding the importing file, or not at all —
+ *     `import logging` only binds to a repo file that could shadow it.
+ */
+function resolvePythonSpec(
+  fromPath: string,
+  spec: string,
+  fileNodes: Map<string, GraphNode>,
+  index: PythonModuleIndex,
+): GraphNode | null {
+  const dots = /^\.*/.exec(spec)![0].length;
+  const segs = spec.slice(dots).split(".").filter(Boolean);
+
+  if (dots > 0) {
+    let dir = path.dirname(fromPath);
+    for (let i = 1; i < dots; i++) dir = path.dirname(dir);
+    const base = path.join(dir, ...segs);
+    for (const candidate of [base + ".py", base + ".pyi", path.join(base, "__init__.py")]) {
+      if (fileNodes.has(candidate)) return fileNodes.get(candidate)!;
+    }
+    return null;
+  }
+
+  const hits = index.modules.get(segs.join("."));
+  if (!hits) return null;
+  if (new Set(hits.map((h) => h.root)).size === 1) return hits[0].file;
+  let best: { root: string; file: GraphNode } | null = null;
+  for (const h of hits) {
+    if (!fromPath.startsWith(h.root + path.sep)) continue;
+    if (!best || h.root.length > best.root.length) best = h;
+  }
+  return best?.file ?? null;
+}
+
+/**
+ * `from pkg import a, b`: each name that is a submodule (`pkg/a.py`,
+ * `pkg/a/__init__.py`) links to its own file; if any name isn't one, it
+ * comes from the package itself, which is linked too.
+ */
+function resolvePythonFromImport(
+  fromPath: string,
+  spec: string,
+  names: string[],
+  fileNodes: Map<string, GraphNode>,
+  index: PythonModuleIndex,
+): GraphNode[] {
+  const targets = new Set<GraphNode>();
+  let fromPackage = false;
+  for (const name of names) {
+    const sub = resolvePythonSpec(fromPath, `${spec}.${name}`, fileNodes, index);
+    if (sub) targets.add(sub);
+    else fromPackage = true;
+  }
+  if (fromPackage) {
+    const pkg = resolvePythonSpec(fromPath, spec, fileNodes, index);
+    if (pkg) targets.add(pkg);
+  }
+  return [...targets].filter((t) => t.path !== fromPath);
+}
+
 /**
  * Pre-built lookup index for the IMPORTS→EXPORTS resolution algorithm
  * described in the symbol-aliasing problem brief (Phase 1).
@@ -464,11 +1373,18 @@ function buildImportExportIndex(builder: GraphBuilder): ImportExportIndex {
         fileImports.set(e.from, set);
       }
     } else if (e.kind === "EXPORTS") {
-      const exportedName = e.meta?.exportedName as string | undefined;
-      if (!exportedName) continue;
       const target = builder.getNode(e.to);
       if (!target) continue;
-      exportsByFileAndName.set(`${e.from}|${exportedName}`, target);
+      for (const name of exportedNamesOf(e)) {
+        exportsByFileAndName.set(`${e.from}|${name}`, target);
+      }
+    } else if (e.kind === "DEFINES") {
+      // Go has no export syntax: a capitalised top-level identifier is
+      // exported from its package. Treat those DEFINES as EXPORTS.
+      const target = builder.getNode(e.to);
+      if (target?.language !== "go" || !/^[A-Z]/.test(target.name)) continue;
+      const key = `${e.from}|${target.name}`;
+      if (!exportsByFileAndName.has(key)) exportsByFileAndName.set(key, target);
     }
   }
 
@@ -476,11 +1392,12 @@ function buildImportExportIndex(builder: GraphBuilder): ImportExportIndex {
 }
 
 /**
- * The Phase-1 `follow()` core: given a caller's file and a name, walk the
+ * The `follow()` core: given a caller's file and a name, walk the
  * caller's IMPORTS edges and check each imported file's EXPORTS for a
  * matching name. Returns the unique matching declaration if found,
- * otherwise null. Phase 2/3 will extend this to follow REEXPORTS and
- * REEXPORTS_ALL chains transitively; for now it's a single-hop lookup.
+ * otherwise null. A single hop is enough even through barrels:
+ * `resolveReexports` has already bound every `export … from` on a barrel
+ * to the underlying declaration.
  *
  * `kindFilter` restricts results to specific node kinds (e.g. Function/Method
  * for CALLS resolution, Class/Interface for inheritance). Caller passes the
@@ -504,19 +1421,473 @@ function followViaImports(
   return matches.length === 1 ? matches[0] : null;
 }
 
+/**
+ * Emit HAS_METHOD(struct → method) for Go methods, matching `meta.receiver`
+ * against Class/Interface/TypeAlias nodes declared in the same package
+ * directory. In incremental runs the receiver's file may not be re-extracted;
+ * those methods stay DEFINES-only until their struct's file changes.
+ */
+function bindGoReceivers(builder: GraphBuilder): void {
+  const graph = builder.build();
+  const typesByDirAndName = new Map<string, GraphNode>();
+  const methods: GraphNode[] = [];
+  for (const n of graph.nodes) {
+    if (n.language !== "go" || !n.path) continue;
+    if (n.kind === "Class" || n.kind === "Interface" || n.kind === "TypeAlias") {
+      typesByDirAndName.set(`${path.dirname(n.path)}|${n.name}`, n);
+    } else if (n.kind === "Method" && typeof n.meta?.receiver === "string") {
+      methods.push(n);
+    }
+  }
+  for (const m of methods) {
+    const owner = typesByDirAndName.get(
+      `${path.dirname(m.path!)}|${m.meta!.receiver}`,
+    );
+    if (owner) builder.addEdge({ kind: "HAS_METHOD", from: owner.id, to: m.id });
+  }
+}
+
+const NEXT_HTTP_METHODS = new Set([
+  "GET",
+  "POST",
+  "PUT",
+  "PATCH",
+  "DELETE",
+  "HEAD",
+  "OPTIONS",
+]);
+
+/**
+ * Route nodes for Next.js file-system routing, which has no router calls for
+ * the extractor to see:
+ *
+ *   - App Router: `app/users/[id]/route.ts` → one Route per exported
+ *     `GET`/`POST`/… handler, path `/users/[id]`. Route groups `(admin)` and
+ *     parallel-route slots `@modal` don't contribute segments.
+ *   - Pages Router: `pages/api/users/[id].ts` → the default export, path
+ *     `/api/users/[id]` (`index` collapses). The handler branches on
+ *     `req.method` itself, so methods come from `.method === "POST"` /
+ *     `case "POST":` in its body, else a single `ALL` route.
+ *
+ * Emits File ─DEFINES─► Route ◄─HANDLES─ handler. Dynamic segments keep
+ * the Next.js spelling. The first `app`/`pages` directory in the path is
+ * taken as the router root (covers `src/app` and monorepo `apps/web/app`).
+ */
+function addFileSystemRoutes(absRepo: string, builder: GraphBuilder): void {
+  const graph = builder.build();
+  for (const e of graph.edges) {
+    if (e.kind !== "EXPORTS" || e.meta?.reexportFrom) continue;
+    const file = builder.getNode(e.from);
+    const handler = builder.getNode(e.to);
+    if (!file?.path || !handler || !isJsLike(file.language)) continue;
+    const fsRoute = nextRouteOf(path.relative(absRepo, file.path));
+    if (!fsRoute) continue;
+
+    let methods: string[];
+    if (fsRoute.router === "app") {
+      methods = exportedNamesOf(e).filter((n) => NEXT_HTTP_METHODS.has(n));
+    } else {
+      if (!e.meta?.default) continue;
+      methods = [...(handler.body ?? "").matchAll(
+        /(?:\.method\s*===?\s*|case\s+)["'`]([A-Z]+)["'`]/g,
+      )]
+        .map((m) => m[1])
+        .filter((m) => NEXT_HTTP_METHODS.has(m));
+      if (methods.length === 0) methods = ["ALL"];
+    }
+
+    for (const method of new Set(methods)) {
+      addRoute(builder, {
+        method,
+        route: fsRoute.route,
+        file,
+        range: handler.range,
+        handlerId: handler.id,
+        meta: { framework: "nextjs", router: fsRoute.router },
+      });
+    }
+  }
+}
+
+/**
+ * The Route node for `METHOD /full/path` in `file` — one per endpoint and
+ * defining file, however many registrations there lead to it, so two
+ * services' `GET /health` stay apart — with File ─DEFINES─► Route and, when
+ * the handler is known, handler ─HANDLES─► Route.
+ */
+function addRoute(
+  builder: GraphBuilder,
+  r: {
+    method: string;
+    route: string;
+    file: GraphNode;
+    range?: GraphNode["range"];
+    handlerId?: string;
+    routerObject?: string;
+    meta: Record<string, unknown>;
+  },
+): GraphNode {
+  const node = builder.addNode({
+    id: `${r.file.id}#route:${r.method} ${r.route}`,
+    kind: "Route",
+    name: `${r.method} ${r.route}`,
+    path: r.file.path,
+    language: r.file.language,
+    range: r.range,
+    httpMethod: r.method,
+    route: r.route,
+    routerObject: r.routerObject,
+    meta: r.meta,
+  });
+  builder.addEdge({ kind: "DEFINES", from: r.file.id, to: node.id });
+  if (r.handlerId) {
+    builder.addEdge({ kind: "HANDLES", from: r.handlerId, to: node.id });
+  }
+  return node;
+}
+
+/**
+ * Route nodes for Spring / NestJS controller methods, whose extractors
+ * already composed `httpMethod` + `route` from the class prefix and method
+ * mapping — and, when a handler serves several, listed every
+ * `"<METHOD> <route>"` in `meta.routes`.
+ */
+function addControllerRoutes(builder: GraphBuilder): void {
+  for (const n of builder.build().nodes) {
+    if (n.kind !== "Method" || !n.httpMethod || !n.route || !n.path) continue;
+    const file = builder.getNode(`file:${n.path}`);
+    if (!file) continue;
+    const routes = Array.isArray(n.meta?.routes)
+      ? (n.meta!.routes as string[])
+      : [`${n.httpMethod} ${n.route}`];
+    for (const entry of routes) {
+      const space = entry.indexOf(" ");
+      addRoute(builder, {
+        method: entry.slice(0, space),
+        route: entry.slice(space + 1),
+        file,
+        range: n.range,
+        handlerId: n.id,
+        routerObject: n.routerObject,
+        meta: { framework: n.language === "java" ? "spring" : "nestjs" },
+      });
+    }
+  }
+}
+
+/** Where a middleware in a route's chain was registered. */
+type MiddlewareScope = "router" | "mount" | "route";
+
+interface MiddlewareStep {
+  fileId: string;
+  ref: RouteArgRef;
+  scope: MiddlewareScope;
+}
+
+interface RouterRegistration {
+  fileId: string;
+  call: RouterCall;
+  /** Indexes of `use` arguments that are sub-routers rather than middleware. */
+  mounts: Map<number, string>;
+}
+
+const ROUTE_TARGET_KINDS: ReadonlySet<NodeKind> = new Set([
+  "Function",
+  "Variable",
+]);
+
+/**
+ * Route nodes for Express-style routers from the extractor's
+ * `meta.routerCalls`:
+ *
+ *   1. Identify each router object: the Variable it resolves to (locally,
+ *      through an import binding or a `require()`), else `file|name`.
+ *   2. A `use` argument that resolves to another router is a mount; every
+ *      chain of mounts from a root (a router nobody mounts) composes the
+ *      prefix, so `app.use("/api", r)` + `r.post("/projects", h)` is
+ *      `POST /api/projects`.
+ *   3. The middleware chain is, per mount level: the router's own
+ *      `use(mw)` calls registered before the mount/route (same file, earlier
+ *      row; path-scoped ones only when the path covers it), then the mount's
+ *      middleware arguments — and finally the route's own arguments before
+ *      its handler.
+ *
+ * Emits Route ─MIDDLEWARE─► Function/Variable (`meta.order`, 0-based, and
+ * `meta.scope`) — external middleware (`cors()`, `express.json()`) stays
+ * `unresolved:callable:<name>` — and handler ─HANDLES─► Route.
+ */
+function composeRouterRoutes(
+  builder: GraphBuilder,
+  specTargets: Map<string, string>,
+): void {
+  const graph = builder.build();
+  const files = graph.nodes.filter(
+    (n) => n.kind === "File" && Array.isArray(n.meta?.routerCalls),
+  );
+  if (files.length === 0) return;
+
+  const ieIndex = buildImportExportIndex(builder);
+  const declsByFile = new Map<string, GraphNode[]>();
+  const callablesByName = new Map<string, GraphNode[]>();
+  for (const n of graph.nodes) {
+    if (!n.path || (!CALLABLE_KINDS.has(n.kind) && n.kind !== "Variable")) {
+      continue;
+    }
+    const fileId = `file:${n.path}`;
+    declsByFile.set(fileId, [...(declsByFile.get(fileId) ?? []), n]);
+    if (CALLABLE_KINDS.has(n.kind)) {
+      callablesByName.set(n.name, [...(callablesByName.get(n.name) ?? []), n]);
+    }
+  }
+  const defaultExports = new Map<string, GraphNode>();
+  for (const e of graph.edges) {
+    if (e.kind !== "EXPORTS" || !e.meta?.default) continue;
+    const target = builder.getNode(e.to);
+    if (target) defaultExports.set(e.from, target);
+  }
+
+  const resolveRef = (fileId: string, ref: RouteArgRef): GraphNode | null => {
+    if (ref.id) return builder.getNode(ref.id) ?? null;
+    const member = ref.object !== undefined;
+    const kinds = member ? CALLABLE_KINDS : ROUTE_TARGET_KINDS;
+    if (ref.importSpec) {
+      const target = specTargets.get(`${fileId}|${ref.importSpec}`);
+      if (!target) return null; // an external package
+      if (!ref.name || (!member && ref.importedName === "default")) {
+        return defaultExports.get(target) ?? null;
+      }
+      if (!member || ref.importedName === "*") {
+        const name = member ? ref.name : ref.importedName;
+        return ieIndex.exportsByFileAndName.get(`${target}|${name}`) ?? null;
+      }
+      // A method on an imported object: `usersController.create`.
+      return (
+        declsByFile
+          .get(target)
+          ?.find((n) => kinds.has(n.kind) && n.name === ref.name) ?? null
+      );
+    }
+    if (!ref.name) return null;
+    const local = declsByFile
+      .get(fileId)
+      ?.find((n) => kinds.has(n.kind) && n.name === ref.name);
+    if (local) return local;
+    if (!member) {
+      return followViaImports(ieIndex, fileId, ref.name, ROUTE_TARGET_KINDS);
+    }
+    const byName = callablesByName.get(ref.name);
+    return byName?.length === 1 ? byName[0] : null;
+  };
+  const refLabel = (ref: RouteArgRef): string =>
+    ref.object !== undefined
+      ? `${ref.object}.${ref.name}`
+      : (ref.name ?? ref.importSpec ?? "<middleware>");
+
+  // 1. Registrations per router object, in file/source order.
+  const byRouter = new Map<string, RouterRegistration[]>();
+  for (const file of files) {
+    for (const call of file.meta!.routerCalls as RouterCall[]) {
+      const key =
+        resolveRef(file.id, call.router)?.id ?? `${file.id}|${call.router.name}`;
+      const regs = byRouter.get(key) ?? [];
+      regs.push({ fileId: file.id, call, mounts: new Map() });
+      byRouter.set(key, regs);
+    }
+  }
+
+  // 2. Mounts: child router → where it's mounted.
+  const mountsOf = new Map<
+    string,
+    { parent: string; reg: RouterRegistration; index: number }[]
+  >();
+  for (const [parent, regs] of byRouter) {
+    for (const reg of regs) {
+      if (reg.call.verb !== "USE") continue;
+      reg.call.args.forEach((arg, index) => {
+        const child = resolveRef(reg.fileId, arg)?.id;
+        if (!child || child === parent || !byRouter.has(child)) return;
+        reg.mounts.set(index, child);
+        const list = mountsOf.get(child) ?? [];
+        list.push({ parent, reg, index });
+        mountsOf.set(child, list);
+      });
+    }
+  }
+
+  // 3. Prefix + inherited middleware for every way a router is reached.
+  const usesBefore = (
+    router: string,
+    at: RouterRegistration,
+    localPath: string,
+  ): MiddlewareStep[] => {
+    const steps: MiddlewareStep[] = [];
+    for (const use of byRouter.get(router) ?? []) {
+      if (use.call.verb !== "USE" || use.mounts.size > 0) continue;
+      if (
+        use.fileId === at.fileId &&
+        use.call.range.start.row >= at.call.range.start.row
+      ) {
+        continue;
+      }
+      if (!pathCovers(use.call.path, localPath)) continue;
+      for (const ref of use.call.args) {
+        steps.push({ fileId: use.fileId, ref, scope: "router" });
+      }
+    }
+    return steps;
+  };
+  const contexts = (
+    router: string,
+    visiting: Set<string>,
+  ): { prefix: string; chain: MiddlewareStep[] }[] => {
+    const mounts = mountsOf.get(router) ?? [];
+    if (mounts.length === 0 || visiting.has(router)) {
+      return [{ prefix: "", chain: [] }];
+    }
+    visiting.add(router);
+    const out: { prefix: string; chain: MiddlewareStep[] }[] = [];
+    for (const { parent, reg, index } of mounts) {
+      const mountPath = reg.call.path ?? "";
+      const mountMiddleware = reg.call.args
+        .slice(0, index)
+        .filter((_, i) => !reg.mounts.has(i))
+        .map(
+          (ref): MiddlewareStep => ({ fileId: reg.fileId, ref, scope: "mount" }),
+        );
+      for (const ctx of contexts(parent, visiting)) {
+        out.push({
+          prefix: joinRoute(ctx.prefix, mountPath),
+          chain: [
+            ...ctx.chain,
+            ...usesBefore(parent, reg, mountPath),
+            ...mountMiddleware,
+          ],
+        });
+      }
+    }
+    visiting.delete(router);
+    return out;
+  };
+
+  // 4. One Route per (method, full path); handler is the last argument.
+  for (const [router, regs] of byRouter) {
+    for (const reg of regs) {
+      if (reg.call.verb === "USE") continue;
+      const file = builder.getNode(reg.fileId)!;
+      const localPath = reg.call.path ?? "";
+      const handler = resolveRef(
+        reg.fileId,
+        reg.call.args[reg.call.args.length - 1],
+      );
+      const routeMiddleware = reg.call.args
+        .slice(0, -1)
+        .map(
+          (ref): MiddlewareStep => ({ fileId: reg.fileId, ref, scope: "route" }),
+        );
+      for (const ctx of contexts(router, new Set())) {
+        const route = addRoute(builder, {
+          method: reg.call.verb,
+          route: joinRoute(ctx.prefix, localPath),
+          file,
+          range: reg.call.range,
+          handlerId: handler?.id,
+          routerObject: reg.call.router.name,
+          meta: { framework: "express" },
+        });
+        const chain = [
+          ...ctx.chain,
+          ...usesBefore(router, reg, localPath),
+          ...routeMiddleware,
+        ];
+        chain.forEach((step, order) => {
+          const target = resolveRef(step.fileId, step.ref);
+          const label = refLabel(step.ref);
+          builder.addEdge({
+            kind: "MIDDLEWARE",
+            from: route.id,
+            to: target?.id ?? `unresolved:callable:${label}`,
+            unresolved: target ? undefined : label,
+            meta: {
+              order,
+              scope: step.scope,
+              ...(step.ref.factory ? { factory: true } : {}),
+            },
+          });
+        });
+      }
+    }
+  }
+}
+
+/** Does `use(path, …)` apply to `localPath`? No path, `/` or `*` covers all. */
+function pathCovers(usePath: string | undefined, localPath: string): boolean {
+  const base = (usePath ?? "").replace(/\/+$/, "");
+  if (base === "" || base === "*" || base === "/*") return true;
+  const p = joinRoute("", localPath);
+  return p === joinRoute("", base) || p.startsWith(joinRoute("", base) + "/");
+}
+
+/** Repo-relative file path → Next.js router and URL path, or null. */
+function nextRouteOf(
+  relPath: string,
+): { router: "app" | "pages"; route: string } | null {
+  const segs = relPath.split(path.sep);
+  const root = segs.findIndex((s) => s === "app" || s === "pages");
+  if (root < 0) return null;
+  const fileName = segs[segs.length - 1];
+  const dirs = segs.slice(root + 1, -1);
+
+  if (segs[root] === "app") {
+    if (!/^route\.(?:[cm]?[jt]s|[jt]sx)$/.test(fileName)) return null;
+    const parts = dirs.filter((d) => !d.startsWith("(") && !d.startsWith("@"));
+    return { router: "app", route: "/" + parts.join("/") };
+  }
+
+  if (dirs[0] !== "api") return null;
+  const stem = fileName.replace(/\.(?:[cm]?[jt]s|[jt]sx)$/, "");
+  if (stem === fileName || stem.startsWith("_")) return null;
+  const parts = stem === "index" ? dirs : [...dirs, stem];
+  return { router: "pages", route: "/" + parts.join("/") };
+}
+
 const CALLABLE_KINDS: ReadonlySet<NodeKind> = new Set(["Function", "Method"]);
 
+/**
+ * How a CALLS edge was bound, stamped into `meta.strategy` with a coarse
+ * `meta.confidence` and `meta.candidateCount` (indexed callables sharing
+ * the name) so consumers (get_callers, get_callees, impact_analysis) can
+ * tell a guess from a binding backed by types or imports:
+ *
+ *   receiver-type        high   method looked up on the receiver's class
+ *                               (`this`, typed field/param/local), walking
+ *                               EXTENDS/IMPLEMENTS for inherited methods
+ *   import-export        high   the caller's file imports the name
+ *   same-file            medium candidate declared next to the caller
+ *   name-only-unique     medium the only callable with that name
+ *   name-only-ambiguous  low    first of several same-named callables
+ *
+ * receiver-type drops to medium/low when the type itself or the
+ * implementing class had to be picked among several.
+ */
+type Confidence = "high" | "medium" | "low";
+
 function resolveCallsByName(builder: GraphBuilder): void {
   const graph = builder.build();
   // index callable nodes by name
   const byName = new Map<string, GraphNode[]>();
+  const typesByName = new Map<string, GraphNode[]>();
   for (const n of graph.nodes) {
     if (n.kind === "Function" || n.kind === "Method") {
       const arr = byName.get(n.name) ?? [];
       arr.push(n);
       byName.set(n.name, arr);
+    } else if (n.kind === "Class" || n.kind === "Interface") {
+      const arr = typesByName.get(n.name) ?? [];
+      arr.push(n);
+      typesByName.set(n.name, arr);
     }
   }
+  const hierarchy = buildTypeHierarchy(graph.edges, builder);
 
   // Phase 1: import-aware disambiguation. Built once for this pass.
   const ieIndex = buildImportExportIndex(builder);
@@ -524,39 +1895,226 @@ function resolveCallsByName(builder: GraphBuilder): void {
   for (const edge of graph.edges) {
     if (edge.kind !== "CALLS") continue;
     if (!edge.unresolved) continue;
-    const candidates = byName.get(edge.unresolved);
-    if (!candidates || candidates.length === 0) continue;
+    // No early exit on an empty candidate list: a renamed re-export
+    // (`export { bar as baz }`) is only reachable through IMPORTS→EXPORTS.
+    const candidates = byName.get(edge.unresolved) ?? [];
 
     const fromNode = builder.getNode(edge.from);
     const callerFileId = fromNode?.path ? `file:${fromNode.path}` : null;
 
-    // Preference order: (1) IMPORTS→EXPORTS unique match (the new path),
-    // (2) candidate defined in the same file as the caller, (3) first
+    let target: GraphNode | undefined;
+    let strategy: string | undefined;
+    let confidence: Confidence = "high";
+
+    // A known receiver type decides on its own: the method lives on that
+    // type or one of its supertypes. When the type is a repo class that
+    // doesn't have the method (inherited from a library base) or isn't in
+    // the repo at all (`http: HttpClient`), the call stays unresolved rather
+    // than falling through to a same-named function elsewhere.
+    const receiverType = edge.meta?.receiverType as string | undefined;
+    if (receiverType) {
+      const owner =
+        edge.meta?.receiverVia === "this" && hierarchy.ownerOf.get(edge.from)
+          ? { node: hierarchy.ownerOf.get(edge.from)!, confidence }
+          : pickReceiverType(
+              receiverType,
+              typesByName.get(receiverType) ?? [],
+              fromNode,
+              callerFileId,
+              ieIndex,
+            );
+      if (!owner) continue;
+      const found = findMethod(hierarchy, owner.node.id, edge.unresolved);
+      if (!found) continue;
+      target = found.node;
+      strategy = "receiver-type";
+      confidence = weakest(owner.confidence, found.confidence);
+    }
+
+    // Preference order otherwise: (1) IMPORTS→EXPORTS unique match, (2)
+    // candidate defined in the same file as the caller, (3) first
     // candidate. (1) wins because the caller's import statement is the
     // strongest signal of which same-named function it actually meant.
-    let target: GraphNode | undefined;
-    if (callerFileId) {
+    if (!target && callerFileId) {
       const viaImports = followViaImports(
         ieIndex,
         callerFileId,
         edge.unresolved,
         CALLABLE_KINDS,
       );
-      if (viaImports) target = viaImports;
+      if (viaImports) {
+        target = viaImports;
+        strategy = "import-export";
+      }
     }
     if (!target && fromNode?.path) {
       target = candidates.find((c) => c.path === fromNode.path);
+      if (target) {
+        strategy = "same-file";
+        confidence = "medium";
+      }
+    }
+    if (!target) {
+      target = candidates[0];
+      strategy =
+        candidates.length === 1 ? "name-only-unique" : "name-only-ambiguous";
+      confidence = candidates.length === 1 ? "medium" : "low";
+    }
+    if (!target) continue;
+
+    // `this.save()` and `repo.save()` can land on the same method; keep
+    // one edge carrying the stronger evidence.
+    const existing = builder.getEdge(edge.from, target.id, edge.kind);
+    if (existing && existing !== edge) {
+      builder.removeEdge(edge.from, edge.to, edge.kind);
+      const prev = (existing.meta?.confidence as Confidence | undefined) ?? "low";
+      if (weakest(prev, confidence) === prev && prev !== confidence) {
+        existing.meta = {
+          ...edge.meta,
+          strategy,
+          confidence,
+          candidateCount: strategy === "import-export" ? 1 : candidates.length,
+        };
+      }
+      continue;
     }
-    if (!target) target = candidates[0];
 
     const oldTo = edge.to;
     edge.to = target.id;
     delete edge.unresolved;
     edge.id = `${edge.kind}:${edge.from}->${edge.to}`;
+    edge.meta = {
+      ...edge.meta,
+      strategy,
+      confidence,
+      candidateCount: strategy === "import-export" ? 1 : candidates.length,
+    };
     builder.rekeyEdge(edge.from, oldTo, edge.kind, edge);
   }
 }
 
+/** Methods per owning type plus resolved supertype/implementer links. */
+interface TypeHierarchy {
+  methodsOf: Map<string, GraphNode[]>;
+  ownerOf: Map<string, GraphNode>;
+  supertypesOf: Map<string, string[]>;
+  implementersOf: Map<string, string[]>;
+}
+
+function buildTypeHierarchy(
+  edges: GraphEdge[],
+  builder: GraphBuilder,
+): TypeHierarchy {
+  const h: TypeHierarchy = {
+    methodsOf: new Map(),
+    ownerOf: new Map(),
+    supertypesOf: new Map(),
+    implementersOf: new Map(),
+  };
+  const push = (map: Map<string, string[]>, k: string, v: string): void => {
+    const arr = map.get(k) ?? [];
+    arr.push(v);
+    map.set(k, arr);
+  };
+  for (const e of edges) {
+    if (e.unresolved) continue;
+    if (e.kind === "HAS_METHOD") {
+      const owner = builder.getNode(e.from);
+      const method = builder.getNode(e.to);
+      if (!owner || !method) continue;
+      const arr = h.methodsOf.get(owner.id) ?? [];
+      arr.push(method);
+      h.methodsOf.set(owner.id, arr);
+      h.ownerOf.set(method.id, owner);
+    } else if (e.kind === "EXTENDS" || e.kind === "IMPLEMENTS") {
+      push(h.supertypesOf, e.from, e.to);
+      push(h.implementersOf, e.to, e.from);
+    }
+  }
+  return h;
+}
+
+/**
+ * The repo type a receiver annotation names, preferring the caller's
+ * imports, then its own file, then a unique match. Null when no Class or
+ * Interface of that name exists.
+ */
+function pickReceiverType(
+  typeName: string,
+  candidates: GraphNode[],
+  fromNode: GraphNode | undefined,
+  callerFileId: string | null,
+  ieIndex: ImportExportIndex,
+): { node: GraphNode; confidence: Confidence } | null {
+  if (callerFileId) {
+    const viaImports = followViaImports(
+      ieIndex,
+      callerFileId,
+      typeName,
+      CLASS_OR_INTERFACE,
+    );
+    if (viaImports) return { node: viaImports, confidence: "high" };
+  }
+  const sameFile = candidates.find((c) => c.path === fromNode?.path);
+  if (sameFile) return { node: sameFile, confidence: "high" };
+  if (candidates.length === 0) return null;
+  return {
+    node: candidates[0],
+    confidence: candidates.length === 1 ? "high" : "low",
+  };
+}
+
+/**
+ * `name` declared on the type or inherited through EXTENDS/IMPLEMENTS
+ * (breadth-first, so the nearest override wins). Interfaces without a
+ * matching member — TS interfaces carry no Method nodes — fall back to
+ * their implementers: one implementation is a fair bet, several a guess.
+ */
+function findMethod(
+  h: TypeHierarchy,
+  typeId: string,
+  name: string,
+): { node: GraphNode; confidence: Confidence } | null {
+  const declared = (start: string): GraphNode | null => {
+    const seen = new Set<string>([start]);
+    const queue = [start];
+    while (queue.length) {
+      const id = queue.shift()!;
+      const m = h.methodsOf.get(id)?.find((x) => x.name === name);
+      if (m) return m;
+      for (const sup of h.supertypesOf.get(id) ?? []) {
+        if (!seen.has(sup)) {
+          seen.add(sup);
+          queue.push(sup);
+        }
+      }
+    }
+    return null;
+  };
+
+  const own = declared(typeId);
+  if (own) return { node: own, confidence: "high" };
+
+  const impls: GraphNode[] = [];
+  const seen = new Set<string>([typeId]);
+  const queue = [...(h.implementersOf.get(typeId) ?? [])];
+  while (queue.length) {
+    const id = queue.shift()!;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    const m = declared(id);
+    if (m && !impls.includes(m)) impls.push(m);
+    queue.push(...(h.implementersOf.get(id) ?? []));
+  }
+  if (impls.length === 0) return null;
+  return { node: impls[0], confidence: impls.length === 1 ? "medium" : "low" };
+}
+
+function weakest(a: Confidence, b: Confidence): Confidence {
+  const rank: Record<Confidence, number> = { high: 2, medium: 1, low: 0 };
+  return rank[a] <= rank[b] ? a : b;
+}
+
 /**
  * Strip generics + take last `.`-segment so the by-name lookup hits the
  * indexed simple name. Handles both JS/TS forms (`Foo<Bar>`, `module.Foo`)
@@ -570,22 +2128,28 @@ function normalizeTypeRef(symbol: string): string | null {
 }
 
 /**
- * Cross-file resolution for EXTENDS / IMPLEMENTS edges. The extractors emit
- * `unresolved:class:<name>` placeholders when they can't tell at parse time
- * whether the parent type is local or external — same trick we use for CALLS.
+ * Cross-file resolution for EXTENDS / IMPLEMENTS / INJECTS / USES_TYPE edges.
+ * The extractors emit `unresolved:class:<name>` (`unresolved:type:<name>`)
+ * placeholders when they can't tell at parse time whether the parent type is
+ * local or external — same trick we use for CALLS.
  *
  * Strategy:
- *   1. Index all Class + Interface nodes by simple name.
+ *   1. Index all Class + Interface (+ TypeAlias + Enum) nodes by simple name.
  *   2. Build a file→imported-files map from existing IMPORTS edges so we can
  *      disambiguate when multiple candidates share a name.
- *   3. For each unresolved EXTENDS/IMPLEMENTS edge:
+ *   3. For each unresolved EXTENDS/IMPLEMENTS/INJECTS/USES_TYPE edge:
  *        - Normalize the symbol (strip generics, last `.`-segment).
  *        - Look up candidates in the right pool (Interface for IMPLEMENTS,
- *          Class for EXTENDS, with fallback to Interface for TS quirks).
+ *          Class for EXTENDS/INJECTS, with fallback to Interface for TS
+ *          quirks and injected interfaces; any Class/Interface/TypeAlias/Enum
+ *          for USES_TYPE).
  *        - If multiple candidates and we have IMPORTS info, prefer the one
  *          whose file the source actually imports.
  *        - Bind unique matches; leave ambiguous ones unresolved (better
  *          than silently picking wrong).
+ *   4. USES_TYPE edges naming a type the repo doesn't declare at all
+ *      (`Promise`, `Request`, `List`) are dropped rather than kept as
+ *      placeholders — there would be one per signature mentioning them.
  *
  * No extractor changes needed — this just rebinds existing edges. Runs after
  * resolveImports (we need IMPORTS edges) and before resolveCallsByName for
@@ -596,12 +2160,19 @@ const CLASS_OR_INTERFACE: ReadonlySet<NodeKind> = new Set([
   "Interface",
 ]);
 const INTERFACE_ONLY: ReadonlySet<NodeKind> = new Set(["Interface"]);
+const TYPE_KINDS: ReadonlySet<NodeKind> = new Set([
+  "Class",
+  "Interface",
+  "TypeAlias",
+  "Enum",
+]);
 
 function resolveTypeRefsByName(builder: GraphBuilder): void {
   const graph = builder.build();
 
   const classByName = new Map<string, GraphNode[]>();
   const interfaceByName = new Map<string, GraphNode[]>();
+  const typeByName = new Map<string, GraphNode[]>();
   for (const n of graph.nodes) {
     if (n.kind === "Class") {
       const arr = classByName.get(n.name) ?? [];
@@ -612,30 +2183,47 @@ function resolveTypeRefsByName(builder: GraphBuilder): void {
       arr.push(n);
       interfaceByName.set(n.name, arr);
     }
+    if (TYPE_KINDS.has(n.kind)) {
+      const arr = typeByName.get(n.name) ?? [];
+      arr.push(n);
+      typeByName.set(n.name, arr);
+    }
   }
 
   // Phase 1: same import-aware index used by resolveCallsByName.
   const ieIndex = buildImportExportIndex(builder);
 
   for (const edge of graph.edges) {
-    if (edge.kind !== "EXTENDS" && edge.kind !== "IMPLEMENTS") continue;
+    if (
+      edge.kind !== "EXTENDS" &&
+      edge.kind !== "IMPLEMENTS" &&
+      edge.kind !== "INJECTS" &&
+      edge.kind !== "USES_TYPE"
+    ) {
+      continue;
+    }
     if (!edge.unresolved) continue;
 
     const simpleName = normalizeTypeRef(edge.unresolved);
     if (!simpleName) continue;
 
     let candidates =
-      edge.kind === "IMPLEMENTS"
-        ? interfaceByName.get(simpleName)
-        : classByName.get(simpleName);
-    // TS quirk: `class X extends I` where I is actually an Interface.
+      edge.kind === "USES_TYPE"
+        ? typeByName.get(simpleName)
+        : edge.kind === "IMPLEMENTS"
+          ? interfaceByName.get(simpleName)
+          : classByName.get(simpleName);
+    // TS quirk: `class X extends I` where I is actually an Interface; an
+    // injected dependency may be typed by its interface too.
     if (
-      edge.kind === "EXTENDS" &&
+      edge.kind !== "IMPLEMENTS" &&
+      edge.kind !== "USES_TYPE" &&
       (!candidates || candidates.length === 0)
     ) {
       candidates = interfaceByName.get(simpleName);
     }
-    if (!candidates || candidates.length === 0) continue;
+    // As in resolveCallsByName, renamed re-exports only resolve via imports.
+    candidates ??= [];
 
     const fromNode = builder.getNode(edge.from);
     const sourceFileId = fromNode?.path ? `file:${fromNode.path}` : null;
@@ -643,10 +2231,18 @@ function resolveTypeRefsByName(builder: GraphBuilder): void {
     // Phase 1 preference: (1) IMPORTS→EXPORTS match wins; (2) any-IMPORTS
     // disambiguation (older heuristic — caller imports from the candidate's
     // file, regardless of whether that file actually exports this name);
-    // (3) unique candidate; (4) leave unresolved on ambiguity.
+    // (3) unique candidate; (4) leave unresolved on ambiguity. Stamped into
+    // meta like CALLS: import-export (high), imported-file / name-only-unique
+    // (medium).
     let target: GraphNode | undefined;
+    let strategy: string | undefined;
+    let confidence: Confidence = "high";
     const filterKinds =
-      edge.kind === "IMPLEMENTS" ? INTERFACE_ONLY : CLASS_OR_INTERFACE;
+      edge.kind === "USES_TYPE"
+        ? TYPE_KINDS
+        : edge.kind === "IMPLEMENTS"
+          ? INTERFACE_ONLY
+          : CLASS_OR_INTERFACE;
     if (sourceFileId) {
       const viaImports = followViaImports(
         ieIndex,
@@ -654,7 +2250,10 @@ function resolveTypeRefsByName(builder: GraphBuilder): void {
         simpleName,
         filterKinds,
       );
-      if (viaImports) target = viaImports;
+      if (viaImports) {
+        target = viaImports;
+        strategy = "import-export";
+      }
     }
     if (!target && sourceFileId && candidates.length > 1) {
       const imports = ieIndex.fileImports.get(sourceFileId);
@@ -662,15 +2261,118 @@ function resolveTypeRefsByName(builder: GraphBuilder): void {
         target = candidates.find(
           (c) => c.path && imports.has(`file:${c.path}`),
         );
+        if (target) {
+          strategy = "imported-file";
+          confidence = "medium";
+        }
       }
     }
-    if (!target && candidates.length === 1) target = candidates[0];
+    if (!target && candidates.length === 1) {
+      target = candidates[0];
+      strategy = "name-only-unique";
+      confidence = "medium";
+    }
+    if (!target && edge.kind === "USES_TYPE" && candidates.length === 0) {
+      builder.removeEdge(edge.from, edge.to, edge.kind);
+      continue;
+    }
     if (!target) continue; // still ambiguous → safer to leave unresolved
 
+    // `Foo` and `ns.Foo` in one signature land on the same declaration.
+    const existing =
+      edge.kind === "USES_TYPE"
+        ? builder.getEdge(edge.from, target.id, edge.kind)
+        : undefined;
+    if (existing) {
+      const roles = existing.meta?.roles as string[] | undefined;
+      for (const role of (edge.meta?.roles as string[] | undefined) ?? []) {
+        if (roles && !roles.includes(role)) roles.push(role);
+      }
+      builder.removeEdge(edge.from, edge.to, edge.kind);
+      continue;
+    }
+
+    const oldTo = edge.to;
+    edge.to = target.id;
+    delete edge.unresolved;
+    edge.id = `${edge.kind}:${edge.from}->${edge.to}`;
+    edge.meta = {
+      ...edge.meta,
+      strategy,
+      confidence,
+      candidateCount: strategy === "import-export" ? 1 : candidates.length,
+    };
+    builder.rekeyEdge(edge.from, oldTo, edge.kind, edge);
+  }
+}
+
+const COMPONENT_KINDS: ReadonlySet<NodeKind> = new Set([
+  "Function",
+  "Class",
+  "Variable",
+]);
+const HOOK_KINDS: ReadonlySet<NodeKind> = new Set(["Function", "Variable"]);
+
+/**
+ * Bind `unresolved:component:<Name>` (RENDERS) and `unresolved:hook:<useX>`
+ * (USES_HOOK) placeholders, in the same order as the other resolvers:
+ * IMPORTS→EXPORTS (high), a declaration in the same file (medium), then a
+ * unique repo-wide candidate — React components for RENDERS, Functions for
+ * hooks (medium). Ambiguous names, member elements (`<Tabs.Panel>`) and
+ * library hooks (`useState`) stay unresolved.
+ */
+function resolveReactRefs(builder: GraphBuilder): void {
+  const graph = builder.build();
+  const componentsByName = new Map<string, GraphNode[]>();
+  const hooksByName = new Map<string, GraphNode[]>();
+  for (const n of graph.nodes) {
+    const pool = n.meta?.reactComponent
+      ? componentsByName
+      : n.kind === "Function" && /^use[A-Z0-9]/.test(n.name)
+        ? hooksByName
+        : null;
+    pool?.set(n.name, [...(pool.get(n.name) ?? []), n]);
+  }
+  const ieIndex = buildImportExportIndex(builder);
+
+  for (const edge of graph.edges) {
+    if (edge.kind !== "RENDERS" && edge.kind !== "USES_HOOK") continue;
+    if (!edge.unresolved || edge.unresolved.includes(".")) continue;
+    const name = edge.unresolved;
+    const kinds = edge.kind === "RENDERS" ? COMPONENT_KINDS : HOOK_KINDS;
+    const pool = edge.kind === "RENDERS" ? componentsByName : hooksByName;
+    const candidates = pool.get(name) ?? [];
+    const fromNode = builder.getNode(edge.from);
+    const sourceFileId = fromNode?.path ? `file:${fromNode.path}` : null;
+
+    let target: GraphNode | undefined;
+    let strategy = "import-export";
+    let confidence: Confidence = "high";
+    if (sourceFileId) {
+      target =
+        followViaImports(ieIndex, sourceFileId, name, kinds) ?? undefined;
+    }
+    if (!target) {
+      target = candidates.find((c) => c.path === fromNode?.path);
+      strategy = "same-file";
+      confidence = "medium";
+    }
+    if (!target && candidates.length === 1) {
+      target = candidates[0];
+      strategy = "name-only-unique";
+    }
+    if (!target) continue;
+
     const oldTo = edge.to;
     edge.to = target.id;
     delete edge.unresolved;
     edge.id = `${edge.kind}:${edge.from}->${edge.to}`;
+    edge.meta = {
+      ...edge.meta,
+      strategy,
+      confidence,
+      candidateCount: strategy === "import-export" ? 1 : candidates.length,
+    };
     builder.rekeyEdge(edge.from, oldTo, edge.kind, edge);
   }
 }
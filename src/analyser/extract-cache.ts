@@ -0,0 +1,111 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { GraphNode, ID_SCHEME } from "../util/graph";
+import { isTestPath } from "../extractor/base";
+import type { FileExtraction, FileTask } from "./extract-pool";
+
+/**
+ * Bump whenever an extractor's output changes for the same input, so stale
+ * entries stop matching. (ID_SCHEME changes invalidate the cache on their own.)
+ */
+export const EXTRACTOR_VERSION = 7;
+
+/** Where extractions are cached unless told otherwise: ~/.code-lens-aI/extract-cache/. */
+export function defaultExtractCacheDir(): string {
+  return (
+    process.env.CODE_LENS_EXTRACT_CACHE_DIR ??
+    path.join(os.homedir(), ".code-lens-aI", "extract-cache")
+  );
+}
+
+/** The file's own path inside a stored entry; swapped for the real one on load. */
+const FILE_TOKEN = "\u0000file\u0000";
+
+interface Entry {
+  /** What extraction set on the File node (isTest, testFramework, meta). */
+  file: Partial<GraphNode>;
+  nodes: GraphNode[];
+  edges: FileExtraction["edges"];
+  pendingImports: FileExtraction["pendingImports"];
+}
+
+/**
+ * On-disk cache of per-file extractions, keyed by content hash, so a branch
+ * switch or a fresh clone only parses content it has never seen. Besides the
+ * content, an extraction depends on the file's language (`.ts` vs `.tsx`),
+ * whether its path looks like a test, and the path itself, which every id and
+ * `path` embeds: the first two are part of the key, the path is stored as a
+ * placeholder. Entries are written whole via rename, so concurrent runs only
+ * ever see complete files; unreadable entries are treated as misses.
+ */
+export class ExtractCache {
+  constructor(readonly dir: string = defaultExtractCacheDir()) {}
+
+  get(task: FileTask): FileExtraction | undefined {
+    const file = this.entryPath(task);
+    if (!file) return undefined;
+    let entry: Entry;
+    try {
+      entry = JSON.parse(
+        fs.readFileSync(file, "utf8").split(escaped(FILE_TOKEN)).join(escaped(task.absPath)),
+      ) as Entry;
+    } catch {
+      return undefined;
+    }
+    return {
+      nodes: [{ ...task.fileNode, ...entry.file }, ...entry.nodes],
+      edges: entry.edges,
+      pendingImports: entry.pendingImports,
+    };
+  }
+
+  put(task: FileTask, result: FileExtraction): void {
+    const file = this.entryPath(task);
+    if (!file) return;
+    const [fileNode, ...nodes] = result.nodes;
+    const annotations: Partial<GraphNode> = {};
+    for (const [k, v] of Object.entries(fileNode)) {
+      const before = (task.fileNode as unknown as Record<string, unknown>)[k];
+      if (JSON.stringify(v) !== JSON.stringify(before)) {
+        (annotations as Record<string, unknown>)[k] = v;
+      }
+    }
+    const entry: Entry = {
+      file: annotations,
+      nodes,
+      edges: result.edges,
+      pendingImports: result.pendingImports,
+    };
+    const text = JSON.stringify(entry)
+      .split(escaped(task.absPath))
+      .join(escaped(FILE_TOKEN));
+    try {
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      const tmp = `${file}.${process.pid}.tmp`;
+      fs.writeFileSync(tmp, text);
+      fs.renameSync(tmp, file);
+    } catch (err) {
+      console.warn(`[ast-graph] extraction cache write failed: ${(err as Error).message}`);
+    }
+  }
+
+  private entryPath(task: FileTask): string | undefined {
+    if (!task.hash) return undefined;
+    const name =
+      `${task.hash}-${task.language}` +
+      (isTestPath(task.absPath) ? "-test" : "") +
+      ".json";
+    return path.join(
+      this.dir,
+      `v${ID_SCHEME}.${EXTRACTOR_VERSION}`,
+      task.hash.slice(0, 2),
+      name,
+    );
+  }
+}
+
+/** `s` as it appears inside a JSON string literal. */
+function escaped(s: string): string {
+  return JSON.stringify(s).slice(1, -1);
+}
@@ -0,0 +1,214 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { Worker } from "worker_threads";
+import { GraphBuilder, GraphEdge, GraphNode } from "../util/graph";
+import { SupportedLanguage } from "../util/language";
+import { getParser } from "../util/parserFactory";
+import { ExtractContext, LanguageExtractor } from "../extractor/base";
+import { JsTsExtractor } from "../extractor/jsts";
+import { JavaExtractor } from "../extractor/java";
+import { PythonExtractor } from "../extractor/python";
+import { GoExtractor } from "../extractor/go";
+import { ExtractCache } from "./extract-cache";
+
+/**
+ * Per-file parse + extract, on the main thread or spread over a pool of
+ * worker threads. Extraction only ever reads and writes its own file's part
+ * of the graph, so each file is extracted into a builder of its own and the
+ * sub-graphs are merged into the repository's builder in walk order — the
+ * result is the same whichever worker finishes first, and the same as with
+ * one job. The same independence lets ExtractCache replay a file's
+ * sub-graph without parsing it.
+ */
+
+export interface FileTask {
+  absPath: string;
+  language: SupportedLanguage;
+  /** The File node already in the repository builder; extractors annotate it. */
+  fileNode: GraphNode;
+  /** sha256 of the content, when known; files without one bypass the cache. */
+  hash?: string;
+}
+
+export interface FileExtraction {
+  /** Nodes in insertion order, starting with the (annotated) File node. */
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  pendingImports: ExtractContext["pendingImports"];
+}
+
+export interface ExtractOptions {
+  /** Worker threads; 1 parses on the calling thread. Defaults to defaultJobs(). */
+  jobs?: number;
+  cache?: ExtractCache;
+}
+
+/** Default `jobs`: one per CPU. */
+export function defaultJobs(): number {
+  return Math.max(1, os.cpus().length);
+}
+
+/**
+ * Extract every task and merge the results into `builder` / `pendingImports`
+ * in task order. Files found in `cache` aren't parsed at all; with `jobs` > 1
+ * (and more than one miss) the rest are parsed on that many worker threads.
+ * Returns the nodes and edges the merge added to `builder` (the tasks' File
+ * nodes were already there).
+ */
+export async function extractFiles(
+  tasks: FileTask[],
+  builder: GraphBuilder,
+  pendingImports: ExtractContext["pendingImports"],
+  opts: ExtractOptions = {},
+): Promise<{ nodes: GraphNode[]; edges: GraphEdge[] }> {
+  const jobs = opts.jobs ?? defaultJobs();
+  const results: FileExtraction[] = new Array(tasks.length);
+  const misses: number[] = [];
+  tasks.forEach((task, i) => {
+    const hit = opts.cache?.get(task);
+    if (hit) results[i] = hit;
+    else misses.push(i);
+  });
+
+  const missTasks = misses.map((i) => tasks[i]);
+  const parsed =
+    jobs > 1 && missTasks.length > 1
+      ? await extractOnWorkers(missTasks, Math.min(jobs, missTasks.length))
+      : missTasks.map(extractFile);
+  misses.forEach((i, j) => {
+    results[i] = parsed[j];
+    opts.cache?.put(tasks[i], parsed[j]);
+  });
+
+  const added = { nodes: [] as GraphNode[], edges: [] as GraphEdge[] };
+  tasks.forEach((task, i) => {
+    const result = results[i];
+    const [fileNode, ...rest] = result.nodes;
+    // Extraction annotated a copy (isTest, meta.goPackage, …).
+    Object.assign(task.fileNode, fileNode);
+    for (const n of rest) {
+      if (builder.addNode(n) === n) added.nodes.push(n);
+    }
+    for (const { id: _id, ...e } of result.edges) {
+      if (builder.getEdge(e.from, e.to, e.kind)) continue;
+      added.edges.push(builder.addEdge(e));
+    }
+    pendingImports.push(...result.pendingImports);
+  });
+  return added;
+}
+
+/** Parse one file and run its language's extractor into a fresh builder. */
+export function extractFile(task: FileTask): FileExtraction {
+  const builder = new GraphBuilder();
+  // A copy, so the task's node stays as walked (the cache diffs against it).
+  const fileNode = builder.addNode({ ...task.fileNode });
+  const pendingImports: ExtractContext["pendingImports"] = [];
+  analyzeFile(task.absPath, task.language, fileNode, builder, pendingImports);
+  const { nodes, edges } = builder.build();
+  return { nodes, edges, pendingImports };
+}
+
+function extractOnWorkers(
+  tasks: FileTask[],
+  jobs: number,
+): Promise<FileExtraction[]> {
+  const results: FileExtraction[] = new Array(tasks.length);
+  const workers: Worker[] = [];
+  let next = 0;
+  let done = 0;
+
+  return new Promise<FileExtraction[]>((resolve, reject) => {
+    const finish = (err?: Error) => {
+      for (const w of workers) void w.terminate();
+      if (err) reject(err);
+      else resolve(results);
+    };
+    const feed = (w: Worker) => {
+      if (next < tasks.length) {
+        const index = next++;
+        w.postMessage({ index, task: tasks[index] });
+      }
+    };
+    for (let j = 0; j < jobs; j++) {
+      const w = spawnWorker();
+      workers.push(w);
+      w.on("message", (msg: { index: number; result: FileExtraction }) => {
+        results[msg.index] = msg.result;
+        if (++done === tasks.length) finish();
+        else feed(w);
+      });
+      w.on("error", (err) => finish(err));
+      w.on("exit", (code) => {
+        if (code !== 0 && done < tasks.length) {
+          finish(new Error(`extract worker exited with code ${code}`));
+        }
+      });
+      feed(w);
+    }
+  });
+}
+
+function spawnWorker(): Worker {
+  // Same extension as this module: .ts under ts-node, .js when built. A
+  // TypeScript worker needs ts-node registered in its own thread too.
+  const entry = path.join(__dirname, `extract-worker${path.extname(__filename)}`);
+  const execArgv = entry.endsWith(".ts")
+    ? ["--require", "ts-node/register/transpile-only"]
+    : [];
+  return new Worker(entry, { execArgv });
+}
+
+function analyzeFile(
+  filePath: string,
+  language: SupportedLanguage,
+  fileNode: GraphNode,
+  builder: GraphBuilder,
+  pendingImports: ExtractContext["pendingImports"],
+): void {
+  let source: string;
+  try {
+    source = fs.readFileSync(filePath, "utf8");
+  } catch {
+    return;
+  }
+
+  let tree;
+  try {
+    const parser = getParser(language);
+    // node-tree-sitter's default internal buffer is 32 KiB; pass an explicit
+    // bufferSize so files larger than that still parse cleanly.
+    tree = parser.parse(source, undefined, {
+      bufferSize: Math.max(source.length + 1024, 32 * 1024),
+    });
+  } catch (err) {
+    console.warn(`[ast-graph] parse failed for ${filePath}: ${(err as Error).message}`);
+    return;
+  }
+
+  const extractor = pickExtractor(language);
+  const ctx: ExtractContext = {
+    builder,
+    fileNode,
+    filePath,
+    language,
+    pendingImports,
+  };
+  extractor.extract(tree.rootNode, ctx);
+}
+
+function pickExtractor(language: SupportedLanguage): LanguageExtractor {
+  switch (language) {
+    case "java":
+      return new JavaExtractor();
+    case "python":
+      return new PythonExtractor();
+    case "go":
+      return new GoExtractor();
+    case "javascript":
+    case "typescript":
+    case "tsx":
+      return new JsTsExtractor();
+  }
+}
@@ -0,0 +1,7 @@
+import { parentPort } from "worker_threads";
+import { extractFile, FileTask } from "./extract-pool";
+
+/** Worker-thread entry for extract-pool: one file per message, in and out. */
+parentPort!.on("message", (msg: { index: number; task: FileTask }) => {
+  parentPort!.postMessage({ index: msg.index, result: extractFile(msg.task) });
+});
@@ -7,21 +7,26 @@ import {
   analyzeRepository,
   scanRepository,
   analyzeIncremental,
+  repoIgnore,
+  walksFile,
 } from "./analyser/analyser";
-import { indexToNeo4j } from "./indexers/neo4j";
+import { indexToNeo4j, Neo4jStream } from "./indexers/neo4j";
 import {
   deleteFilesByPath,
   getDependents,
   getFileHashes,
   getRepositoryMeta,
+  migrateNodeIds,
   setRepositoryMeta,
   type IncrementalCtx,
+  type RepoRef,
 } from "./indexers/neo4j-incremental";
 import { clusterInNeo4j } from "./clustering/neo4j-leiden";
 import { computeAndStoreEmbeddings } from "./embeddings/pipeline";
-import { search, type SearchMode } from "./search";
+import { search, type SearchHit, type SearchMode } from "./search";
 import { startMcpServer } from "./mcp/server";
-import { resolveSource } from "./util/repo-source";
+import { MemoryStore } from "./mcp/store";
+import { repositoryIdOf, resolveSource } from "./util/repo-source";
 import {
   gitCommitDelta,
   gitHeadCommit,
@@ -32,6 +37,10 @@ import {
   mergeDeltas,
   type GitDelta,
 } from "./util/git";
+import { ID_SCHEME, type CodeGraph } from "./util/graph";
+import { sha256OfFile } from "./util/hash";
+import type { RepoIgnore, SkipReason, SkippedFile } from "./util/ignore";
+import { RepoWatcher } from "./util/watch";
 
 interface CliArgs {
   repo: string;
@@ -41,6 +50,13 @@ interface CliArgs {
   noResolveCalls: boolean;
   stats: boolean;
   noJson: boolean;
+  repoId?: string;
+  /** Worker threads for parsing (default: one per CPU). */
+  jobs?: number;
+  /** Index too-large / minified / generated files too (`--include-generated`). */
+  includeGenerated: boolean;
+  /** Extraction cache directory, or false for `--no-extract-cache`. */
+  extractCache?: string | false;
   // Neo4j
   neo4jUri?: string;
   neo4jUser?: string;
@@ -50,6 +66,12 @@ interface CliArgs {
   neo4jSkipUnresolved: boolean;
   // Incremental indexing
   incremental: boolean;
+  /** Write batches of files to Neo4j as they're extracted (`--stream`). */
+  stream: boolean;
+  /** Keep the graph up to date as files change (`--watch`). */
+  watch: boolean;
+  /** Quiet period in ms before a batch of changes is applied. */
+  watchDebounce?: number;
   // Clustering
   cluster: boolean;
   clusterOnly: boolean;
@@ -65,8 +87,14 @@ interface CliArgs {
   searchQuery?: string;
   searchMode?: SearchMode;
   searchLimit?: number;
+  searchRepo?: string;
+  /** Graph JSON (`-o` output) to serve/search from memory instead of Neo4j. */
+  graph?: string;
   // MCP server
   mcp: boolean;
+  repoRoot?: string;
+  /** `--repo-root <id>=<dir>` checkouts, by repository id. */
+  repoRoots: Map<string, string>;
 }
 
 function parseArgs(argv: string[]): CliArgs {
@@ -80,11 +108,15 @@ function parseArgs(argv: string[]): CliArgs {
     neo4jClear: false,
     neo4jSkipUnresolved: false,
     incremental: false,
+    stream: false,
+    watch: false,
+    includeGenerated: false,
     cluster: false,
     clusterOnly: false,
     clusterClear: false,
     embed: false,
     mcp: false,
+    repoRoots: new Map(),
   };
   const rest: string[] = [];
   for (let i = 0; i < argv.length; i++) {
@@ -109,6 +141,21 @@ function parseArgs(argv: string[]): CliArgs {
       case "--no-json":
         args.noJson = true;
         break;
+      case "--repo-id":
+        args.repoId = argv[++i];
+        break;
+      case "--jobs":
+        args.jobs = Number(argv[++i]);
+        break;
+      case "--extract-cache":
+        args.extractCache = argv[++i];
+        break;
+      case "--no-extract-cache":
+        args.extractCache = false;
+        break;
+      case "--include-generated":
+        args.includeGenerated = true;
+        break;
       case "--neo4j-uri":
         args.neo4jUri = argv[++i];
         break;
@@ -130,6 +177,15 @@ function parseArgs(argv: string[]): CliArgs {
       case "--incremental":
         args.incremental = true;
         break;
+      case "--stream":
+        args.stream = true;
+        break;
+      case "--watch":
+        args.watch = true;
+        break;
+      case "--watch-debounce":
+        args.watchDebounce = Number(argv[++i]);
+        break;
       case "--cluster":
         args.cluster = true;
         break;
@@ -176,9 +232,25 @@ function parseArgs(argv: string[]): CliArgs {
       case "--search-limit":
         args.searchLimit = Number(argv[++i]);
         break;
+      case "--search-repo":
+        args.searchRepo = argv[++i];
+        break;
       case "--mcp":
         args.mcp = true;
         break;
+      case "--graph":
+        args.graph = argv[++i];
+        break;
+      case "--repo-root": {
+        const v = argv[++i];
+        const eq = v.indexOf("=");
+        if (eq > 0) {
+          args.repoRoots.set(v.slice(0, eq), path.resolve(v.slice(eq + 1)));
+        } else {
+          args.repoRoot = v;
+        }
+        break;
+      }
       case "-h":
       case "--help":
         printHelp();
@@ -191,7 +263,7 @@ function parseArgs(argv: string[]): CliArgs {
   // positional, leave repo empty so the search-only branch fires.
   if (rest[0]) {
     args.repo = rest[0];
-  } else if (!args.searchQuery) {
+  } else if (!args.searchQuery && !args.graph) {
     args.repo = ".";
   }
 
@@ -205,7 +277,7 @@ function parseArgs(argv: string[]): CliArgs {
 
 function printHelp(): void {
   console.log(
-    `ast-graph - build a code graph from a repository (JS/TS/Java)
+    `ast-graph - build a code graph from a repository (JS/TS/Java/Python/Go)
 
 Usage:
   ast-graph <repo-path-or-git-url> [options]
@@ -216,22 +288,44 @@ Usage:
 
 General:
   -o, --out <file>             Write JSON to file (default: stdout)
-      --ignore <a,b,c>         Extra folder/file names to ignore
+      --ignore <a,b,c>         Extra folder/file names to ignore (.gitignore
+                               files and .codelensignore always apply)
+      --include-generated      Also index files skipped as too large (>1 MiB),
+                               minified or generated (@generated, DO NOT EDIT)
       --no-pretty              Compact JSON output
       --no-resolve-calls       Keep CALLS edges fully unresolved
       --no-json                Do not emit JSON (use with --neo4j-uri)
       --stats                  Print summary stats to stderr
+      --repo-id <id>           Repository identifier ids are keyed on (default:
+                               <host>/<owner>/<name> of the source URL or
+                               origin remote, else the directory name)
+      --jobs <n>               Worker threads to parse files on (default: one
+                               per CPU; 1 parses on the main thread)
+      --extract-cache <dir>    Per-file extraction cache, keyed by content hash
+                               (default: ~/.code-lens-aI/extract-cache)
+      --no-extract-cache       Parse every file, without reading or writing it
 
 Neo4j (also reads NEO4J_URI / NEO4J_USER / NEO4J_PASSWORD / NEO4J_DATABASE):
       --neo4j-uri <uri>        e.g. bolt://localhost:7687  or  neo4j+s://...
       --neo4j-user <name>
       --neo4j-password <pw>
       --neo4j-database <name>
-      --neo4j-clear            DETACH DELETE all :CodeNode before indexing
+      --neo4j-clear            Delete this repository's nodes before indexing
+                               (other repositories in the database are kept)
       --neo4j-skip-unresolved  Skip edges whose target was never resolved
       --incremental            Re-index only changed files (git-aware when
                                target is a git repo; sha256-based otherwise).
                                Cascades to dependents so CALLS edges stay correct.
+      --stream                 Write files to Neo4j batch by batch while
+                               analysing, dropping their bodies once written.
+                               Lowers peak memory; the body-less graph still
+                               stays resident for resolution. No JSON.
+      --watch                  Bring the graph up to date like --incremental,
+                               then keep watching the repo and re-index changed
+                               files (and, with --embed, re-embed them) as they
+                               change. Combine with --mcp to serve a live graph.
+      --watch-debounce <ms>    Wait for this long without changes before
+                               applying a batch (default 500)
 
 Clustering (requires Neo4j + GDS plugin; runs after indexing):
       --cluster                Run Leiden community detection on File-IMPORTS
@@ -252,32 +346,137 @@ Search (runs against existing graph; can run with no <repo-path>):
       --search "<query>"       Run a search and print top hits
       --search-mode <m>        fts | vector | hybrid (auto if omitted)
       --search-limit <n>       Top-N results (default 20)
+      --search-repo <id>       Only hits from this repository id
+      --graph <file>           Search a graph JSON written by -o (BM25, no Neo4j)
 
 MCP server mode (stdio; no <repo-path> needed):
       --mcp                    Start the Model Context Protocol server.
                                Wire into Claude Desktop/Cursor/Codex configs.
+      --graph <file>           Serve a graph JSON written by -o from memory
+                               instead of Neo4j (search_code, get_definition,
+                               read_code, get_callers, get_callees,
+                               impact_analysis)
+      --repo-root <dir>        Checkout that stored repo-relative paths resolve
+                               against for read_code (default: cwd)
+      --repo-root <id>=<dir>   Checkout of one repository in a multi-repo
+                               database (repeatable)
+      --watch [<repo-path>]    Also keep <repo-path> (default: cwd) indexed
+                               while serving; see --watch above. Neo4j only.
 
   -h, --help                   Show this help`,
   );
 }
 
+/** Files the walks left out as too large / minified / generated. */
+const skippedFiles = new Map<string, SkipReason>();
+
+/** The ignore options every scan and analysis of the repo shares. */
+function walkOptions(args: CliArgs): {
+  ignore: string[];
+  skipGenerated: boolean;
+  onSkip: (file: SkippedFile) => void;
+} {
+  return {
+    ignore: args.ignore,
+    skipGenerated: !args.includeGenerated,
+    onSkip: (f) => skippedFiles.set(f.absPath, f.reason),
+  };
+}
+
+/** Summarise skippedFiles; the first few are listed, all of them with --stats. */
+function printSkipReport(absRepo: string, all: boolean): void {
+  if (skippedFiles.size === 0) return;
+  const byReason = new Map<SkipReason, number>();
+  for (const r of skippedFiles.values()) byReason.set(r, (byReason.get(r) ?? 0) + 1);
+  console.error(
+    `[ast-graph] skipped ${skippedFiles.size} file(s): ` +
+      [...byReason].map(([r, n]) => `${n} ${r}`).join(", ") +
+      ` (--include-generated indexes them)`,
+  );
+  const files = [...skippedFiles]
+    .map(([p, r]) => `${path.relative(absRepo, p)} (${r})`)
+    .sort();
+  const shown = all ? files : files.slice(0, 10);
+  for (const f of shown) console.error(`  ${f}`);
+  if (shown.length < files.length) {
+    console.error(`  … ${files.length - shown.length} more (--stats lists all)`);
+  }
+}
+
+/**
+ * Repo source resolution — accepts a path or a git URL. If URL, clones into
+ * ~/.code-lens-aI/cache/ and rewrites args.repo to point there.
+ */
+function resolveRepo(args: CliArgs): { repo: RepoRef; sourceUrl?: string } {
+  const resolved = resolveSource(args.repo);
+  args.repo = resolved.localPath;
+  const absRepo = path.resolve(args.repo);
+  return {
+    repo: {
+      root: absRepo,
+      id: args.repoId ?? repositoryIdOf(absRepo, resolved.sourceUrl),
+    },
+    sourceUrl: resolved.sourceUrl,
+  };
+}
+
+/**
+ * Per-file summary of imports resolved through tsconfig/jsconfig aliases:
+ * which `paths` rule (or `baseUrl`) each importing file relied on, and
+ * from which config. Silent when no alias rule matched anywhere.
+ */
+function printAliasReport(graph: CodeGraph): void {
+  const pathOf = new Map(graph.nodes.map((n) => [n.id, n.path]));
+  const byFile = new Map<string, Map<string, number>>();
+  for (const e of graph.edges) {
+    if (e.kind !== "IMPORTS" || typeof e.meta?.alias !== "string") continue;
+    const file = pathOf.get(e.from) ?? e.from;
+    const rules = byFile.get(file) ?? new Map<string, number>();
+    const key = `${e.meta.alias} (${e.meta.tsconfig})${e.unresolved ? " [unresolved]" : ""}`;
+    rules.set(key, (rules.get(key) ?? 0) + 1);
+    byFile.set(file, rules);
+  }
+  if (byFile.size === 0) return;
+  console.error(`[ast-graph] tsconfig alias matches (${byFile.size} files):`);
+  for (const [file, rules] of [...byFile].sort(([a], [b]) => a.localeCompare(b))) {
+    console.error(`  ${file}`);
+    for (const [rule, n] of rules) console.error(`    ${rule} ×${n}`);
+  }
+}
+
 async function main(): Promise<void> {
   const args = parseArgs(process.argv.slice(2));
 
   // MCP server mode — no repo path needed; runs until killed.
   if (args.mcp) {
-    if (!args.neo4jUri || !args.neo4jUser || !args.neo4jPassword) {
+    if (
+      !args.graph &&
+      (!args.neo4jUri || !args.neo4jUser || !args.neo4jPassword)
+    ) {
+      console.error(
+        "[ast-graph] --mcp requires Neo4j credentials (--neo4j-uri / --neo4j-user / --neo4j-password) or --graph <file>",
+      );
+      process.exit(2);
+    }
+    if (args.watch && args.graph) {
       console.error(
-        "[ast-graph] --mcp requires Neo4j credentials (--neo4j-uri / --neo4j-user / --neo4j-password)",
+        "[ast-graph] --watch keeps a Neo4j graph current; it can't be combined with --graph",
       );
       process.exit(2);
     }
+    // --watch: read_code resolves against the watched checkout by default.
+    const watched = args.watch ? resolveRepo(args) : undefined;
     await startMcpServer({
       neo4jUri: args.neo4jUri,
       neo4jUser: args.neo4jUser,
       neo4jPassword: args.neo4jPassword,
       neo4jDatabase: args.neo4jDatabase,
+      graphFile: args.graph ? path.resolve(args.graph) : undefined,
+      repoRoot: path.resolve(args.repoRoot ?? watched?.repo.root ?? "."),
+      repoRoots: args.repoRoots,
     });
+    // Tools answer from the stored graph while the watch catches up.
+    if (watched) await startWatch(args, watched.repo, watched.sourceUrl);
     return; // server keeps process alive via stdio + signal handlers
   }
 
@@ -299,25 +498,53 @@ async function main(): Promise<void> {
     return;
   }
 
-  // Repo source resolution — accepts a path or a git URL. If URL, clones into
-  // ~/.code-lens-aI/cache/ and rewrites args.repo to point there.
-  const resolved = resolveSource(args.repo);
-  args.repo = resolved.localPath;
-  const sourceUrl = resolved.sourceUrl;
+  const { repo, sourceUrl } = resolveRepo(args);
+  const absRepo = repo.root;
+
+  // Watch mode catches up like --incremental, then keeps going until killed.
+  if (args.watch) {
+    if (args.stream) {
+      console.error("[ast-graph] --stream can't be combined with --watch");
+      process.exit(2);
+    }
+    const watcher = await startWatch(args, repo, sourceUrl);
+    const stop = async () => {
+      console.error("[ast-graph] stopping watch");
+      await watcher.close();
+      process.exit(0);
+    };
+    process.on("SIGINT", stop);
+    process.on("SIGTERM", stop);
+    return; // the directory watchers keep the process alive
+  }
 
   // Incremental mode runs its own pipeline: scan, diff, scoped delete, partial
   // re-extract, push, then re-resolve. Returns early so the full-walk path
   // below doesn't run.
   if (args.incremental) {
-    await runIncremental(args, sourceUrl);
+    if (args.stream) {
+      console.error("[ast-graph] --stream can't be combined with --incremental");
+      process.exit(2);
+    }
+    await runIncremental(args, repo, sourceUrl);
+    printSkipReport(absRepo, args.stats);
     return;
   }
 
-  console.error(`[ast-graph] analysing ${path.resolve(args.repo)} ...`);
-  const graph = analyzeRepository(args.repo, {
-    ignore: args.ignore,
-    resolveCallsByName: !args.noResolveCalls,
-  });
+  let graph: CodeGraph;
+  if (args.stream) {
+    graph = await runStreaming(args, repo);
+  } else {
+    console.error(`[ast-graph] analysing ${absRepo} as ${repo.id} ...`);
+    graph = await analyzeRepository(absRepo, {
+      ...walkOptions(args),
+      resolveCallsByName: !args.noResolveCalls,
+      repoId: repo.id,
+      jobs: args.jobs,
+      extractCache: args.extractCache,
+    });
+  }
+  printSkipReport(absRepo, args.stats);
 
   if (args.stats) {
     const counts: Record<string, number> = {};
@@ -326,10 +553,11 @@ async function main(): Promise<void> {
     for (const e of graph.edges) eCounts[e.kind] = (eCounts[e.kind] ?? 0) + 1;
     console.error("[ast-graph] node counts:", counts);
     console.error("[ast-graph] edge counts:", eCounts);
+    printAliasReport(graph);
   }
 
   // ── JSON output ─────────────────────────────────────────────────────
-  if (!args.noJson) {
+  if (!args.noJson && !args.stream) {
     // Strip the live graphlib reference from the JSON payload.
     const payload = { nodes: graph.nodes, edges: graph.edges };
     const json = args.pretty
@@ -347,13 +575,22 @@ async function main(): Promise<void> {
   }
 
   // ── Neo4j indexing ─────────────────────────────────────────────────
-  if (args.neo4jUri) {
+  if (args.neo4jUri && !args.stream) {
     if (!args.neo4jUser || !args.neo4jPassword) {
       console.error(
         "[ast-graph] --neo4j-uri requires --neo4j-user and --neo4j-password (or NEO4J_USER / NEO4J_PASSWORD env vars)",
       );
       process.exit(2);
     }
+    if (!args.neo4jClear) {
+      const ctx: IncrementalCtx = {
+        uri: args.neo4jUri,
+        user: args.neo4jUser,
+        password: args.neo4jPassword,
+        database: args.neo4jDatabase,
+      };
+      await migrateStoredIds(ctx, repo, graph);
+    }
     console.error(`[ast-graph] indexing into Neo4j at ${args.neo4jUri} ...`);
     const result = await indexToNeo4j(graph, {
       uri: args.neo4jUri,
@@ -433,6 +670,7 @@ async function main(): Promise<void> {
  */
 async function runIncremental(
   args: CliArgs,
+  repo: RepoRef,
   sourceUrl: string | undefined,
 ): Promise<void> {
   if (!args.neo4jUri || !args.neo4jUser || !args.neo4jPassword) {
@@ -447,14 +685,52 @@ async function runIncremental(
     password: args.neo4jPassword,
     database: args.neo4jDatabase,
   };
-  const absRepo = path.resolve(args.repo);
+  const absRepo = repo.root;
   const indexedAt = new Date().toISOString();
 
   // ── Step 1: detect change-detection mode ────────────────────────────
-  const repoMeta = await getRepositoryMeta(ctx, absRepo);
+  const repoMeta = await getRepositoryMeta(ctx, repo);
   const useGit = isGitRepo(absRepo);
   const headCommit = useGit ? gitHeadCommit(absRepo) : null;
 
+  // A graph stored under an older id scheme can't be patched file by file —
+  // unchanged files would keep their old ids. Re-extract everything, move
+  // the stored nodes onto the new ids, and push the whole graph once.
+  if (repoMeta && repoMeta.idScheme < ID_SCHEME) {
+    const scan = scanRepository(absRepo, { ...walkOptions(args), withHashes: true });
+    const hashes = new Map<string, string>();
+    for (const f of scan.files) if (f.hash) hashes.set(f.absPath, f.hash);
+    const graph = await analyzeIncremental(absRepo, {
+      ...walkOptions(args),
+      resolveCallsByName: !args.noResolveCalls,
+      extractOnly: new Set(scan.files.map((f) => f.absPath)),
+      hashes,
+      indexedAt,
+      repoId: repo.id,
+      jobs: args.jobs,
+      extractCache: args.extractCache,
+    });
+    await migrateStoredIds(ctx, repo, graph);
+    const pushed = await indexToNeo4j(graph, {
+      uri: args.neo4jUri,
+      user: args.neo4jUser,
+      password: args.neo4jPassword,
+      database: args.neo4jDatabase,
+      clear: false,
+      skipUnresolved: args.neo4jSkipUnresolved,
+    });
+    console.error(
+      `[ast-graph] pushed ${pushed.nodesWritten} nodes, ${pushed.edgesWritten} edges`,
+    );
+    await setRepositoryMeta(ctx, repo, {
+      indexedAt,
+      lastCommit: headCommit,
+      sourceUrl,
+    });
+    await runIncrementalExtras(args);
+    return;
+  }
+
   // Fast path: git repo, prior commit known + reachable, working tree clean.
   if (
     useGit &&
@@ -474,6 +750,7 @@ async function runIncremental(
   let added: string[] = [];
   let deleted: string[] = [];
   let modeUsed: "git" | "hash" | "cold" = "cold";
+  const onDisk = new Map<string, string>(); // absPath → hash (hash mode only)
 
   const useGitDelta =
     useGit &&
@@ -487,7 +764,7 @@ async function runIncremental(
     const working: GitDelta = gitWorkingTreeDelta(absRepo);
     const merged = mergeDeltas(committed, working);
     // Keep only files we'd actually index (have a detectable language).
-    const scan = scanRepository(absRepo, { ignore: args.ignore });
+    const scan = scanRepository(absRepo, walkOptions(args));
     const indexable = new Set(scan.files.map((f) => f.absPath));
     changed = merged.changed.filter((p) => indexable.has(p));
     added = merged.added.filter((p) => indexable.has(p));
@@ -499,14 +776,13 @@ async function runIncremental(
     // Mode B (hash) — also handles cold cache (no prior repo meta).
     const isCold = !repoMeta;
     modeUsed = isCold ? "cold" : "hash";
-    const scan = scanRepository(absRepo, { ignore: args.ignore, withHashes: true });
-    const onDisk = new Map<string, string>(); // absPath → hash
+    const scan = scanRepository(absRepo, { ...walkOptions(args), withHashes: true });
     const langByPath = new Map<string, string>();
     for (const f of scan.files) {
       if (f.hash) onDisk.set(f.absPath, f.hash);
       langByPath.set(f.absPath, f.language);
     }
-    const stored = isCold ? new Map<string, string>() : await getFileHashes(ctx, absRepo);
+    const stored = isCold ? new Map<string, string>() : await getFileHashes(ctx, repo);
     for (const [p, h] of onDisk) {
       const prev = stored.get(p);
       if (prev === undefined) added.push(p);
@@ -522,7 +798,7 @@ async function runIncremental(
 
   if (changed.length + added.length + deleted.length === 0) {
     console.error("[ast-graph] no changes detected");
-    await setRepositoryMeta(ctx, absRepo, {
+    await setRepositoryMeta(ctx, repo, {
       indexedAt,
       lastCommit: headCommit,
       sourceUrl,
@@ -530,11 +806,45 @@ async function runIncremental(
     return;
   }
 
+  await applyDelta(
+    args,
+    repo,
+    ctx,
+    { changed, added, deleted },
+    { indexedAt, lastCommit: headCommit, sourceUrl },
+    onDisk,
+  );
+  await runIncrementalExtras(args);
+}
+
+/** Files that changed, appeared or disappeared, by absolute path. */
+interface FileDelta {
+  changed: string[];
+  added: string[];
+  deleted: string[];
+}
+
+/**
+ * Steps 3–6 of the incremental pipeline, shared with --watch: cascade the
+ * delta to dependents, scope-delete, re-extract and push, then stamp the
+ * repo meta. `hashes` are content hashes already known, by absolute path;
+ * the rest of the re-extracted files are hashed here.
+ */
+async function applyDelta(
+  args: CliArgs,
+  repo: RepoRef,
+  ctx: IncrementalCtx,
+  { changed, added, deleted }: FileDelta,
+  stamp: { indexedAt: string; lastCommit: string | null; sourceUrl?: string },
+  hashes: Map<string, string> = new Map(),
+): Promise<void> {
+  const absRepo = repo.root;
+
   // ── Step 3: dependents cascade ──────────────────────────────────────
   // Look up files that import or call into the changed/deleted set so their
   // stale CALLS edges get re-resolved against the new node IDs.
   const cascadeSeed = [...changed, ...deleted];
-  const dependents = await getDependents(ctx, cascadeSeed);
+  const dependents = await getDependents(ctx, repo, cascadeSeed);
   for (const p of changed) dependents.delete(p);
   for (const p of added) dependents.delete(p);
   console.error(
@@ -548,30 +858,20 @@ async function runIncremental(
 
   // ── Step 4: scope-delete old subgraphs ──────────────────────────────
   if (toDelete.size > 0) {
-    const { deletedNodes } = await deleteFilesByPath(ctx, [...toDelete]);
+    const { deletedNodes } = await deleteFilesByPath(ctx, repo, [...toDelete]);
     console.error(
       `[ast-graph] scope-deleted ${deletedNodes} symbol+file node(s) across ${toDelete.size} file(s)`,
     );
   }
 
   // ── Step 5: re-extract dirty files ──────────────────────────────────
+  // File nodes always carry an up-to-date hash, so hash mode works later.
   const hashesForExtract = new Map<string, string>();
-  if (modeUsed === "git") {
-    // We didn't compute hashes in git mode; compute them now for the extract set
-    // so File nodes always carry an up-to-date hash (Mode B fallback works later).
-    const { sha256OfFile } = await import("./util/hash");
-    for (const p of toExtract) {
-      try {
-        hashesForExtract.set(p, sha256OfFile(p));
-      } catch {
-        // missing file — should already be in `deleted` set; skip
-      }
-    }
-  } else {
-    // Hash mode already scanned with hashes; re-scan to recover the map.
-    const rescan = scanRepository(absRepo, { ignore: args.ignore, withHashes: true });
-    for (const f of rescan.files) {
-      if (toExtract.has(f.absPath) && f.hash) hashesForExtract.set(f.absPath, f.hash);
+  for (const p of toExtract) {
+    try {
+      hashesForExtract.set(p, hashes.get(p) ?? sha256OfFile(p));
+    } catch {
+      // missing file — should already be in `deleted` set; skip
     }
   }
 
@@ -580,12 +880,15 @@ async function runIncremental(
     console.error(
       `[ast-graph] extracting ${toExtract.size} file(s) ...`,
     );
-    const graph = analyzeIncremental(absRepo, {
-      ignore: args.ignore,
+    const graph = await analyzeIncremental(absRepo, {
+      ...walkOptions(args),
       resolveCallsByName: !args.noResolveCalls,
       extractOnly: toExtract,
       hashes: hashesForExtract,
-      indexedAt,
+      indexedAt: stamp.indexedAt,
+      repoId: repo.id,
+      jobs: args.jobs,
+      extractCache: args.extractCache,
     });
 
     if (args.stats) {
@@ -595,14 +898,12 @@ async function runIncremental(
       for (const e of graph.edges) eCounts[e.kind] = (eCounts[e.kind] ?? 0) + 1;
       console.error("[ast-graph] node counts:", counts);
       console.error("[ast-graph] edge counts:", eCounts);
+      printAliasReport(graph);
     }
 
     // Push without --neo4j-clear; MERGE semantics handle the partial graph.
     graphSummary = await indexToNeo4j(graph, {
-      uri: args.neo4jUri,
-      user: args.neo4jUser,
-      password: args.neo4jPassword,
-      database: args.neo4jDatabase,
+      ...ctx,
       clear: false,
       skipUnresolved: args.neo4jSkipUnresolved,
     });
@@ -612,13 +913,12 @@ async function runIncremental(
   }
 
   // ── Step 6: stamp repo meta ─────────────────────────────────────────
-  await setRepositoryMeta(ctx, absRepo, {
-    indexedAt,
-    lastCommit: headCommit,
-    sourceUrl,
-  });
+  await setRepositoryMeta(ctx, repo, stamp);
+}
 
-  // ── Optional clustering / embeddings ────────────────────────────────
+/** `--cluster` / `--embed` after an incremental push. */
+async function runIncrementalExtras(args: CliArgs): Promise<void> {
+  if (!args.neo4jUri || !args.neo4jUser || !args.neo4jPassword) return;
   if (args.cluster) {
     console.error("[ast-graph] running Leiden clustering ...");
     const report = await clusterInNeo4j({
@@ -637,23 +937,243 @@ async function runIncremental(
         `${report.spineNodes} spine files (${report.filesScored} files scored)`,
     );
   }
-  if (args.embed) {
-    console.error("[ast-graph] computing embeddings ...");
-    const report = await computeAndStoreEmbeddings({
-      uri: args.neo4jUri,
-      user: args.neo4jUser,
-      password: args.neo4jPassword,
-      database: args.neo4jDatabase,
-      model: args.embedModel,
-      batchSize: args.embedBatch,
+  if (args.embed) await refreshEmbeddings(args);
+}
+
+/**
+ * `--embed` over a patched graph. Nodes keep their embeddings unless they
+ * were re-extracted, so only the changed files' symbols are embedded again.
+ */
+async function refreshEmbeddings(args: CliArgs): Promise<void> {
+  if (!args.neo4jUri || !args.neo4jUser || !args.neo4jPassword) return;
+  console.error("[ast-graph] computing embeddings ...");
+  const report = await computeAndStoreEmbeddings({
+    uri: args.neo4jUri,
+    user: args.neo4jUser,
+    password: args.neo4jPassword,
+    database: args.neo4jDatabase,
+    model: args.embedModel,
+    batchSize: args.embedBatch,
+  });
+  console.error(
+    `[ast-graph] embedded ${report.embedded}/${report.totalCandidates} nodes ` +
+      `(skipped ${report.skipped}) in ${(report.durationMs / 1000).toFixed(1)}s`,
+  );
+}
+
+/**
+ * `--watch`: bring the stored graph up to date (runIncremental), then keep
+ * it there. Each debounced batch of changed paths goes through the same
+ * cascade, scoped delete and partial re-extract (applyDelta), then, with
+ * --embed, embeddings for the re-extracted nodes. --cluster only runs on the
+ * initial catch-up. Returns the running watcher.
+ */
+async function startWatch(
+  args: CliArgs,
+  repo: RepoRef,
+  sourceUrl: string | undefined,
+): Promise<RepoWatcher> {
+  if (!args.neo4jUri || !args.neo4jUser || !args.neo4jPassword) {
+    console.error(
+      "[ast-graph] --watch requires Neo4j credentials (--neo4j-uri / --neo4j-user / --neo4j-password)",
+    );
+    process.exit(2);
+  }
+  const ctx: IncrementalCtx = {
+    uri: args.neo4jUri,
+    user: args.neo4jUser,
+    password: args.neo4jPassword,
+    database: args.neo4jDatabase,
+  };
+  // Watch from the start, so edits made while catching up aren't missed;
+  // their batch waits for the catch-up to finish.
+  const ignores = repoIgnore(repo.root, walkOptions(args));
+  let caughtUp: Promise<void> = Promise.resolve();
+  const watcher = RepoWatcher.start(repo.root, {
+    ignore: ignores,
+    debounceMs: args.watchDebounce,
+    onChange: async (paths) => {
+      await caughtUp;
+      await applyWatchedChanges(args, repo, ctx, ignores, paths, sourceUrl);
+    },
+  });
+  caughtUp = runIncremental(args, repo, sourceUrl);
+  await caughtUp;
+  printSkipReport(repo.root, args.stats);
+  console.error(
+    `[ast-graph] watching ${repo.root} (${watcher.directories} directories) ...`,
+  );
+  return watcher;
+}
+
+/**
+ * One --watch batch: sort the paths into a delta against the stored hashes
+ * (a save that didn't change the content is no change) and apply it.
+ */
+async function applyWatchedChanges(
+  args: CliArgs,
+  repo: RepoRef,
+  ctx: IncrementalCtx,
+  ignores: RepoIgnore,
+  paths: string[],
+  sourceUrl: string | undefined,
+): Promise<void> {
+  const stored = await getFileHashes(ctx, repo);
+  const walk = {
+    ...walkOptions(args),
+    onSkip: (f: SkippedFile) =>
+      console.error(
+        `[ast-graph] skipped ${path.relative(repo.root, f.absPath)} (${f.reason})`,
+      ),
+  };
+  const changed = new Set<string>();
+  const added = new Set<string>();
+  const deleted = new Set<string>();
+  const hashes = new Map<string, string>();
+  const sent = new Set(paths);
+  for (const p of paths) {
+    let stat: fs.Stats | undefined;
+    try {
+      stat = fs.statSync(p);
+    } catch {
+      // removed
+    }
+    if (!stat) {
+      // A removed file, or a removed directory and every file stored under it.
+      for (const q of stored.keys()) {
+        if (q === p || q.startsWith(p + path.sep)) deleted.add(q);
+      }
+    } else if (stat.isDirectory()) {
+      // Its ignore rules changed, and the files they still let in came along:
+      // whatever is stored below it and wasn't sent is left out now.
+      for (const q of stored.keys()) {
+        if (q.startsWith(p + path.sep) && !sent.has(q)) deleted.add(q);
+      }
+    } else if (!stat.isFile()) {
+      continue;
+    } else if (!walksFile(p, ignores, walk)) {
+      // Now ignored or skipped: drop what was stored for it.
+      if (stored.has(p)) deleted.add(p);
+    } else {
+      let hash: string;
+      try {
+        hash = sha256OfFile(p);
+      } catch {
+        continue; // removed again since the stat
+      }
+      const prev = stored.get(p);
+      if (prev === hash) continue;
+      hashes.set(p, hash);
+      (prev === undefined ? added : changed).add(p);
+    }
+  }
+  if (changed.size + added.size + deleted.size === 0) return;
+
+  console.error(
+    `[ast-graph] watch: ${changed.size} changed, ${added.size} added, ${deleted.size} deleted`,
+  );
+  await applyDelta(
+    args,
+    repo,
+    ctx,
+    { changed: [...changed], added: [...added], deleted: [...deleted] },
+    {
+      indexedAt: new Date().toISOString(),
+      lastCommit: isGitRepo(repo.root) ? gitHeadCommit(repo.root) : null,
+      sourceUrl,
+    },
+    hashes,
+  );
+  if (args.embed) await refreshEmbeddings(args);
+}
+
+/**
+ * `--stream`: analyse and index in one pass. Each batch of extracted files
+ * goes to Neo4j straight away and loses its bodies, so bodies never all sit
+ * in memory at once — the rest of the graph does, for the resolve passes,
+ * whose results are reconciled at the end.
+ * Returns the resolved graph, without bodies, for --stats.
+ */
+async function runStreaming(args: CliArgs, repo: RepoRef): Promise<CodeGraph> {
+  if (!args.neo4jUri || !args.neo4jUser || !args.neo4jPassword) {
+    console.error(
+      "[ast-graph] --stream requires Neo4j credentials (--neo4j-uri / --neo4j-user / --neo4j-password)",
+    );
+    process.exit(2);
+  }
+  if (args.out) {
+    console.error("[ast-graph] --stream writes no JSON; drop -o");
+    process.exit(2);
+  }
+  const ctx: IncrementalCtx = {
+    uri: args.neo4jUri,
+    user: args.neo4jUser,
+    password: args.neo4jPassword,
+    database: args.neo4jDatabase,
+  };
+  // Migrating ids needs every new id up front, which streaming never has.
+  if (!args.neo4jClear) {
+    const stored = await getRepositoryMeta(ctx, repo);
+    if (stored && stored.idScheme < ID_SCHEME) {
+      console.error(
+        `[ast-graph] the stored graph uses id scheme v${stored.idScheme}; ` +
+          `re-index once without --stream, or with --neo4j-clear`,
+      );
+      process.exit(2);
+    }
+  }
+
+  console.error(
+    `[ast-graph] analysing ${repo.root} as ${repo.id}, streaming into Neo4j at ${args.neo4jUri} ...`,
+  );
+  const stream = await Neo4jStream.open(
+    {
+      ...ctx,
+      clear: args.neo4jClear,
+      skipUnresolved: args.neo4jSkipUnresolved,
+    },
+    repo.id,
+  );
+  try {
+    const graph = await analyzeRepository(repo.root, {
+      ...walkOptions(args),
+      resolveCallsByName: !args.noResolveCalls,
+      repoId: repo.id,
+      jobs: args.jobs,
+      extractCache: args.extractCache,
+      onBatch: (batch) => stream.write(batch),
     });
+    const result = await stream.finish(graph);
     console.error(
-      `[ast-graph] embedded ${report.embedded}/${report.totalCandidates} nodes ` +
-        `(skipped ${report.skipped}) in ${(report.durationMs / 1000).toFixed(1)}s`,
+      `[ast-graph] indexed ${result.nodesWritten} nodes, ${result.edgesWritten} edges`,
     );
+    return graph;
+  } finally {
+    await stream.close();
   }
 }
 
+/**
+ * Before writing over a stored graph whose Repository node predates the
+ * current ID_SCHEME, move its nodes onto the ids in `graph` (migrateNodeIds)
+ * so the push updates them instead of adding duplicates.
+ */
+async function migrateStoredIds(
+  ctx: IncrementalCtx,
+  repo: RepoRef,
+  graph: CodeGraph,
+): Promise<void> {
+  const stored = await getRepositoryMeta(ctx, repo);
+  if (!stored || stored.idScheme >= ID_SCHEME) return;
+  console.error(
+    `[ast-graph] migrating stored node ids from scheme v${stored.idScheme} to v${ID_SCHEME} ...`,
+  );
+  const { remapped, deleted } = await migrateNodeIds(ctx, repo, graph.nodes);
+  console.error(
+    `[ast-graph] migrated ${remapped} node id(s), removed ${deleted} stale node(s)`,
+  );
+}
+
 async function runClusterOnly(args: CliArgs): Promise<void> {
   if (!args.neo4jUri || !args.neo4jUser || !args.neo4jPassword) {
     console.error(
@@ -680,9 +1200,23 @@ async function runClusterOnly(args: CliArgs): Promise<void> {
 }
 
 async function runSearch(args: CliArgs): Promise<void> {
+  const opts = {
+    mode: args.searchMode,
+    limit: args.searchLimit,
+    repo: args.searchRepo,
+  };
+  if (args.graph) {
+    console.error(
+      `[ast-graph] search "${args.searchQuery}" in ${args.graph} ` +
+        `(limit=${args.searchLimit ?? 20})`,
+    );
+    const store = MemoryStore.load(path.resolve(args.graph));
+    printHits(await store.search(args.searchQuery!, opts));
+    return;
+  }
   if (!args.neo4jUri || !args.neo4jUser || !args.neo4jPassword) {
     console.error(
-      "[ast-graph] --search requires Neo4j credentials (--neo4j-uri / --neo4j-user / --neo4j-password)",
+      "[ast-graph] --search requires Neo4j credentials (--neo4j-uri / --neo4j-user / --neo4j-password) or --graph <file>",
     );
     process.exit(2);
   }
@@ -696,31 +1230,34 @@ async function runSearch(args: CliArgs): Promise<void> {
         `(mode=${args.searchMode ?? "auto"}, limit=${args.searchLimit ?? 20})`,
     );
     const hits = await search(driver, args.searchQuery!, {
-      mode: args.searchMode,
-      limit: args.searchLimit,
+      ...opts,
       database: args.neo4jDatabase,
     });
-    if (hits.length === 0) {
-      console.error("[ast-graph] no hits");
-      return;
-    }
-    for (const hit of hits) {
-      const score = hit.score.toFixed(4);
-      const matched = hit.matchedBy.join("+");
-      const loc = hit.path
-        ? `${hit.path}:${(hit.startRow ?? 0) + 1}`
-        : "(no path)";
-      console.log(`[${matched} ${score}]  ${hit.kind}  ${hit.name}`);
-      console.log(`    ${loc}`);
-      if (hit.signature) {
-        console.log(`    ${hit.signature.split("\n")[0].trim()}`);
-      }
-    }
+    printHits(hits);
   } finally {
     await driver.close();
   }
 }
 
+function printHits(hits: SearchHit[]): void {
+  if (hits.length === 0) {
+    console.error("[ast-graph] no hits");
+    return;
+  }
+  for (const hit of hits) {
+    const score = hit.score.toFixed(4);
+    const matched = hit.matchedBy.join("+");
+    const loc = hit.path
+      ? `${hit.repo ? `${hit.repo} ` : ""}${hit.path}:${(hit.startRow ?? 0) + 1}`
+      : "(no path)";
+    console.log(`[${matched} ${score}]  ${hit.kind}  ${hit.name}`);
+    console.log(`    ${loc}`);
+    if (hit.signature) {
+      console.log(`    ${hit.signature.split("\n")[0].trim()}`);
+    }
+  }
+}
+
 main().catch((err: unknown) => {
   console.error("[ast-graph] error:", err instanceof Error ? err.stack : err);
   process.exit(1);
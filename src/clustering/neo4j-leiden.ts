@@ -185,21 +185,15 @@ export async function clusterInNeo4j(
     );
 
     // 8b. Heuristic label per community — most-common informative folder
-    //     segment among member file paths, scoped to the path WITHIN the
-    //     repo (otherwise the user's home folder dominates every label).
-    //     Used as a fallback when no semantic label has been set via the
-    //     `label_community` MCP tool. Always recomputed so it tracks
-    //     current files. Example: /Users/x/repo/libs/auth/login.ts →
-    //     stripped to "libs/auth/login.ts" → label "auth" (libs is
-    //     in the stop-list, ".ts" segment is filtered out).
+    //     segment among member file paths (repo-relative, so the user's
+    //     home folder never dominates a label). Used as a fallback when no
+    //     semantic label has been set via the `label_community` MCP tool.
+    //     Always recomputed so it tracks current files. Example:
+    //     libs/auth/login.ts → label "auth" (libs is in the stop-list,
+    //     ".ts" segment is filtered out).
     await run(
-      `MATCH (r:Repository) WITH r.path AS repoPath LIMIT 1
-       MATCH (c:Community)<-[:IN_COMMUNITY]-(f:File)
-       WITH c, repoPath,
-            CASE WHEN f.path STARTS WITH repoPath
-                 THEN substring(f.path, size(repoPath))
-                 ELSE f.path END AS relPath
-       WITH c, split(relPath, '/') AS segs
+      `MATCH (c:Community)<-[:IN_COMMUNITY]-(f:File)
+       WITH c, split(f.path, '/') AS segs
        UNWIND segs AS seg
        WITH c, seg
        WHERE seg <> ''
@@ -76,11 +76,12 @@ export async function computeAndStoreEmbeddings(
     const candidateQuery = `
       MATCH (n:CodeNode)
       WHERE (${labelFilter}) AND n.body IS NOT NULL ${skipClause}
-      RETURN n.id AS id, n.signature AS signature, n.body AS body
+      RETURN n.id AS id, n.doc AS doc, n.signature AS signature, n.body AS body
     `;
 
     interface Candidate {
       id: string;
+      doc?: string;
       signature?: string;
       body: string;
     }
@@ -94,6 +95,7 @@ export async function computeAndStoreEmbeddings(
         for (const r of result.records) {
           candidates.push({
             id: String(r.get("id")),
+            doc: r.get("doc") ?? undefined,
             signature: r.get("signature") ?? undefined,
             body: String(r.get("body") ?? ""),
           });
@@ -167,11 +169,13 @@ export async function computeAndStoreEmbeddings(
   }
 }
 
+/** Doc comment (what the code is for), then signature, then the capped body. */
 function buildEmbeddingText(
-  c: { signature?: string; body: string },
+  c: { doc?: string; signature?: string; body: string },
   maxBodyChars: number,
 ): string {
+  const doc = c.doc ? c.doc + "\n" : "";
   const sig = c.signature ? c.signature + "\n" : "";
   const body = c.body.length > maxBodyChars ? c.body.slice(0, maxBodyChars) : c.body;
-  return sig + body;
+  return doc + sig + body;
 }
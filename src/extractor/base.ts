@@ -1,5 +1,11 @@
 import type { SyntaxNode } from "tree-sitter";
-import type { GraphBuilder, GraphNode, SourceRange } from "../util/graph";
+import type {
+  DocComment,
+  GraphBuilder,
+  GraphEdge,
+  GraphNode,
+  SourceRange,
+} from "../util/graph";
 import type { SupportedLanguage } from "../util/language";
 
 export interface ExtractContext {
@@ -8,7 +14,12 @@ export interface ExtractContext {
   filePath: string;
   language: SupportedLanguage;
   /** Pending unresolved imports: raw module specifier → list of "files we should link to". Resolved at the end. */
-  pendingImports: { from: string; spec: string }[];
+  pendingImports: {
+    from: string;
+    spec: string;
+    /** Python `from pkg import a, b`: names that may be submodules of `spec`. */
+    names?: string[];
+  }[];
 }
 
 export interface LanguageExtractor {
@@ -32,6 +43,209 @@ export function walk(
   for (const child of node.namedChildren) walk(child, visit);
 }
 
+/** Where a call's receiver type came from: `this`/`self`, a field, a parameter or a local. */
+export type ReceiverVia = "this" | "field" | "param" | "local";
+
+/** Statically known receiver of a method call (`repo.save()` with `repo: Repo`). */
+export interface ReceiverHint {
+  type: string;
+  via: ReceiverVia;
+}
+
+/**
+ * Emit a CALLS placeholder for `symbol`. Calls with a known receiver type
+ * target `unresolved:callable:Type.symbol` instead of the bare name, so
+ * `this.save()` and `repo.save()` in one method stay distinct edges; the
+ * hint rides along in `meta.receiverType` / `meta.receiverVia` for the
+ * resolver.
+ */
+export function addCallEdge(
+  ctx: ExtractContext,
+  from: string,
+  symbol: string,
+  receiver?: ReceiverHint | null,
+): void {
+  ctx.builder.addEdge({
+    kind: "CALLS",
+    from,
+    to: receiver
+      ? `unresolved:callable:${receiver.type}.${symbol}`
+      : `unresolved:callable:${symbol}`,
+    unresolved: symbol,
+    meta: receiver
+      ? { receiverType: receiver.type, receiverVia: receiver.via }
+      : undefined,
+  });
+}
+
+/**
+ * Add an EXPORTS edge under `meta.exportedName`. Edges are one per (file,
+ * declaration), so when the declaration is already exported under another
+ * name (`export { h as GET, h as POST }`, or a renamed plus a wildcard
+ * re-export of it) the new name is appended to that edge's
+ * `meta.alsoExportedAs` instead. Returns the edge holding the name.
+ */
+export function addExportEdge(
+  builder: GraphBuilder,
+  edge: Omit<GraphEdge, "id">,
+): GraphEdge {
+  const added = builder.addEdge(edge);
+  const name = edge.meta?.exportedName;
+  if (typeof name === "string" && added.meta && !exportedNamesOf(added).includes(name)) {
+    const also = (added.meta.alsoExportedAs as string[] | undefined) ?? [];
+    added.meta.alsoExportedAs = [...also, name];
+  }
+  return added;
+}
+
+/** Every name an EXPORTS edge exports its declaration under. */
+export function exportedNamesOf(edge: GraphEdge): string[] {
+  return [
+    edge.meta?.exportedName,
+    ...((edge.meta?.alsoExportedAs as string[] | undefined) ?? []),
+  ].filter((n): n is string => typeof n === "string");
+}
+
+/** Where a type appears in a declaration: see USES_TYPE in util/graph.ts. */
+export type TypeUseRole = "param" | "return" | "field" | "generic-arg";
+
+/**
+ * Emit USES_TYPE placeholders (`unresolved:type:<Name>`) from `from` for
+ * every named type inside the type node `t` (`Foo`, `ns.Foo`, `a.b.Foo`).
+ * Type arguments (`Promise<Foo>`, `List<Foo>`) are tagged `generic-arg`
+ * instead of `role`; `typeof x` queries and the names in `typeParams` (the
+ * declaration's own `<T>`) are skipped. Every role a type is used in is
+ * accumulated in `meta.roles` on the one edge.
+ */
+export function addTypeUseEdges(
+  ctx: ExtractContext,
+  from: string,
+  t: SyntaxNode | null,
+  role: TypeUseRole,
+  typeParams: ReadonlySet<string>,
+): void {
+  if (!t) return;
+  switch (t.type) {
+    case "type_identifier":
+    case "nested_type_identifier":
+    case "scoped_type_identifier": {
+      const symbol = t.text;
+      if (typeParams.has(symbol)) return;
+      const edge = ctx.builder.addEdge({
+        kind: "USES_TYPE",
+        from,
+        to: `unresolved:type:${symbol}`,
+        unresolved: symbol,
+        meta: { roles: [role] },
+      });
+      const roles = edge.meta?.roles as TypeUseRole[] | undefined;
+      if (roles && !roles.includes(role)) roles.push(role);
+      return;
+    }
+    case "generic_type": {
+      // TS names the base type `name`; Java's is the first child.
+      addTypeUseEdges(
+        ctx,
+        from,
+        t.childForFieldName("name") ?? t.namedChildren[0] ?? null,
+        role,
+        typeParams,
+      );
+      for (const c of t.namedChildren) {
+        if (c.type !== "type_arguments") continue;
+        for (const arg of c.namedChildren) {
+          addTypeUseEdges(ctx, from, arg, "generic-arg", typeParams);
+        }
+      }
+      return;
+    }
+    case "type_query":
+      return;
+  }
+  for (const c of t.namedChildren) {
+    addTypeUseEdges(ctx, from, c, role, typeParams);
+  }
+}
+
+/** Names declared in a declaration's `<T, U extends X>` list. */
+export function typeParameterNames(decl: SyntaxNode | null): Set<string> {
+  const names = new Set<string>();
+  const list = decl?.namedChildren.find((c) => c.type === "type_parameters");
+  for (const p of list?.namedChildren ?? []) {
+    const name =
+      p.childForFieldName("name") ??
+      p.namedChildren.find((c) => c.type === "type_identifier");
+    if (name) names.add(name.text);
+  }
+  return names;
+}
+
+/** A router-call argument naming middleware, a handler or a sub-router. */
+export interface RouteArgRef {
+  /** Node id of an inline function argument (extracted as a handler Function). */
+  id?: string;
+  /** Identifier, or member property (`ctrl.create` → "create"). */
+  name?: string;
+  /** Object of a member reference (`ctrl`, `this`). */
+  object?: string;
+  /** Import binding of `name` (or of `object` for member refs). */
+  importSpec?: string;
+  /** Imported name: an export name, "default" or "*" (namespace). */
+  importedName?: string;
+  /** Called in place: a middleware factory like `validate(schema)`, `cors()`. */
+  factory?: boolean;
+}
+
+/**
+ * `<router>.<verb>([path,] ...args)` as written, in source order. Mount
+ * prefixes and middleware order span files, so the extractor only records
+ * these (`meta.routerCalls` on the File node) and the analyser composes them
+ * into Route nodes.
+ */
+export interface RouterCall {
+  router: RouteArgRef;
+  /** GET / POST / … / ALL, or USE for middleware and mounts. */
+  verb: string;
+  path?: string;
+  /** Non-path arguments in order: middleware…, then the handler or sub-router. */
+  args: RouteArgRef[];
+  range: SourceRange;
+}
+
+/** `/api/users` + `{id}` → `/api/users/{id}`; both empty → `/`. */
+export function joinRoute(prefix: string, path: string): string {
+  const parts = [prefix, path]
+    .map((p) => p.replace(/^\/+|\/+$/g, ""))
+    .filter(Boolean);
+  return "/" + parts.join("/");
+}
+
+/**
+ * Id for a declaration node: `base` is its qualified name within the file
+ * (`file:…#fn:load`, `…#class:Svc.method:run`) with no line or column in it,
+ * so edits above a declaration don't renumber it. Later same-named
+ * declarations in one scope (overloads, redefinitions, same-named inner
+ * functions) get an ordinal suffix `~2`, `~3`, … in source order. Asking
+ * again for a node already registered at `at`'s position returns its id.
+ */
+export function stableId(
+  ctx: ExtractContext,
+  base: string,
+  at: SyntaxNode,
+): string {
+  for (let n = 1; ; n++) {
+    const id = n === 1 ? base : `${base}~${n}`;
+    const existing = ctx.builder.getNode(id)?.range?.start;
+    if (
+      !existing ||
+      (existing.row === at.startPosition.row &&
+        existing.column === at.startPosition.column)
+    ) {
+      return id;
+    }
+  }
+}
+
 /** Get text of a child field if it exists. */
 export function fieldText(n: SyntaxNode, name: string): string | undefined {
   return n.childForFieldName(name)?.text;
@@ -63,6 +277,89 @@ export function bodyFields(
   return { body, bodyTruncated: true };
 }
 
+/** Wrappers whose leading comment documents the declaration inside them. */
+const DOC_WRAPPERS = new Set([
+  "export_statement",
+  "lexical_declaration",
+  "variable_declaration",
+]);
+
+/**
+ * Spreadable `doc` for the `/** … *\/` comment directly above `decl`, its
+ * `export` / `const` wrapper, or its decorators. Returns `{}` when there is
+ * none (plain `//` comments and blank-line-separated blocks don't count).
+ */
+export function docFields(decl: SyntaxNode): { doc?: DocComment } {
+  let node = decl;
+  while (node.parent && DOC_WRAPPERS.has(node.parent.type)) node = node.parent;
+  let top = node.startPosition.row;
+  let prev = node.previousNamedSibling;
+  while (prev?.type === "decorator") {
+    top = prev.startPosition.row;
+    prev = prev.previousNamedSibling;
+  }
+  if (
+    !prev ||
+    (prev.type !== "comment" && prev.type !== "block_comment") ||
+    !prev.text.startsWith("/**") ||
+    prev.endPosition.row < top - 1
+  ) {
+    return {};
+  }
+  return { doc: parseDocComment(prev.text) };
+}
+
+/**
+ * Split a doc comment into description and block tags. `@param {T} name -
+ * text` (JSDoc, optional braces/dash/`[name=default]`) and `@param name text`
+ * (Javadoc) both yield `{ name, description }`; `@return` is an alias of
+ * `@returns`. Inline tags (`{@link X}`) are left as-is.
+ */
+export function parseDocComment(raw: string): DocComment {
+  const lines = raw
+    .replace(/^\/\*\*+/, "")
+    .replace(/\*+\/$/, "")
+    .split("\n")
+    .map((l) => l.replace(/^\s*\*? ?/, "").trimEnd());
+  while (lines.length > 0 && !lines[0].trim()) lines.shift();
+  while (lines.length > 0 && !lines[lines.length - 1].trim()) lines.pop();
+
+  const description: string[] = [];
+  const tags: { tag: string; text: string }[] = [];
+  for (const line of lines) {
+    const m = /^\s*@(\w+)\s*(.*)$/.exec(line);
+    if (m) tags.push({ tag: m[1], text: m[2] });
+    else if (tags.length > 0) tags[tags.length - 1].text += "\n" + line;
+    else description.push(line);
+  }
+
+  const doc: DocComment = { text: lines.join("\n") };
+  const summary = description
+    .join("\n")
+    .trim()
+    .split(/\n\s*\n/)[0]
+    .replace(/\s+/g, " ");
+  if (summary) doc.summary = summary;
+  for (const { tag, text } of tags) {
+    const body = text.trim().replace(/\s+/g, " ");
+    switch (tag) {
+      case "param": {
+        const m = /^(?:\{[^}]*\}\s*)?\[?([\w$.]+)[^\s\]]*\]?\s*(?:-\s*)?(.*)$/.exec(body);
+        if (m) (doc.params ??= []).push({ name: m[1], description: m[2] });
+        break;
+      }
+      case "returns":
+      case "return":
+        doc.returns = body.replace(/^\{[^}]*\}\s*/, "");
+        break;
+      case "deprecated":
+        doc.deprecated = body;
+        break;
+    }
+  }
+  return doc;
+}
+
 /**
  * AST-based test-file detection for JS/TS/TSX. Walks the root looking for:
  *   - call_expression with callee `describe` / `it` / `test` / `xdescribe` /
@@ -156,6 +453,82 @@ export function detectJavaTestFile(root: SyntaxNode): string | null {
   return null;
 }
 
+/**
+ * AST-based test detection for Python files. Recognises:
+ *   - `import pytest` / `from pytest import ...` → pytest
+ *   - a class deriving from `TestCase` / `unittest.TestCase` → unittest.
+ *     Importing `unittest` alone isn't a signal: production code pulls in
+ *     `unittest.mock` too.
+ *   - module-level `def test_*()` functions (pytest's collection rule) → pytest
+ *
+ * The pytest import and TestCase classes win over the bare `test_*`
+ * heuristic, same as the JS detector.
+ */
+export function detectPythonTestFile(root: SyntaxNode): string | null {
+  let hasTestFn = false;
+  const stack: SyntaxNode[] = [root];
+  let nodesVisited = 0;
+  const HARD_LIMIT = 5000;
+
+  while (stack.length) {
+    if (nodesVisited++ > HARD_LIMIT) break;
+    const n = stack.pop()!;
+
+    if (n.type === "import_statement" || n.type === "import_from_statement") {
+      // `import os, pytest as pt` lists several modules, some aliased.
+      const mods =
+        n.type === "import_from_statement"
+          ? [n.childForFieldName("module_name")]
+          : n.childrenForFieldName("name").map((m) =>
+              m.type === "aliased_import" ? m.childForFieldName("name") : m,
+            );
+      for (const mod of mods) {
+        const top = mod?.text.split(".")[0];
+        if (top === "pytest") return "pytest";
+      }
+    }
+
+    if (n.type === "class_definition") {
+      const supers = n.childForFieldName("superclasses");
+      if (supers?.namedChildren.some((s) => /(^|\.)TestCase$/.test(s.text))) {
+        return "unittest";
+      }
+    }
+
+    if (!hasTestFn && n.type === "function_definition" && isModuleLevel(n)) {
+      const name = n.childForFieldName("name")?.text;
+      if (name?.startsWith("test_")) hasTestFn = true;
+    }
+
+    for (const c of n.namedChildren) stack.push(c);
+  }
+
+  return hasTestFn ? "pytest" : null;
+}
+
+/** A Python definition directly in the module, decorated or not. */
+function isModuleLevel(def: SyntaxNode): boolean {
+  const parent =
+    def.parent?.type === "decorated_definition" ? def.parent.parent : def.parent;
+  return parent?.type === "module";
+}
+
+/**
+ * AST-based test detection for Go files: an `import "testing"` spec. Only
+ * import declarations are checked — they must precede all other top-level
+ * declarations in Go, so there's no need to walk further.
+ */
+export function detectGoTestFile(root: SyntaxNode): string | null {
+  for (const decl of root.namedChildren) {
+    if (decl.type !== "import_declaration") continue;
+    for (const spec of decl.descendantsOfType("import_spec")) {
+      const p = spec.childForFieldName("path")?.text;
+      if (p === '"testing"') return "gotest";
+    }
+  }
+  return null;
+}
+
 /**
  * Path-based test detection — fallback for files we couldn't parse, or as a
  * defensive secondary signal. Covers conventions across JS/TS/Java/Go/Python.
@@ -0,0 +1,307 @@
+import type { SyntaxNode } from "tree-sitter";
+import {
+  ExtractContext,
+  LanguageExtractor,
+  rangeOf,
+  fieldText,
+  stableId,
+  bodyFields,
+  signatureOf,
+  detectGoTestFile,
+  isTestPath,
+  addCallEdge,
+  ReceiverHint,
+} from "./base";
+import type { GraphNode } from "../util/graph";
+
+/**
+ * Extractor for tree-sitter-go.
+ * Handles functions, methods (with receivers), structs, interfaces, named
+ * types, struct fields, package imports, embedding (EXTENDS) and calls.
+ *
+ * Go has no class syntax: structs become `Class` nodes (`meta.goKind:
+ * "struct"`), and methods are declared at package level against a receiver
+ * type that may live in a sibling file of the same package. Methods are
+ * therefore DEFINES'd by their own file and carry `meta.receiver`; the
+ * analyser binds them to the struct with HAS_METHOD once every file in the
+ * package has been extracted.
+ *
+ * No EXPORTS edges are emitted — visibility in Go is lexical (capitalised
+ * identifiers), which the analyser's IMPORTS→EXPORTS index applies directly.
+ */
+export class GoExtractor implements LanguageExtractor {
+  extract(root: SyntaxNode, ctx: ExtractContext): void {
+    const framework =
+      detectGoTestFile(root) ?? (isTestPath(ctx.filePath) ? "unknown" : null);
+    if (framework) {
+      ctx.fileNode.isTest = true;
+      ctx.fileNode.testFramework = framework;
+    }
+
+    const pkg = root.namedChildren
+      .find((c) => c.type === "package_clause")
+      ?.namedChildren[0]?.text;
+    if (pkg) ctx.fileNode.meta = { ...ctx.fileNode.meta, goPackage: pkg };
+
+    for (const child of root.namedChildren) {
+      this.visit(child, ctx);
+    }
+  }
+
+  private visit(node: SyntaxNode, ctx: ExtractContext): void {
+    switch (node.type) {
+      case "import_declaration": {
+        // `import "fmt"` or `import ( h "example.com/x/http" ... )`. The
+        // alias doesn't matter for file-level deps — calls are resolved by
+        // the selector's field name.
+        for (const spec of node.descendantsOfType("import_spec")) {
+          const p = spec.childForFieldName("path");
+          const content = p?.namedChildren[0]?.text ?? "";
+          if (content) {
+            ctx.pendingImports.push({ from: ctx.fileNode.id, spec: content });
+          }
+        }
+        return;
+      }
+
+      case "type_declaration": {
+        for (const spec of node.namedChildren) {
+          if (spec.type === "type_spec" || spec.type === "type_alias") {
+            this.handleTypeSpec(spec, node, ctx);
+          }
+        }
+        return;
+      }
+
+      case "function_declaration": {
+        const name = fieldText(node, "name") ?? "<anonymous>";
+        const id = stableId(ctx, `${ctx.fileNode.id}#fn:${name}`, node);
+        const fn = ctx.builder.addNode({
+          id,
+          kind: "Function",
+          name,
+          path: ctx.filePath,
+          language: ctx.language,
+          range: rangeOf(node),
+          signature: signatureOf(node),
+          ...bodyFields(node),
+        });
+        ctx.builder.addEdge({
+          kind: "DEFINES",
+          from: ctx.fileNode.id,
+          to: fn.id,
+        });
+        this.collectCalls(node, fn, ctx);
+        return;
+      }
+
+      case "method_declaration": {
+        const name = fieldText(node, "name") ?? "<anonymous>";
+        const receiver = receiverTypeName(node);
+        const qualified = receiver ? `${receiver}.${name}` : name;
+        const id = stableId(ctx, `${ctx.fileNode.id}#method:${qualified}`, node);
+        const m = ctx.builder.addNode({
+          id,
+          kind: "Method",
+          name,
+          path: ctx.filePath,
+          language: ctx.language,
+          range: rangeOf(node),
+          signature: signatureOf(node),
+          ...bodyFields(node),
+          meta: receiver ? { receiver } : undefined,
+        });
+        ctx.builder.addEdge({
+          kind: "DEFINES",
+          from: ctx.fileNode.id,
+          to: m.id,
+        });
+        this.collectCalls(node, m, ctx);
+        return;
+      }
+    }
+  }
+
+  private handleTypeSpec(
+    spec: SyntaxNode,
+    decl: SyntaxNode,
+    ctx: ExtractContext,
+  ): void {
+    const name = fieldText(spec, "name") ?? "<anonymous>";
+    const type = spec.childForFieldName("type");
+    // Single-spec declarations keep the `type` keyword in range/body;
+    // grouped `type ( ... )` blocks use the spec itself.
+    const outer = decl.namedChildren.length === 1 ? decl : spec;
+
+    if (spec.type === "type_spec" && type?.type === "struct_type") {
+      const cls = this.addType(name, "Class", "class", outer, ctx, "struct");
+      for (const field of type.descendantsOfType("field_declaration")) {
+        const names = field.childrenForFieldName("name");
+        if (names.length === 0) {
+          // Embedded field (`Base`, `*Base`, `pkg.Base`) — Go's composition
+          // is the closest thing it has to inheritance.
+          const symbol = embeddedTypeName(field.childForFieldName("type"));
+          if (symbol) {
+            ctx.builder.addEdge({
+              kind: "EXTENDS",
+              from: cls.id,
+              to: `unresolved:class:${symbol}`,
+              unresolved: symbol,
+            });
+          }
+          continue;
+        }
+        for (const n of names) {
+          const p = ctx.builder.addNode({
+            id: `${cls.id}.prop:${n.text}`,
+            kind: "Property",
+            name: n.text,
+            path: ctx.filePath,
+            language: ctx.language,
+            range: rangeOf(field),
+            signature: signatureOf(field),
+            ...bodyFields(field),
+          });
+          ctx.builder.addEdge({ kind: "HAS_PROPERTY", from: cls.id, to: p.id });
+        }
+      }
+      return;
+    }
+
+    if (spec.type === "type_spec" && type?.type === "interface_type") {
+      const iface = this.addType(name, "Interface", "interface", outer, ctx);
+      for (const el of type.namedChildren) {
+        if (el.type === "method_elem") {
+          const mName = fieldText(el, "name") ?? "<anonymous>";
+          const m = ctx.builder.addNode({
+            id: stableId(ctx, `${iface.id}.method:${mName}`, el),
+            kind: "Method",
+            name: mName,
+            path: ctx.filePath,
+            language: ctx.language,
+            range: rangeOf(el),
+            signature: signatureOf(el),
+            ...bodyFields(el),
+          });
+          ctx.builder.addEdge({ kind: "HAS_METHOD", from: iface.id, to: m.id });
+        } else if (el.type === "type_elem") {
+          // Embedded interface (`io.Reader`).
+          const symbol = embeddedTypeName(el.namedChildren[0] ?? null);
+          if (symbol) {
+            ctx.builder.addEdge({
+              kind: "EXTENDS",
+              from: iface.id,
+              to: `unresolved:class:${symbol}`,
+              unresolved: symbol,
+            });
+          }
+        }
+      }
+      return;
+    }
+
+    // `type ID int`, `type Handler func(...)`, `type Alias = string`.
+    this.addType(name, "TypeAlias", "type", outer, ctx);
+  }
+
+  private addType(
+    name: string,
+    kind: "Class" | "Interface" | "TypeAlias",
+    idTag: string,
+    node: SyntaxNode,
+    ctx: ExtractContext,
+    goKind?: string,
+  ): GraphNode {
+    const t = ctx.builder.addNode({
+      id: `${ctx.fileNode.id}#${idTag}:${name}`,
+      kind,
+      name,
+      path: ctx.filePath,
+      language: ctx.language,
+      range: rangeOf(node),
+      signature: signatureOf(node),
+      ...bodyFields(node),
+      meta: goKind ? { goKind } : undefined,
+    });
+    ctx.builder.addEdge({
+      kind: "DEFINES",
+      from: ctx.fileNode.id,
+      to: t.id,
+    });
+    return t;
+  }
+
+  private collectCalls(
+    node: SyntaxNode,
+    enclosing: GraphNode,
+    ctx: ExtractContext,
+  ): void {
+    // `s.save()` on the method receiver or a typed parameter.
+    const typed = new Map<string, ReceiverHint>();
+    const declare = (list: SyntaxNode | null, via: "this" | "param"): void => {
+      for (const p of list?.namedChildren ?? []) {
+        if (p.type !== "parameter_declaration") continue;
+        const type = goTypeName(p.childForFieldName("type"));
+        if (!type) continue;
+        for (const c of p.namedChildren) {
+          if (c.type === "identifier") typed.set(c.text, { type, via });
+        }
+      }
+    };
+    declare(node.childForFieldName("parameters"), "param");
+    declare(node.childForFieldName("receiver"), "this");
+
+    // Function literals stay attributed to the enclosing declaration — Go
+    // closures don't get their own nodes.
+    for (const call of node.descendantsOfType("call_expression")) {
+      const fn = call.childForFieldName("function");
+      let symbol: string | undefined;
+      let receiver: ReceiverHint | null = null;
+      if (fn?.type === "identifier") symbol = fn.text;
+      else if (fn?.type === "selector_expression") {
+        symbol = fieldText(fn, "field");
+        const operand = fn.childForFieldName("operand");
+        if (operand?.type === "identifier") {
+          receiver = typed.get(operand.text) ?? null;
+        }
+      }
+      if (!symbol) continue;
+      addCallEdge(ctx, enclosing.id, symbol, receiver);
+    }
+  }
+}
+
+/** `func (s *Server[T]) X()` → "Server". Null for malformed receivers. */
+function receiverTypeName(method: SyntaxNode): string | null {
+  const recv = method.childForFieldName("receiver");
+  const param = recv?.namedChildren.find(
+    (c) => c.type === "parameter_declaration",
+  );
+  return goTypeName(param?.childForFieldName("type") ?? null);
+}
+
+/** `*Server[T]` → "Server", `*pkg.Client` → "Client". Null for other types. */
+function goTypeName(t: SyntaxNode | null): string | null {
+  while (t && (t.type === "pointer_type" || t.type === "generic_type")) {
+    t =
+      t.type === "generic_type"
+        ? t.childForFieldName("type")
+        : (t.namedChildren[0] ?? null);
+  }
+  if (t?.type === "qualified_type") t = t.childForFieldName("name");
+  return t?.type === "type_identifier" ? t.text : null;
+}
+
+/** Type name of an embedded field/interface: `*pkg.Base[T]` → "pkg.Base". */
+function embeddedTypeName(t: SyntaxNode | null): string | null {
+  while (t && (t.type === "pointer_type" || t.type === "generic_type")) {
+    t =
+      t.type === "generic_type"
+        ? t.childForFieldName("type")
+        : (t.namedChildren[0] ?? null);
+  }
+  if (!t) return null;
+  return t.type === "type_identifier" || t.type === "qualified_type"
+    ? t.text
+    : null;
+}
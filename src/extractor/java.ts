@@ -4,17 +4,27 @@ import {
   LanguageExtractor,
   rangeOf,
   fieldText,
+  stableId,
   bodyFields,
+  docFields,
   signatureOf,
   detectJavaTestFile,
   isTestPath,
+  addCallEdge,
+  addTypeUseEdges,
+  typeParameterNames,
+  ReceiverHint,
+  joinRoute,
 } from "./base";
 import type { GraphNode } from "../util/graph";
 
 /**
  * Extractor for tree-sitter-java.
  * Handles classes, interfaces, methods, fields, imports, extends/implements
- * and method invocations (CALLS).
+ * and method invocations (CALLS). Annotations are kept as `meta.annotations`
+ * (simple names); Spring MVC mappings (`@RequestMapping` on the class plus
+ * `@GetMapping`/`@PostMapping`/… on the method) become `httpMethod`/`route`
+ * on the Method, like Express handler Functions in the JS extractor.
  */
 export class JavaExtractor implements LanguageExtractor {
   extract(root: SyntaxNode, ctx: ExtractContext): void {
@@ -50,8 +60,9 @@ export class JavaExtractor implements LanguageExtractor {
         this.handleHeritage(node, cls, ctx);
         const body = node.childForFieldName("body");
         if (body) {
+          const scope = classScopeOf(cls.name, body, node);
           for (const member of body.namedChildren) {
-            this.handleClassMember(member, cls, ctx);
+            this.handleClassMember(member, cls, ctx, scope);
           }
         }
         return;
@@ -67,8 +78,9 @@ export class JavaExtractor implements LanguageExtractor {
         // Interface bodies contain method signatures; treat as methods.
         const body = node.childForFieldName("body");
         if (body) {
+          const scope = classScopeOf(iface.name, body, node);
           for (const member of body.namedChildren) {
-            this.handleClassMember(member, iface, ctx);
+            this.handleClassMember(member, iface, ctx, scope);
           }
         }
         return;
@@ -96,6 +108,8 @@ export class JavaExtractor implements LanguageExtractor {
       range: rangeOf(node),
       signature: signatureOf(node),
       ...bodyFields(node),
+      ...docFields(node),
+      ...annotationMeta(node),
     });
   }
 
@@ -138,11 +152,23 @@ export class JavaExtractor implements LanguageExtractor {
     member: SyntaxNode,
     cls: GraphNode,
     ctx: ExtractContext,
+    scope: ClassScope,
   ): void {
     switch (member.type) {
       case "method_declaration": {
         const name = fieldText(member, "name") ?? "<anonymous>";
-        const id = `${cls.id}.method:${name}@${member.startPosition.row}`;
+        const id = stableId(ctx, `${cls.id}.method:${name}`, member);
+        const mapping =
+          scope.routePrefixes !== null ? springMapping(member) : null;
+        // Every class path × method path × verb is its own route.
+        const routes: { method: string; route: string }[] = [];
+        for (const prefix of mapping ? scope.routePrefixes! : []) {
+          for (const p of mapping!.paths.length > 0 ? mapping!.paths : [""]) {
+            for (const method of mapping!.methods) {
+              routes.push({ method, route: joinRoute(prefix, p) });
+            }
+          }
+        }
         const m = ctx.builder.addNode({
           id,
           kind: "Method",
@@ -152,9 +178,24 @@ export class JavaExtractor implements LanguageExtractor {
           range: rangeOf(member),
           signature: signatureOf(member),
           ...bodyFields(member),
+          ...docFields(member),
+          ...(routes.length > 0
+            ? {
+                httpMethod: routes[0].method,
+                route: routes[0].route,
+                routerObject: cls.name,
+              }
+            : {}),
+          ...annotationMeta(
+            member,
+            routes.length > 1
+              ? { routes: routes.map((r) => `${r.method} ${r.route}`) }
+              : undefined,
+          ),
         });
         ctx.builder.addEdge({ kind: "HAS_METHOD", from: cls.id, to: m.id });
-        this.collectCalls(member, m, ctx);
+        this.collectCalls(member, m, ctx, scope);
+        emitSignatureTypeUses(member, m, ctx, scope);
         return;
       }
       case "field_declaration": {
@@ -173,11 +214,24 @@ export class JavaExtractor implements LanguageExtractor {
             range: rangeOf(member),
             signature: signatureOf(member),
             ...bodyFields(member),
+            ...annotationMeta(member),
           });
           ctx.builder.addEdge({ kind: "HAS_PROPERTY", from: cls.id, to: p.id });
         }
+        addTypeUseEdges(
+          ctx,
+          cls.id,
+          member.childForFieldName("type"),
+          "field",
+          scope.typeParams,
+        );
         return;
       }
+      // Constructors aren't nodes of their own; their parameter types are
+      // attributed to the class (typically its injected dependencies).
+      case "constructor_declaration":
+        emitSignatureTypeUses(member, cls, ctx, scope);
+        return;
       // Inner classes/interfaces – recurse so they get DEFINED on the file.
       case "class_declaration":
       case "interface_declaration":
@@ -190,29 +244,250 @@ export class JavaExtractor implements LanguageExtractor {
     node: SyntaxNode,
     enclosing: GraphNode,
     ctx: ExtractContext,
+    scope: ClassScope,
   ): void {
+    // Parameter and local types; locals shadow same-named fields.
+    const locals = new Map<string, ReceiverHint>();
+    for (const p of node.childForFieldName("parameters")?.namedChildren ?? []) {
+      const name = fieldText(p, "name");
+      const type = javaTypeName(p.childForFieldName("type"));
+      if (name && type) locals.set(name, { type, via: "param" });
+    }
+    for (const decl of node.descendantsOfType([
+      "local_variable_declaration",
+      "enhanced_for_statement",
+    ])) {
+      const declared = javaTypeName(decl.childForFieldName("type"));
+      if (decl.type === "enhanced_for_statement") {
+        const name = fieldText(decl, "name");
+        if (name && declared) locals.set(name, { type: declared, via: "local" });
+        continue;
+      }
+      for (const d of decl.descendantsOfType("variable_declarator")) {
+        const name = fieldText(d, "name");
+        // `var x = new Foo()` — the declared type is the literal `var`.
+        const type =
+          declared ??
+          javaTypeName(d.childForFieldName("value")?.childForFieldName("type") ?? null);
+        if (name && type) locals.set(name, { type, via: "local" });
+      }
+    }
+
     for (const call of node.descendantsOfType("method_invocation")) {
       const nameNode = call.childForFieldName("name");
       const symbol = nameNode?.text;
       if (!symbol) continue;
-      ctx.builder.addEdge({
-        kind: "CALLS",
-        from: enclosing.id,
-        to: `unresolved:callable:${symbol}`,
-        unresolved: symbol,
-      });
+      addCallEdge(
+        ctx,
+        enclosing.id,
+        symbol,
+        receiverOf(call.childForFieldName("object"), locals, scope),
+      );
     }
     // Constructor calls: `new Foo()`
     for (const call of node.descendantsOfType("object_creation_expression")) {
       const t = call.childForFieldName("type");
       const symbol = t?.text;
       if (!symbol) continue;
-      ctx.builder.addEdge({
-        kind: "CALLS",
-        from: enclosing.id,
-        to: `unresolved:callable:${symbol}`,
-        unresolved: symbol,
-      });
+      addCallEdge(ctx, enclosing.id, symbol);
+    }
+  }
+}
+
+/**
+ * What members need from their class: its name and field types (receiver
+ * inference), and the class-level `@RequestMapping` prefix — "" when there
+ * is none, null for `@FeignClient` interfaces, whose mappings describe
+ * outbound calls rather than endpoints.
+ */
+interface ClassScope {
+  name: string;
+  fields: Map<string, string>;
+  /** Class-level `@RequestMapping` paths ([""] without one); null for Feign clients. */
+  routePrefixes: string[] | null;
+  /** The class's own `<T>` names, never emitted as USES_TYPE targets. */
+  typeParams: Set<string>;
+}
+
+function classScopeOf(
+  name: string,
+  body: SyntaxNode,
+  decl: SyntaxNode,
+): ClassScope {
+  const fields = new Map<string, string>();
+  for (const member of body.namedChildren) {
+    if (member.type !== "field_declaration") continue;
+    const type = javaTypeName(member.childForFieldName("type"));
+    if (!type) continue;
+    for (const d of member.descendantsOfType("variable_declarator")) {
+      const field = fieldText(d, "name");
+      if (field) fields.set(field, type);
+    }
+  }
+  const annotations = annotationsOf(decl);
+  let routePrefixes: string[] | null = null;
+  if (!annotations.some((a) => annotationName(a) === "FeignClient")) {
+    const paths = springPaths(
+      annotations.find((a) => annotationName(a) === "RequestMapping") ?? null,
+    );
+    routePrefixes = paths.length > 0 ? paths : [""];
+  }
+  return { name, fields, routePrefixes, typeParams: typeParameterNames(decl) };
+}
+
+/**
+ * USES_TYPE edges for a method or constructor: `param` for each formal
+ * parameter (varargs included), `return` for the declared result type. The
+ * method's and the class's type parameters are skipped.
+ */
+function emitSignatureTypeUses(
+  member: SyntaxNode,
+  owner: GraphNode,
+  ctx: ExtractContext,
+  scope: ClassScope,
+): void {
+  const typeParams = new Set([...scope.typeParams, ...typeParameterNames(member)]);
+  for (const p of member.childForFieldName("parameters")?.namedChildren ?? []) {
+    // `spread_parameter` (varargs) has no `type` field.
+    const type =
+      p.childForFieldName("type") ??
+      p.namedChildren.find(
+        (c) => c.type !== "modifiers" && c.type !== "variable_declarator",
+      ) ??
+      null;
+    addTypeUseEdges(ctx, owner.id, type, "param", typeParams);
+  }
+  addTypeUseEdges(
+    ctx,
+    owner.id,
+    member.childForFieldName("type"),
+    "return",
+    typeParams,
+  );
+}
+
+/** `this` / `this.field` / a param, local or field name → the receiver's type. */
+function receiverOf(
+  obj: SyntaxNode | null,
+  locals: Map<string, ReceiverHint>,
+  scope: ClassScope,
+): ReceiverHint | null {
+  if (!obj) return null;
+  if (obj.type === "this") return { type: scope.name, via: "this" };
+  if (
+    obj.type === "field_access" &&
+    obj.childForFieldName("object")?.type === "this"
+  ) {
+    const field = fieldText(obj, "field");
+    const type = field ? scope.fields.get(field) : undefined;
+    return type ? { type, via: "field" } : null;
+  }
+  if (obj.type === "identifier") {
+    const local = locals.get(obj.text);
+    if (local) return local;
+    const type = scope.fields.get(obj.text);
+    return type ? { type, via: "field" } : null;
+  }
+  return null;
+}
+
+/** `Foo`, `List<Foo>` → "List", `a.b.Foo` → "Foo". Null for primitives and `var`. */
+function javaTypeName(t: SyntaxNode | null): string | null {
+  switch (t?.type) {
+    case "type_identifier":
+      return t.text === "var" ? null : t.text;
+    case "generic_type":
+      return javaTypeName(t.namedChildren[0] ?? null);
+    case "scoped_type_identifier":
+      return javaTypeName(t.namedChildren[t.namedChildren.length - 1] ?? null);
+    default:
+      return null;
+  }
+}
+
+/** `@Foo` / `@Foo(...)` nodes in a declaration's modifiers. */
+function annotationsOf(decl: SyntaxNode): SyntaxNode[] {
+  const modifiers = decl.namedChildren.find((c) => c.type === "modifiers");
+  return (modifiers?.namedChildren ?? []).filter(
+    (c) => c.type === "marker_annotation" || c.type === "annotation",
+  );
+}
+
+/** `@org.springframework.Foo(...)` → "Foo". */
+function annotationName(a: SyntaxNode): string {
+  const name = fieldText(a, "name") ?? "";
+  return name.slice(name.lastIndexOf(".") + 1);
+}
+
+/** Spread into a node: `meta.annotations` when the declaration has any. */
+function annotationMeta(
+  decl: SyntaxNode,
+  extra?: Record<string, unknown>,
+): { meta?: Record<string, unknown> } {
+  const annotations = annotationsOf(decl).map(annotationName);
+  if (annotations.length === 0 && !extra) return {};
+  return {
+    meta: { ...(annotations.length ? { annotations } : {}), ...extra },
+  };
+}
+
+/** Annotation argument by key; the positional argument counts as `value`. */
+function annotationArg(a: SyntaxNode, key: string): SyntaxNode | null {
+  const args = a.childForFieldName("arguments");
+  for (const c of args?.namedChildren ?? []) {
+    if (c.type === "element_value_pair") {
+      if (fieldText(c, "key") === key) return c.childForFieldName("value");
+    } else if (key === "value") {
+      return c;
+    }
+  }
+  return null;
+}
+
+/** String literal(s) of a mapping's `value` / `path`: `"/x"` or `{"/a", "/b"}`. */
+function springPaths(a: SyntaxNode | null): string[] {
+  if (!a) return [];
+  const v = annotationArg(a, "value") ?? annotationArg(a, "path");
+  if (!v) return [];
+  const literals =
+    v.type === "element_value_array_initializer" ? v.namedChildren : [v];
+  return literals
+    .filter((l) => l.type === "string_literal")
+    .map((l) => l.text.slice(1, -1));
+}
+
+const SPRING_VERB_MAPPINGS: Record<string, string> = {
+  GetMapping: "GET",
+  PostMapping: "POST",
+  PutMapping: "PUT",
+  DeleteMapping: "DELETE",
+  PatchMapping: "PATCH",
+};
+
+/**
+ * The method-level Spring mapping, if any. `@RequestMapping` without a
+ * `method` handles every verb ("ALL", as Express's `router.all`).
+ */
+function springMapping(
+  method: SyntaxNode,
+): { methods: string[]; paths: string[] } | null {
+  for (const a of annotationsOf(method)) {
+    const name = annotationName(a);
+    const verb = SPRING_VERB_MAPPINGS[name];
+    if (verb) return { methods: [verb], paths: springPaths(a) };
+    if (name === "RequestMapping") {
+      const m = annotationArg(a, "method");
+      // `RequestMethod.POST` or `{RequestMethod.GET, RequestMethod.HEAD}`.
+      const values =
+        m?.type === "element_value_array_initializer" ? m.namedChildren : m ? [m] : [];
+      const methods = values
+        .map((v) => v.text.split(".").pop()?.toUpperCase())
+        .filter((v): v is string => !!v);
+      return {
+        methods: methods.length > 0 ? [...new Set(methods)] : ["ALL"],
+        paths: springPaths(a),
+      };
     }
   }
+  return null;
 }
@@ -4,10 +4,20 @@ import {
   LanguageExtractor,
   rangeOf,
   fieldText,
+  stableId,
   bodyFields,
+  docFields,
   signatureOf,
   detectJsTestFile,
   isTestPath,
+  addCallEdge,
+  addExportEdge,
+  addTypeUseEdges,
+  typeParameterNames,
+  ReceiverHint,
+  joinRoute,
+  RouteArgRef,
+  RouterCall,
 } from "./base";
 import type { GraphNode } from "../util/graph";
 
@@ -15,9 +25,14 @@ import type { GraphNode } from "../util/graph";
  * Extractor for tree-sitter-javascript and tree-sitter-typescript trees.
  * They share the vast majority of node types; TS-only nodes (interface_declaration,
  * implements_clause, abstract_class_declaration, public_field_definition) are handled
- * additionally and simply ignored if absent.
+ * additionally and simply ignored if absent. CommonJS modules are covered too:
+ * static `require()` calls are imports and `module.exports` / `exports.x`
+ * assignments are exports.
  */
 export class JsTsExtractor implements LanguageExtractor {
+  /** Express-style router calls, attached to the File node after the walk. */
+  private routerCalls: RouterCall[] = [];
+
   extract(root: SyntaxNode, ctx: ExtractContext): void {
     // AST-based test detection. Mutates the file node in place — GraphBuilder
     // stores nodes by reference, so this is reflected in the materialized graph.
@@ -29,6 +44,17 @@ export class JsTsExtractor implements LanguageExtractor {
     }
 
     this.visit(root, ctx, /*enclosing*/ null);
+    // After the walk: `module.exports = { a }` usually precedes the hoisted
+    // `function a()` it names.
+    emitCommonJsReferenceExports(root, ctx);
+
+    if (this.routerCalls.length > 0) {
+      bindRouteImports(this.routerCalls, importBindingsOf(root));
+      ctx.fileNode.meta = {
+        ...ctx.fileNode.meta,
+        routerCalls: this.routerCalls,
+      };
+    }
   }
 
   private visit(
@@ -47,17 +73,17 @@ export class JsTsExtractor implements LanguageExtractor {
       }
 
       case "export_statement": {
-        // Re-export with source: `export { foo } from './bar'` or `export * from './bar'`.
-        // We emit an IMPORTS edge so file→file dependency is captured. Phase 2
-        // of the alias-resolution work will additionally emit REEXPORTS here
-        // so the resolver can follow the chain. For now, the re-export's source
-        // file becomes a normal IMPORTS dependency.
-        for (const child of node.namedChildren) {
-          if (child.type === "string") {
-            const spec = stripQuotes(child.text);
-            ctx.pendingImports.push({ from: ctx.fileNode.id, spec });
-            return;
-          }
+        // Re-export with source: `export { foo, bar as baz } from './x'`,
+        // `export * from './x'`, `export * as ns from './x'`. The source is a
+        // normal IMPORTS dependency; each re-export is additionally emitted
+        // as an EXPORTS placeholder (`meta.reexportFrom`) that the analyser
+        // rebinds to the real declaration once imports are resolved.
+        const source = node.childForFieldName("source");
+        if (source) {
+          const spec = stripQuotes(source.text);
+          ctx.pendingImports.push({ from: ctx.fileNode.id, spec });
+          emitReexports(node, spec, ctx);
+          return;
         }
 
         // Direct exports: `export function foo()`, `export class Foo`,
@@ -67,7 +93,10 @@ export class JsTsExtractor implements LanguageExtractor {
         //
         // Also handles `export { foo, bar as baz }` (no source) where the
         // declarations were already extracted earlier in the file walk.
+        // `export default` keeps the local name as exportedName and flags the
+        // edge with `meta.default` (Next.js pages/api handlers are found by it).
         const exportSpecs: { localName: string; exportedName: string }[] = [];
+        const isDefault = node.children.some((c) => c.type === "default");
         for (const child of node.namedChildren) {
           if (child.type === "export_clause") {
             // `export { foo, bar as baz }` — iterate specifiers
@@ -84,7 +113,9 @@ export class JsTsExtractor implements LanguageExtractor {
             }
           } else {
             // Wrapped declaration: pull the name from the appropriate field
-            const declName = declarationName(child);
+            const declName =
+              declarationName(child) ??
+              (isDefault && child.type === "identifier" ? child.text : null);
             if (declName) {
               exportSpecs.push({ localName: declName, exportedName: declName });
             }
@@ -106,11 +137,14 @@ export class JsTsExtractor implements LanguageExtractor {
             spec.localName,
           );
           if (localNode) {
-            ctx.builder.addEdge({
+            addExportEdge(ctx.builder, {
               kind: "EXPORTS",
               from: ctx.fileNode.id,
               to: localNode.id,
-              meta: { exportedName: spec.exportedName },
+              meta: {
+                exportedName: spec.exportedName,
+                ...(isDefault ? { default: true } : {}),
+              },
             });
           }
         }
@@ -118,6 +152,13 @@ export class JsTsExtractor implements LanguageExtractor {
       }
 
       case "call_expression": {
+        // CommonJS `require("./x")` (bare, destructured or member-accessed) is
+        // an import, not a call.
+        const required = requireSpecOf(node);
+        if (required) {
+          ctx.pendingImports.push({ from: ctx.fileNode.id, spec: required });
+          break;
+        }
         // Dynamic import — `import("./x")` — emits an IMPORTS edge so file-to-file
         // dependency information isn't lost as a CALLS to "import".
         const fn = node.childForFieldName("function");
@@ -134,10 +175,21 @@ export class JsTsExtractor implements LanguageExtractor {
         // Anonymous arrow / function-expression arguments become Function nodes
         // ("handlers"). Critical for Express/Koa/Fastify-style routers where the
         // real logic lives inside `router.post("/x", async (req, res) => {...})`.
+        const routerCall = routerCallOf(node, ctx);
+        if (routerCall) this.routerCalls.push(routerCall);
         this.captureHandlerArgs(node, ctx);
         break;
       }
 
+      case "assignment_expression": {
+        // CommonJS exports: `module.exports = …`, `exports.foo = …`.
+        if (enclosing === null && commonJsExportEntries(node)) {
+          this.handleCommonJsExport(node, ctx);
+          return;
+        }
+        break;
+      }
+
       case "class_declaration":
       case "abstract_class_declaration": {
         const cls = this.makeClass(node, ctx);
@@ -147,10 +199,20 @@ export class JsTsExtractor implements LanguageExtractor {
           to: cls.id,
         });
         this.handleHeritage(node, cls, ctx);
+        markReactComponent(node, cls, ctx);
         const body = node.childForFieldName("body");
         if (body) {
+          const scope = classScopeOf(cls.name, body, decoratorsOf(node));
+          if (decoratorsOf(node).length > 0) emitInjections(body, cls, ctx);
+          // Member decorators are siblings preceding the member they apply to.
+          let pending: SyntaxNode[] = [];
           for (const member of body.namedChildren) {
-            this.handleClassMember(member, cls, ctx);
+            if (member.type === "decorator") {
+              pending.push(member);
+              continue;
+            }
+            this.handleClassMember(member, cls, ctx, scope, pending);
+            pending = [];
           }
         }
         return;
@@ -168,12 +230,14 @@ export class JsTsExtractor implements LanguageExtractor {
           range: rangeOf(node),
           signature: signatureOf(node),
           ...bodyFields(node),
+          ...docFields(node),
         });
         ctx.builder.addEdge({
           kind: "DEFINES",
           from: ctx.fileNode.id,
           to: iface.id,
         });
+        emitInterfaceTypeUses(node, iface, ctx);
         return;
       }
 
@@ -222,7 +286,7 @@ export class JsTsExtractor implements LanguageExtractor {
       case "function_declaration":
       case "generator_function_declaration": {
         const name = fieldText(node, "name") ?? "<anonymous>";
-        const id = `${ctx.fileNode.id}#fn:${name}@${node.startPosition.row}`;
+        const id = stableId(ctx, `${ctx.fileNode.id}#fn:${name}`, node);
         const fn = ctx.builder.addNode({
           id,
           kind: "Function",
@@ -232,6 +296,7 @@ export class JsTsExtractor implements LanguageExtractor {
           range: rangeOf(node),
           signature: signatureOf(node),
           ...bodyFields(node),
+          ...docFields(node),
         });
         ctx.builder.addEdge({
           kind: "DEFINES",
@@ -239,6 +304,8 @@ export class JsTsExtractor implements LanguageExtractor {
           to: fn.id,
         });
         this.collectCalls(node, fn, ctx);
+        emitSignatureTypeUses(node, fn, ctx);
+        markReactComponent(node, fn, ctx);
         // Recurse into body to find nested declarations (inner functions, types, etc.).
         const body = node.childForFieldName("body");
         if (body) {
@@ -265,7 +332,7 @@ export class JsTsExtractor implements LanguageExtractor {
               value.type === "function")
           ) {
             const name = nameNode.text;
-            const id = `${ctx.fileNode.id}#fn:${name}@${decl.startPosition.row}`;
+            const id = stableId(ctx, `${ctx.fileNode.id}#fn:${name}`, decl);
             const fn = ctx.builder.addNode({
               id,
               kind: "Function",
@@ -275,6 +342,7 @@ export class JsTsExtractor implements LanguageExtractor {
               range: rangeOf(decl),
               signature: signatureOf(decl),
               ...bodyFields(decl),
+              ...docFields(decl),
             });
             ctx.builder.addEdge({
               kind: "DEFINES",
@@ -282,6 +350,8 @@ export class JsTsExtractor implements LanguageExtractor {
               to: fn.id,
             });
             this.collectCalls(value, fn, ctx);
+            emitSignatureTypeUses(value, fn, ctx);
+            markReactComponent(value, fn, ctx);
             // Recurse into the body to find nested declarations.
             const body = value.childForFieldName("body");
             if (body) {
@@ -306,7 +376,9 @@ export class JsTsExtractor implements LanguageExtractor {
             enclosing === null &&
             nameNode &&
             value &&
-            (value.type === "call_expression" || value.type === "new_expression")
+            (value.type === "call_expression" || value.type === "new_expression") &&
+            // `const x = require("./x")` is an import binding, not state.
+            !requireSpecOf(value)
           ) {
             const name = nameNode.text;
             const id = `${ctx.fileNode.id}#var:${name}`;
@@ -326,6 +398,10 @@ export class JsTsExtractor implements LanguageExtractor {
               from: ctx.fileNode.id,
               to: v.id,
             });
+            // `const Button = memo(…)` / `forwardRef(…)` wraps a component.
+            if (/(^|\.)(memo|forwardRef)$/.test(v.builder ?? "")) {
+              markReactComponent(value, v, ctx);
+            }
           }
         }
         if (handledAny) return;
@@ -338,6 +414,70 @@ export class JsTsExtractor implements LanguageExtractor {
     }
   }
 
+  /**
+   * Function-valued CommonJS exports become Function nodes named by their
+   * export key (`exports.foo = () => {}`, `module.exports = { bar() {} }`)
+   * with an EXPORTS edge; `exports.x = require("./x")` shapes become
+   * re-export placeholders. Identifier values (`module.exports = { a }`)
+   * are bound after the walk by emitCommonJsReferenceExports.
+   */
+  private handleCommonJsExport(assign: SyntaxNode, ctx: ExtractContext): void {
+    for (const entry of commonJsExportEntries(assign) ?? []) {
+      const { name, value } = entry;
+      if (isFunctionLike(value)) {
+        const fn = ctx.builder.addNode({
+          id: stableId(ctx, `${ctx.fileNode.id}#fn:${name}`, entry.node),
+          kind: "Function",
+          name,
+          path: ctx.filePath,
+          language: ctx.language,
+          range: rangeOf(entry.node),
+          signature: signatureOf(entry.node),
+          ...bodyFields(entry.node),
+        });
+        ctx.builder.addEdge({
+          kind: "DEFINES",
+          from: ctx.fileNode.id,
+          to: fn.id,
+        });
+        addExportEdge(ctx.builder, {
+          kind: "EXPORTS",
+          from: ctx.fileNode.id,
+          to: fn.id,
+          meta: { exportedName: name, commonjs: true },
+        });
+        this.collectCalls(value, fn, ctx);
+        const body = value.childForFieldName("body");
+        if (body) {
+          for (const child of body.namedChildren) {
+            this.visit(child, ctx, fn);
+          }
+        }
+        continue;
+      }
+      const reexport = requireReexportOf(value);
+      if (reexport) {
+        if (name === "*") {
+          if (!reexport.importedName) {
+            reexportPlaceholder(ctx, reexport.spec, "*", { wildcard: true });
+          }
+        } else if (reexport.importedName) {
+          reexportPlaceholder(ctx, reexport.spec, reexport.importedName, {
+            exportedName: name,
+            importedName: reexport.importedName,
+          });
+        } else {
+          reexportPlaceholder(ctx, reexport.spec, `* as ${name}`, {
+            exportedName: name,
+            namespace: true,
+          });
+        }
+      }
+      // Keep walking the value: requires inside it, handler arguments, etc.
+      this.visit(value, ctx, null);
+    }
+  }
+
   private makeClass(node: SyntaxNode, ctx: ExtractContext): GraphNode {
     const name = fieldText(node, "name") ?? "<anonymous>";
     const id = `${ctx.fileNode.id}#class:${name}`;
@@ -350,6 +490,8 @@ export class JsTsExtractor implements LanguageExtractor {
       range: rangeOf(node),
       signature: signatureOf(node),
       ...bodyFields(node),
+      ...docFields(node),
+      ...decoratorMeta(decoratorsOf(node)),
     });
   }
 
@@ -416,11 +558,22 @@ export class JsTsExtractor implements LanguageExtractor {
     member: SyntaxNode,
     cls: GraphNode,
     ctx: ExtractContext,
+    scope: ClassScope,
+    decorators: SyntaxNode[],
   ): void {
     switch (member.type) {
       case "method_definition": {
         const name = fieldText(member, "name") ?? "<anonymous>";
-        const id = `${cls.id}.method:${name}@${member.startPosition.row}`;
+        const id = stableId(ctx, `${cls.id}.method:${name}`, member);
+        const mappings =
+          scope.routePrefixes !== null ? nestRoutesOf(decorators) : [];
+        // Every controller path × method path × verb is its own route.
+        const routes: { method: string; route: string }[] = [];
+        for (const prefix of mappings.length > 0 ? scope.routePrefixes! : []) {
+          for (const m of mappings) {
+            routes.push({ method: m.method, route: joinRoute(prefix, m.path) });
+          }
+        }
         const m = ctx.builder.addNode({
           id,
           kind: "Method",
@@ -430,9 +583,24 @@ export class JsTsExtractor implements LanguageExtractor {
           range: rangeOf(member),
           signature: signatureOf(member),
           ...bodyFields(member),
+          ...docFields(member),
+          ...(routes.length > 0
+            ? {
+                httpMethod: routes[0].method,
+                route: routes[0].route,
+                routerObject: cls.name,
+              }
+            : {}),
+          ...decoratorMeta(
+            decorators,
+            routes.length > 1
+              ? { routes: routes.map((r) => `${r.method} ${r.route}`) }
+              : undefined,
+          ),
         });
         ctx.builder.addEdge({ kind: "HAS_METHOD", from: cls.id, to: m.id });
-        this.collectCalls(member, m, ctx);
+        this.collectCalls(member, m, ctx, scope);
+        emitSignatureTypeUses(member, m, ctx, scope.typeParams);
         return;
       }
       case "field_definition":
@@ -449,8 +617,16 @@ export class JsTsExtractor implements LanguageExtractor {
           range: rangeOf(member),
           signature: signatureOf(member),
           ...bodyFields(member),
+          ...decoratorMeta([...decorators, ...decoratorsOf(member)]),
         });
         ctx.builder.addEdge({ kind: "HAS_PROPERTY", from: cls.id, to: p.id });
+        addTypeUseEdges(
+          ctx,
+          cls.id,
+          member.childForFieldName("type"),
+          "field",
+          scope.typeParams,
+        );
         return;
       }
     }
@@ -472,19 +648,15 @@ export class JsTsExtractor implements LanguageExtractor {
     const firstString = args.namedChildren.find((c) => c.type === "string");
     const tag = firstString ? stripQuotes(firstString.text) : null;
 
-    // Detect HTTP-handler shape (router.post("/x", handler) etc) so cypher
-    // queries can match on httpMethod/route directly without parsing the
-    // composite display name.
-    const httpInfo = fn ? extractHttpInfo(fn, args) : null;
-
+    // Route registrations themselves become Route nodes in the analyser
+    // (from `meta.routerCalls`); the handler is just a Function here.
     handlers.forEach((arg, idx) => {
       const suffix = handlers.length > 1 ? `#${idx}` : "";
       const name = tag
         ? `<${calleeLabel}:"${tag}">${suffix}`
         : `<${calleeLabel}@${arg.startPosition.row}>${suffix}`;
-      const id = `${ctx.fileNode.id}#handler:${calleeLabel}@${arg.startPosition.row}:${arg.startPosition.column}`;
       const handler = ctx.builder.addNode({
-        id,
+        id: handlerIdOf(ctx, calleeLabel, arg),
         kind: "Function",
         name,
         path: ctx.filePath,
@@ -492,13 +664,6 @@ export class JsTsExtractor implements LanguageExtractor {
         range: rangeOf(arg),
         signature: signatureOf(arg),
         ...bodyFields(arg),
-        ...(httpInfo
-          ? {
-              httpMethod: httpInfo.method,
-              route: httpInfo.route,
-              routerObject: httpInfo.routerObject,
-            }
-          : {}),
       });
       ctx.builder.addEdge({
         kind: "DEFINES",
@@ -513,66 +678,348 @@ export class JsTsExtractor implements LanguageExtractor {
     node: SyntaxNode,
     enclosing: GraphNode,
     ctx: ExtractContext,
+    scope?: ClassScope,
   ): void {
     // Walk descendants but stop at boundaries that will produce their own
-    // Function/Method scope, so calls aren't double-attributed.
+    // Function/Method scope, so calls aren't double-attributed. Decorators
+    // (`@Inject(TOKEN)` on a parameter) are metadata, not calls.
+    const inScope: SyntaxNode[] = [];
     const stack: SyntaxNode[] = [node];
     while (stack.length) {
       const n = stack.pop()!;
-      if (
-        n !== node &&
-        (n.type === "function_declaration" ||
-          n.type === "generator_function_declaration" ||
-          n.type === "method_definition")
-      ) {
-        continue;
+      if (n !== node && (startsOwnScope(n) || n.type === "decorator")) continue;
+      inScope.push(n);
+      for (const c of n.namedChildren) stack.push(c);
+    }
+
+    // Receiver types of parameters and locals, gathered up front so a call
+    // can use a declaration that appears anywhere in the same scope.
+    const locals = new Map<string, ReceiverHint>();
+    const params = node.childForFieldName("parameters");
+    for (const p of params?.namedChildren ?? []) {
+      const name = p.childForFieldName("pattern");
+      const type = typeNameOf(p.childForFieldName("type"));
+      if (name?.type === "identifier" && type) {
+        locals.set(name.text, { type, via: "param" });
       }
-      // Anonymous arrow / function-expression — own Function node via
-      // captureHandlerArgs (or via variable_declarator below). Skip body.
-      if (
-        n !== node &&
-        (n.type === "arrow_function" ||
-          n.type === "function_expression" ||
-          n.type === "function")
-      ) {
-        continue;
+    }
+    for (const n of inScope) {
+      if (n.type !== "variable_declarator") continue;
+      const name = n.childForFieldName("name");
+      const type =
+        typeNameOf(n.childForFieldName("type")) ??
+        constructedTypeOf(n.childForFieldName("value"));
+      if (name?.type === "identifier" && type) {
+        locals.set(name.text, { type, via: "local" });
       }
-      // Arrow / function-expression bound to a `const`/`let` becomes its own
-      // Function node — skip its body to avoid double counting.
+    }
+
+    for (const n of inScope) {
+      if (n.type !== "call_expression") continue;
+      const fn = n.childForFieldName("function");
+      // Dynamic import and static require are IMPORTS (see visit()), not CALLS.
+      if (!fn || fn.type === "import" || requireSpecOf(n)) continue;
+      const symbol = calleeName(fn);
+      if (!symbol) continue;
+      addCallEdge(
+        ctx,
+        enclosing.id,
+        symbol,
+        fn.type === "member_expression"
+          ? receiverOf(fn.childForFieldName("object"), locals, scope)
+          : null,
+      );
+      // React hooks: `useX()` / `React.useX()`, on top of the CALLS edge.
       if (
-        n !== node &&
-        n.type === "variable_declarator"
+        /^use[A-Z0-9]/.test(symbol) &&
+        (fn.type === "identifier" ||
+          fn.childForFieldName("object")?.text === "React")
       ) {
-        const value = n.childForFieldName("value");
-        if (
-          value &&
-          (value.type === "arrow_function" ||
-            value.type === "function_expression" ||
-            value.type === "function")
-        ) {
-          continue;
-        }
+        ctx.builder.addEdge({
+          kind: "USES_HOOK",
+          from: enclosing.id,
+          to: `unresolved:hook:${symbol}`,
+          unresolved: symbol,
+        });
       }
-      if (n.type === "call_expression") {
-        const fn = n.childForFieldName("function");
-        if (fn) {
-          // Dynamic import is handled as IMPORTS in visit(), not as CALLS.
-          if (fn.type !== "import") {
-            const symbol = calleeName(fn);
-            if (symbol) {
-              ctx.builder.addEdge({
-                kind: "CALLS",
-                from: enclosing.id,
-                to: `unresolved:callable:${symbol}`,
-                unresolved: symbol,
-              });
-            }
-          }
+    }
+  }
+}
+
+/**
+ * A capitalised function, class or `memo`/`forwardRef` variable whose code
+ * contains JSX is a React component: set `meta.reactComponent` and emit
+ * RENDERS to each capitalised element (`<Child/>`, `<Tabs.Panel>`). Inline
+ * callbacks and render helpers count as the component's own code; nested
+ * capitalised declarations are components of their own. Targets are
+ * `unresolved:component:<Name>` placeholders bound by the analyser.
+ */
+function markReactComponent(
+  node: SyntaxNode,
+  owner: GraphNode,
+  ctx: ExtractContext,
+): void {
+  if (!/^[A-Z]/.test(owner.name)) return;
+  const rendered = new Set<string>();
+  let hasJsx = false;
+  const stack: SyntaxNode[] = [node];
+  while (stack.length) {
+    const n = stack.pop()!;
+    if (n !== node && definesComponentName(n)) continue;
+    if (
+      n.type === "jsx_element" ||
+      n.type === "jsx_self_closing_element" ||
+      n.type === "jsx_fragment"
+    ) {
+      hasJsx = true;
+    }
+    if (
+      n.type === "jsx_opening_element" ||
+      n.type === "jsx_self_closing_element"
+    ) {
+      const name = fieldText(n, "name");
+      if (name && /^[A-Z]/.test(name)) rendered.add(name);
+    }
+    for (const c of n.namedChildren) stack.push(c);
+  }
+  if (!hasJsx) return;
+
+  owner.meta = { ...owner.meta, reactComponent: true };
+  for (const name of rendered) {
+    ctx.builder.addEdge({
+      kind: "RENDERS",
+      from: owner.id,
+      to: `unresolved:component:${name}`,
+      unresolved: name,
+    });
+  }
+}
+
+/**
+ * A nested declaration that is a component of its own: `function Row()`,
+ * `const Row = …`, a class.
+ */
+function definesComponentName(n: SyntaxNode): boolean {
+  switch (n.type) {
+    case "function_declaration":
+    case "variable_declarator":
+    case "class_declaration":
+      return /^[A-Z]/.test(fieldText(n, "name") ?? "");
+    case "class":
+      return true;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Nested functions that get their own Function/Method node, so their calls
+ * belong to them: declarations, methods, anonymous arrow / function
+ * expressions (captureHandlerArgs) and ones bound to a `const`/`let`.
+ */
+function startsOwnScope(n: SyntaxNode): boolean {
+  switch (n.type) {
+    case "function_declaration":
+    case "generator_function_declaration":
+    case "method_definition":
+    case "arrow_function":
+    case "function_expression":
+    case "function":
+      return true;
+    case "variable_declarator": {
+      const value = n.childForFieldName("value");
+      return (
+        !!value &&
+        (value.type === "arrow_function" ||
+          value.type === "function_expression" ||
+          value.type === "function")
+      );
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * What members need from their class: its name and typed fields (receiver
+ * inference), and the `@Controller()` route prefixes — [""] for an
+ * unprefixed controller, null when the class isn't a NestJS controller.
+ */
+interface ClassScope {
+  name: string;
+  fields: Map<string, string>;
+  routePrefixes: string[] | null;
+  /** The class's own `<T>` names, never emitted as USES_TYPE targets. */
+  typeParams: Set<string>;
+}
+
+/**
+ * Field types from declarations (`repo: Repo`, `svc = new Svc()`),
+ * constructor parameter properties (`constructor(private db: Db)`) and
+ * `this.x = new Foo()` assignments anywhere in the body. Declared types win
+ * over assignments.
+ */
+function classScopeOf(
+  name: string,
+  body: SyntaxNode,
+  decorators: SyntaxNode[],
+): ClassScope {
+  const fields = new Map<string, string>();
+  for (const member of body.namedChildren) {
+    if (
+      member.type === "public_field_definition" ||
+      member.type === "field_definition"
+    ) {
+      const field =
+        member.childForFieldName("name") ?? member.childForFieldName("property");
+      const type =
+        typeNameOf(member.childForFieldName("type")) ??
+        constructedTypeOf(member.childForFieldName("value"));
+      if (field && type) fields.set(field.text, type);
+    } else if (
+      member.type === "method_definition" &&
+      fieldText(member, "name") === "constructor"
+    ) {
+      for (const p of member.childForFieldName("parameters")?.namedChildren ?? []) {
+        const isProperty = p.children.some(
+          (c) =>
+            c.type === "accessibility_modifier" ||
+            c.type === "readonly" ||
+            c.type === "override_modifier",
+        );
+        const field = p.childForFieldName("pattern");
+        const type = typeNameOf(p.childForFieldName("type"));
+        if (isProperty && field?.type === "identifier" && type) {
+          fields.set(field.text, type);
         }
       }
-      for (const c of n.namedChildren) stack.push(c);
     }
   }
+  for (const assign of body.descendantsOfType("assignment_expression")) {
+    const left = assign.childForFieldName("left");
+    if (left?.type !== "member_expression") continue;
+    if (left.childForFieldName("object")?.type !== "this") continue;
+    const field = fieldText(left, "property");
+    const type = constructedTypeOf(assign.childForFieldName("right"));
+    if (field && type && !fields.has(field)) fields.set(field, type);
+  }
+  const controller = decorators.find((d) => decoratorName(d) === "Controller");
+  let routePrefixes: string[] | null = null;
+  if (controller) {
+    const paths = decoratorPaths(controller);
+    routePrefixes = paths.length > 0 ? paths : [""];
+  }
+  return {
+    name,
+    fields,
+    routePrefixes,
+    typeParams: typeParameterNames(body.parent),
+  };
+}
+
+/** `this` / `this.field` / a typed param or local → the receiver's type. */
+function receiverOf(
+  obj: SyntaxNode | null,
+  locals: Map<string, ReceiverHint>,
+  scope: ClassScope | undefined,
+): ReceiverHint | null {
+  if (!obj) return null;
+  if (obj.type === "this") {
+    return scope ? { type: scope.name, via: "this" } : null;
+  }
+  if (
+    obj.type === "member_expression" &&
+    obj.childForFieldName("object")?.type === "this"
+  ) {
+    const field = fieldText(obj, "property");
+    const type = field ? scope?.fields.get(field) : undefined;
+    return type ? { type, via: "field" } : null;
+  }
+  if (obj.type === "identifier") return locals.get(obj.text) ?? null;
+  return null;
+}
+
+/**
+ * USES_TYPE edges for a function/method signature: parameter annotations
+ * (including constructor parameter properties) and the return type. The
+ * declaration's own type parameters, plus the enclosing class's, are skipped.
+ */
+function emitSignatureTypeUses(
+  fn: SyntaxNode,
+  owner: GraphNode,
+  ctx: ExtractContext,
+  outerTypeParams: ReadonlySet<string> = new Set(),
+): void {
+  const typeParams = new Set([...outerTypeParams, ...typeParameterNames(fn)]);
+  for (const p of fn.childForFieldName("parameters")?.namedChildren ?? []) {
+    addTypeUseEdges(ctx, owner.id, p.childForFieldName("type"), "param", typeParams);
+  }
+  addTypeUseEdges(
+    ctx,
+    owner.id,
+    fn.childForFieldName("return_type"),
+    "return",
+    typeParams,
+  );
+}
+
+/** Property types (`field`) and method-signature types of an interface body. */
+function emitInterfaceTypeUses(
+  decl: SyntaxNode,
+  iface: GraphNode,
+  ctx: ExtractContext,
+): void {
+  const typeParams = typeParameterNames(decl);
+  for (const member of decl.childForFieldName("body")?.namedChildren ?? []) {
+    if (member.type === "property_signature") {
+      addTypeUseEdges(
+        ctx,
+        iface.id,
+        member.childForFieldName("type"),
+        "field",
+        typeParams,
+      );
+    } else if (member.type === "method_signature") {
+      emitSignatureTypeUses(member, iface, ctx, typeParams);
+    }
+  }
+}
+
+/**
+ * Simple class name from a type annotation: `Foo`, `Foo<T>`, `ns.Foo`, and
+ * `Foo | null` / `Foo | undefined`. Null for primitives and real unions.
+ */
+function typeNameOf(t: SyntaxNode | null): string | null {
+  if (!t) return null;
+  switch (t.type) {
+    case "type_annotation":
+      return typeNameOf(t.namedChildren[0] ?? null);
+    case "type_identifier":
+      return t.text;
+    case "generic_type":
+      return typeNameOf(t.childForFieldName("name"));
+    case "nested_type_identifier":
+      return fieldText(t, "name") ?? null;
+    case "union_type": {
+      const members = t.namedChildren.filter(
+        (c) =>
+          c.type !== "literal_type" &&
+          !(c.type === "predefined_type" && c.text === "undefined"),
+      );
+      return members.length === 1 ? typeNameOf(members[0]) : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/** `new Foo()` / `new ns.Foo<T>()` → "Foo". */
+function constructedTypeOf(value: SyntaxNode | null): string | null {
+  if (value?.type !== "new_expression") return null;
+  const ctor = value.childForFieldName("constructor");
+  if (ctor?.type === "identifier") return ctor.text;
+  if (ctor?.type === "member_expression") return fieldText(ctor, "property") ?? null;
+  return null;
 }
 
 const HTTP_VERBS = new Set([
@@ -588,28 +1035,197 @@ const HTTP_VERBS = new Set([
 ]);
 
 /**
- * If the call shape is `<obj>.<verb>(<route>, <handler>)` where verb is an
- * Express-style HTTP method, returns the structured form. Otherwise null.
- * Used to attach httpMethod/route/routerObject props to handler nodes so
- * cypher queries don't have to parse the display name.
+ * Id of the Function node captureHandlerArgs creates for an inline handler:
+ * the callee plus the call's first string argument (`router.get:"/users"`),
+ * and `#i` when the call has several inline functions.
  */
-function extractHttpInfo(
-  fn: SyntaxNode,
-  args: SyntaxNode,
-): { method: string; route?: string; routerObject?: string } | null {
-  if (fn.type !== "member_expression") return null;
-  const verb = fn.childForFieldName("property")?.text?.toLowerCase();
+function handlerIdOf(
+  ctx: ExtractContext,
+  calleeLabel: string,
+  arg: SyntaxNode,
+): string {
+  const args = arg.parent?.namedChildren ?? [];
+  const tag = args.find((c) => c.type === "string");
+  const handlers = args.filter(
+    (c) =>
+      c.type === "arrow_function" ||
+      c.type === "function_expression" ||
+      c.type === "function",
+  );
+  const idx = handlers.findIndex((h) => h.startIndex === arg.startIndex);
+  return stableId(
+    ctx,
+    `${ctx.fileNode.id}#handler:${calleeLabel}` +
+      (tag ? `:"${stripQuotes(tag.text)}"` : "") +
+      (handlers.length > 1 ? `#${idx}` : ""),
+    arg,
+  );
+}
+
+/**
+ * `<router>.<verb>([path,] ...args)` — Express-style routing, including
+ * `router.route("/x").get(h).post(h2)` chains. Verb calls need a literal path
+ * starting with `/` (or `*`) so `map.get("k", fallback)` doesn't qualify;
+ * `use` may omit it. Null for anything else.
+ */
+function routerCallOf(
+  call: SyntaxNode,
+  ctx: ExtractContext,
+): RouterCall | null {
+  const fn = call.childForFieldName("function");
+  if (fn?.type !== "member_expression") return null;
+  const verb = fieldText(fn, "property")?.toLowerCase();
   if (!verb || !HTTP_VERBS.has(verb)) return null;
-  const obj = fn.childForFieldName("object")?.text;
-  const firstString = args.namedChildren.find((c) => c.type === "string");
-  const route = firstString ? stripQuotes(firstString.text) : undefined;
+
+  let object = fn.childForFieldName("object");
+  let path: string | undefined;
+  while (object?.type === "call_expression") {
+    const inner = object.childForFieldName("function");
+    if (inner?.type !== "member_expression") return null;
+    const prop = fieldText(inner, "property")?.toLowerCase();
+    if (prop === "route") {
+      const arg = object.childForFieldName("arguments")?.namedChildren[0];
+      if (arg?.type !== "string") return null;
+      path = stripQuotes(arg.text);
+      object = inner.childForFieldName("object");
+      break;
+    }
+    if (!prop || prop === "use" || !HTTP_VERBS.has(prop)) return null;
+    object = inner.childForFieldName("object");
+  }
+  if (object?.type !== "identifier" && object?.type !== "member_expression") {
+    return null;
+  }
+
+  let args = call.childForFieldName("arguments")?.namedChildren ?? [];
+  if (path === undefined && args[0]?.type === "string") {
+    path = stripQuotes(args[0].text);
+    args = args.slice(1);
+  }
+  if (verb !== "use" && !/^[/*]/.test(path ?? "")) return null;
+
+  const calleeLabel = handlerLabelFor(fn);
+  const refs = args
+    .flatMap((a) => (a.type === "array" ? a.namedChildren : [a]))
+    .map((a) => routeArgRefOf(a, ctx, calleeLabel))
+    .filter((r): r is RouteArgRef => r !== null);
+  if (refs.length === 0) return null;
+
   return {
-    method: verb.toUpperCase(),
-    route,
-    routerObject: obj,
+    router: { name: object.text },
+    verb: verb.toUpperCase(),
+    path,
+    args: refs,
+    range: rangeOf(call),
   };
 }
 
+/** A router-call argument as something the analyser can resolve, or null. */
+function routeArgRefOf(
+  arg: SyntaxNode,
+  ctx: ExtractContext,
+  calleeLabel: string,
+): RouteArgRef | null {
+  switch (arg.type) {
+    case "arrow_function":
+    case "function_expression":
+    case "function":
+      return { id: handlerIdOf(ctx, calleeLabel, arg) };
+    case "identifier":
+      return { name: arg.text };
+    case "member_expression": {
+      const name = fieldText(arg, "property");
+      const object = arg.childForFieldName("object")?.text;
+      return name && object ? { name, object } : null;
+    }
+    case "call_expression": {
+      // `app.use("/api", require("./routes"))` mounts the module's export.
+      const spec = requireSpecOf(arg);
+      if (spec) return { importSpec: spec, importedName: "default" };
+      const callee = arg.childForFieldName("function");
+      const ref = callee ? routeArgRefOf(callee, ctx, calleeLabel) : null;
+      return ref?.name ? { ...ref, factory: true } : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Top-level import bindings: local name → specifier and imported name
+ * ("default", "*" or the export name). Covers ES imports and
+ * `const x = require()` / `const { a } = require()`.
+ */
+function importBindingsOf(
+  root: SyntaxNode,
+): Map<string, { spec: string; importedName: string }> {
+  const out = new Map<string, { spec: string; importedName: string }>();
+  for (const stmt of root.namedChildren) {
+    if (stmt.type === "import_statement") {
+      const source = stmt.childForFieldName("source");
+      const clause = stmt.namedChildren.find((c) => c.type === "import_clause");
+      if (!source || !clause) continue;
+      const spec = stripQuotes(source.text);
+      for (const c of clause.namedChildren) {
+        if (c.type === "identifier") {
+          out.set(c.text, { spec, importedName: "default" });
+        } else if (c.type === "namespace_import") {
+          const local = c.namedChildren[0]?.text;
+          if (local) out.set(local, { spec, importedName: "*" });
+        } else if (c.type === "named_imports") {
+          for (const s of c.namedChildren) {
+            const name = fieldText(s, "name");
+            if (!name) continue;
+            out.set(fieldText(s, "alias") ?? name, { spec, importedName: name });
+          }
+        }
+      }
+    } else if (
+      stmt.type === "lexical_declaration" ||
+      stmt.type === "variable_declaration"
+    ) {
+      for (const decl of stmt.namedChildren) {
+        const value = decl.childForFieldName("value");
+        const spec = value ? requireSpecOf(value) : null;
+        if (!spec) continue;
+        const name = decl.childForFieldName("name");
+        if (name?.type === "identifier") {
+          out.set(name.text, { spec, importedName: "default" });
+        } else if (name?.type === "object_pattern") {
+          for (const p of name.namedChildren) {
+            if (p.type === "shorthand_property_identifier_pattern") {
+              out.set(p.text, { spec, importedName: p.text });
+            } else if (p.type === "pair_pattern") {
+              const key = fieldText(p, "key");
+              const local = p.childForFieldName("value");
+              if (key && local?.type === "identifier") {
+                out.set(local.text, { spec, importedName: key });
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+  return out;
+}
+
+/** Stamp import bindings onto router-call refs whose name/object is imported. */
+function bindRouteImports(
+  calls: RouterCall[],
+  bindings: Map<string, { spec: string; importedName: string }>,
+): void {
+  for (const call of calls) {
+    for (const ref of [call.router, ...call.args]) {
+      if (ref.importSpec) continue;
+      const binding = bindings.get(ref.object ?? ref.name ?? "");
+      if (!binding) continue;
+      ref.importSpec = binding.spec;
+      ref.importedName = binding.importedName;
+    }
+  }
+}
+
 /**
  * For a call_expression or new_expression, return a readable label for the
  * thing being called: "Annotation.Root", "z.object", "Router", "PrismaClient".
@@ -730,3 +1346,347 @@ function findLocalDeclaration(
   }
   return null;
 }
+
+/**
+ * EXPORTS placeholders for a re-export statement. Targets are synthetic
+ * `unresolved:reexport:<spec>#<name>` ids; `meta.reexportFrom` marks them
+ * for the analyser's re-export pass, which binds them to the declaration
+ * (following barrels transitively) once the spec has resolved to a file.
+ *
+ *   export { a, b as c } from "./x"  → exportedName a / c, importedName a / b
+ *   export * as ns from "./x"        → exportedName ns, namespace: true
+ *   export * from "./x"              → wildcard: true (expanded per name later)
+ */
+function emitReexports(
+  node: SyntaxNode,
+  spec: string,
+  ctx: ExtractContext,
+): void {
+  const clause = node.namedChildren.find((c) => c.type === "export_clause");
+  const nsExport = node.namedChildren.find(
+    (c) => c.type === "namespace_export",
+  );
+  const emit = (target: string, meta: Record<string, unknown>): void =>
+    reexportPlaceholder(ctx, spec, target, meta);
+
+  if (clause) {
+    for (const s of clause.namedChildren) {
+      if (s.type !== "export_specifier") continue;
+      const importedName = fieldText(s, "name") ?? s.text;
+      const exportedName = fieldText(s, "alias") ?? importedName;
+      emit(importedName, { exportedName, importedName });
+    }
+  } else if (nsExport) {
+    const exportedName = nsExport.namedChildren[0]?.text;
+    if (exportedName) emit(`* as ${exportedName}`, { exportedName, namespace: true });
+  } else {
+    emit("*", { wildcard: true });
+  }
+}
+
+function reexportPlaceholder(
+  ctx: ExtractContext,
+  spec: string,
+  target: string,
+  meta: Record<string, unknown>,
+): void {
+  ctx.builder.addEdge({
+    kind: "EXPORTS",
+    from: ctx.fileNode.id,
+    to: `unresolved:reexport:${spec}#${target}`,
+    unresolved: target,
+    meta: { ...meta, reexportFrom: spec },
+  });
+}
+
+/** `require("./x")` with a static string → "./x". Null for anything else. */
+function requireSpecOf(call: SyntaxNode): string | null {
+  if (call.type !== "call_expression") return null;
+  const fn = call.childForFieldName("function");
+  if (fn?.type !== "identifier" || fn.text !== "require") return null;
+  const arg = call.childForFieldName("arguments")?.namedChildren[0];
+  if (arg?.type === "string") return stripQuotes(arg.text);
+  if (
+    arg?.type === "template_string" &&
+    !arg.namedChildren.some((c) => c.type === "template_substitution")
+  ) {
+    return arg.text.slice(1, -1);
+  }
+  return null;
+}
+
+/** `require("./x")` → whole module; `require("./x").foo` → one name of it. */
+function requireReexportOf(
+  value: SyntaxNode,
+): { spec: string; importedName?: string } | null {
+  if (value.type === "member_expression") {
+    const obj = value.childForFieldName("object");
+    const spec = obj ? requireSpecOf(obj) : null;
+    const importedName = fieldText(value, "property");
+    return spec && importedName ? { spec, importedName } : null;
+  }
+  const spec = requireSpecOf(value);
+  return spec ? { spec } : null;
+}
+
+function isFunctionLike(n: SyntaxNode): boolean {
+  return (
+    n.type === "arrow_function" ||
+    n.type === "function_expression" ||
+    n.type === "function" ||
+    n.type === "generator_function" ||
+    n.type === "method_definition"
+  );
+}
+
+interface CommonJsExportEntry {
+  /** Exported name; `*` when the whole `module.exports` is a re-export. */
+  name: string;
+  value: SyntaxNode;
+  /** Node spanning the export, used for the Function's range/body. */
+  node: SyntaxNode;
+}
+
+/**
+ * The names a CommonJS export assignment defines, or null when the
+ * assignment isn't one:
+ *
+ *   exports.foo = v / module.exports.foo = v  → foo
+ *   module.exports = { a, b: v, c() {} }      → a, b, c
+ *   module.exports = ident                    → ident
+ *   module.exports = function name() {}       → name
+ *   module.exports = require("./x")           → * (whole-module re-export)
+ */
+function commonJsExportEntries(
+  assign: SyntaxNode,
+): CommonJsExportEntry[] | null {
+  const left = assign.childForFieldName("left");
+  const right = assign.childForFieldName("right");
+  if (!left || !right || left.type !== "member_expression") return null;
+  const isModuleExports = (n: SyntaxNode | null): boolean =>
+    n?.type === "member_expression" &&
+    n.childForFieldName("object")?.text === "module" &&
+    fieldText(n, "property") === "exports";
+
+  if (!isModuleExports(left)) {
+    const obj = left.childForFieldName("object");
+    const prop = fieldText(left, "property");
+    if (!prop || !(obj?.text === "exports" || isModuleExports(obj))) return null;
+    return [{ name: prop, value: right, node: assign }];
+  }
+
+  switch (right.type) {
+    case "object": {
+      const out: CommonJsExportEntry[] = [];
+      for (const c of right.namedChildren) {
+        if (c.type === "shorthand_property_identifier") {
+          out.push({ name: c.text, value: c, node: c });
+        } else if (c.type === "pair") {
+          const key = c.childForFieldName("key");
+          const value = c.childForFieldName("value");
+          const name =
+            key?.type === "string" ? stripQuotes(key.text) : key?.text;
+          if (name && value) out.push({ name, value, node: c });
+        } else if (c.type === "method_definition") {
+          const name = fieldText(c, "name");
+          if (name) out.push({ name, value: c, node: c });
+        }
+      }
+      return out;
+    }
+    case "identifier":
+      return [{ name: right.text, value: right, node: assign }];
+    case "function_expression":
+    case "function": {
+      const name = fieldText(right, "name");
+      return name ? [{ name, value: right, node: assign }] : [];
+    }
+    default:
+      return requireReexportOf(right)
+        ? [{ name: "*", value: right, node: assign }]
+        : [];
+  }
+}
+
+/**
+ * EXPORTS for CommonJS exports that name an existing declaration
+ * (`module.exports = { a, b: impl }`, `exports.c = c`). Runs after the
+ * walk so hoisted functions declared below the export are already nodes.
+ */
+function emitCommonJsReferenceExports(
+  root: SyntaxNode,
+  ctx: ExtractContext,
+): void {
+  for (const stmt of root.namedChildren) {
+    if (stmt.type !== "expression_statement") continue;
+    const assign = stmt.namedChildren[0];
+    if (assign?.type !== "assignment_expression") continue;
+    // `module.exports = router` is the module itself — the default export.
+    const wholesale = assign.childForFieldName("left")?.text === "module.exports";
+    for (const { name, value } of commonJsExportEntries(assign) ?? []) {
+      if (
+        value.type !== "identifier" &&
+        value.type !== "shorthand_property_identifier"
+      ) {
+        continue;
+      }
+      const local = findLocalDeclaration(ctx, value.text);
+      if (!local) continue;
+      addExportEdge(ctx.builder, {
+        kind: "EXPORTS",
+        from: ctx.fileNode.id,
+        to: local.id,
+        meta: {
+          exportedName: name,
+          commonjs: true,
+          ...(wholesale && value.type === "identifier" ? { default: true } : {}),
+        },
+      });
+    }
+  }
+}
+
+/**
+ * Decorators on a class, field or parameter. An exported class's decorators
+ * (`@Controller() export class …`) hang off the export statement.
+ */
+function decoratorsOf(node: SyntaxNode): SyntaxNode[] {
+  const own = node.children.filter((c) => c.type === "decorator");
+  const parent = node.parent;
+  if (parent?.type !== "export_statement") return own;
+  return [...parent.children.filter((c) => c.type === "decorator"), ...own];
+}
+
+/** `@Get(":id")` → "Get", `@ng.Component({…})` → "ng.Component". */
+function decoratorName(d: SyntaxNode): string {
+  const expr = d.namedChildren[0];
+  if (expr?.type === "call_expression") {
+    return expr.childForFieldName("function")?.text ?? "";
+  }
+  return expr?.text ?? "";
+}
+
+/** Arguments of a decorator call; empty for bare `@Input`. */
+function decoratorArgs(d: SyntaxNode): SyntaxNode[] {
+  const expr = d.namedChildren[0];
+  if (expr?.type !== "call_expression") return [];
+  return expr.childForFieldName("arguments")?.namedChildren ?? [];
+}
+
+/**
+ * Path arguments of a Nest route decorator: `"users"`, `["a", "b"]` or
+ * `{ path: "users" }`. Empty when absent or not literals.
+ */
+function decoratorPaths(d: SyntaxNode): string[] {
+  let arg = decoratorArgs(d)[0];
+  if (arg?.type === "object") {
+    const pathPair = arg.namedChildren.find(
+      (p) => p.type === "pair" && fieldText(p, "key") === "path",
+    );
+    arg = pathPair?.childForFieldName("value") ?? undefined;
+  }
+  const items = arg?.type === "array" ? arg.namedChildren : arg ? [arg] : [];
+  return items
+    .filter((a) => a.type === "string")
+    .map((a) => stripQuotes(a.text));
+}
+
+/**
+ * Spread into a node: `meta.decorators` (names) when there are any, plus
+ * `extra` entries.
+ */
+function decoratorMeta(
+  decorators: SyntaxNode[],
+  extra?: Record<string, unknown>,
+): { meta?: Record<string, unknown> } {
+  if (decorators.length === 0 && !extra) return {};
+  return {
+    meta: {
+      ...(decorators.length > 0 ? { decorators: decorators.map(decoratorName) } : {}),
+      ...extra,
+    },
+  };
+}
+
+const NEST_VERB_DECORATORS = new Set([
+  "Get",
+  "Post",
+  "Put",
+  "Delete",
+  "Patch",
+  "Options",
+  "Head",
+  "All",
+]);
+
+/**
+ * `@Post(":id")` on a controller method → POST + ":id"; one entry per verb
+ * decorator and path (`@Get(["a", "b"])` → GET a, GET b).
+ */
+function nestRoutesOf(
+  decorators: SyntaxNode[],
+): { method: string; path: string }[] {
+  const routes: { method: string; path: string }[] = [];
+  for (const d of decorators) {
+    const name = decoratorName(d);
+    if (!NEST_VERB_DECORATORS.has(name)) continue;
+    const paths = decoratorPaths(d);
+    for (const p of paths.length > 0 ? paths : [""]) {
+      routes.push({ method: name.toUpperCase(), path: p });
+    }
+  }
+  return routes;
+}
+
+/**
+ * INJECTS(class → type) for a DI-managed (decorated) class: each typed
+ * constructor parameter (`constructor(private users: UsersService)`) and
+ * each `field = inject(Type)` initializer (Angular). Targets resolve like
+ * EXTENDS; `@Inject(TOKEN)` / `@InjectRepository(User)` record their
+ * argument as `meta.token`.
+ */
+function emitInjections(
+  body: SyntaxNode,
+  cls: GraphNode,
+  ctx: ExtractContext,
+): void {
+  const emit = (type: string, meta: Record<string, unknown>): void => {
+    ctx.builder.addEdge({
+      kind: "INJECTS",
+      from: cls.id,
+      to: `unresolved:class:${type}`,
+      unresolved: type,
+      meta,
+    });
+  };
+  for (const member of body.namedChildren) {
+    if (
+      member.type === "method_definition" &&
+      fieldText(member, "name") === "constructor"
+    ) {
+      for (const p of member.childForFieldName("parameters")?.namedChildren ?? []) {
+        const type = typeNameOf(p.childForFieldName("type"));
+        const parameter = p.childForFieldName("pattern")?.text;
+        if (!type || !parameter) continue;
+        const tokenDecorator = decoratorsOf(p).find((d) =>
+          decoratorName(d).startsWith("Inject"),
+        );
+        const token = tokenDecorator
+          ? decoratorArgs(tokenDecorator)[0]?.text
+          : undefined;
+        emit(type, { parameter, ...(token ? { token } : {}) });
+      }
+    } else if (member.type === "public_field_definition") {
+      const value = member.childForFieldName("value");
+      if (
+        value?.type !== "call_expression" ||
+        value.childForFieldName("function")?.text !== "inject"
+      ) {
+        continue;
+      }
+      const arg = value.childForFieldName("arguments")?.namedChildren[0];
+      const field = fieldText(member, "name");
+      if (arg?.type === "identifier" && field) emit(arg.text, { field });
+    }
+  }
+}
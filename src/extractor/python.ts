@@ -0,0 +1,523 @@
+import type { SyntaxNode } from "tree-sitter";
+import {
+  ExtractContext,
+  LanguageExtractor,
+  rangeOf,
+  fieldText,
+  stableId,
+  bodyFields,
+  signatureOf,
+  detectPythonTestFile,
+  isTestPath,
+  addCallEdge,
+  ReceiverHint,
+} from "./base";
+import type { GraphNode } from "../util/graph";
+
+/**
+ * Extractor for tree-sitter-python.
+ * Handles classes, functions, methods, class/instance attributes, imports
+ * (`import x` and `from .pkg import y`), base classes (EXTENDS) and calls.
+ *
+ * Python has no export syntax: every public (non-underscore) module-level
+ * def/class/captured Variable is importable, so those get EXPORTS edges. When the
+ * module declares a literal `__all__`, that list is authoritative instead.
+ */
+export class PythonExtractor implements LanguageExtractor {
+  extract(root: SyntaxNode, ctx: ExtractContext): void {
+    const framework =
+      detectPythonTestFile(root) ?? (isTestPath(ctx.filePath) ? "unknown" : null);
+    if (framework) {
+      ctx.fileNode.isTest = true;
+      ctx.fileNode.testFramework = framework;
+    }
+
+    const topLevel = new Map<string, GraphNode>();
+    this.visit(root, ctx, null, topLevel);
+
+    const explicit = dunderAll(root);
+    for (const [name, node] of topLevel) {
+      const exported = explicit ? explicit.has(name) : !name.startsWith("_");
+      if (!exported) continue;
+      ctx.builder.addEdge({
+        kind: "EXPORTS",
+        from: ctx.fileNode.id,
+        to: node.id,
+        meta: { exportedName: name },
+      });
+    }
+  }
+
+  /**
+   * `enclosing` is the Function a nested def lives in (null at module level).
+   * `topLevel` collects module-level declarations for the EXPORTS pass.
+   */
+  private visit(
+    node: SyntaxNode,
+    ctx: ExtractContext,
+    enclosing: GraphNode | null,
+    topLevel: Map<string, GraphNode>,
+  ): void {
+    switch (node.type) {
+      case "import_statement": {
+        // `import a.b`, `import a.b as c` — each name is its own module.
+        for (const n of node.childrenForFieldName("name")) {
+          const mod =
+            n.type === "aliased_import" ? fieldText(n, "name") : n.text;
+          if (mod) ctx.pendingImports.push({ from: ctx.fileNode.id, spec: mod });
+        }
+        return;
+      }
+
+      case "import_from_statement": {
+        // `from .pkg import y` → spec ".pkg", with `y` kept in case it's a
+        // submodule (.pkg/y.py) rather than a name in the package. A
+        // bare-dots module (`from . import y`) imports sibling modules, so
+        // each name becomes its own relative spec (".y").
+        const mod = fieldText(node, "module_name");
+        if (!mod) return;
+        const names: string[] = [];
+        for (const n of node.childrenForFieldName("name")) {
+          const name =
+            n.type === "aliased_import" ? fieldText(n, "name") : n.text;
+          if (name) names.push(name);
+        }
+        if (/^\.+$/.test(mod)) {
+          for (const name of names) {
+            ctx.pendingImports.push({
+              from: ctx.fileNode.id,
+              spec: mod + name,
+            });
+          }
+        } else {
+          ctx.pendingImports.push({
+            from: ctx.fileNode.id,
+            spec: mod,
+            ...(names.length > 0 && { names }),
+          });
+        }
+        return;
+      }
+
+      case "decorated_definition": {
+        const def = node.childForFieldName("definition");
+        if (def) this.visit(def, ctx, enclosing, topLevel);
+        return;
+      }
+
+      case "class_definition": {
+        const cls = this.makeClass(node, ctx);
+        ctx.builder.addEdge({
+          kind: "DEFINES",
+          from: ctx.fileNode.id,
+          to: cls.id,
+        });
+        if (enclosing === null) topLevel.set(cls.name, cls);
+        this.handleHeritage(node, cls, ctx);
+        const body = node.childForFieldName("body");
+        if (body) {
+          const scope = classScopeOf(cls.name, body);
+          for (const member of body.namedChildren) {
+            this.handleClassMember(member, cls, ctx, topLevel, scope);
+          }
+        }
+        return;
+      }
+
+      case "function_definition": {
+        const name = fieldText(node, "name") ?? "<anonymous>";
+        const id = stableId(ctx, `${ctx.fileNode.id}#fn:${name}`, outerOf(node));
+        const fn = ctx.builder.addNode({
+          id,
+          kind: "Function",
+          name,
+          path: ctx.filePath,
+          language: ctx.language,
+          range: rangeOf(outerOf(node)),
+          signature: signatureOf(node),
+          ...bodyFields(outerOf(node)),
+        });
+        ctx.builder.addEdge({
+          kind: "DEFINES",
+          from: ctx.fileNode.id,
+          to: fn.id,
+        });
+        if (enclosing === null) topLevel.set(name, fn);
+        this.collectCalls(node, fn, ctx);
+        // Recurse into body to find nested defs/classes.
+        const body = node.childForFieldName("body");
+        if (body) {
+          for (const child of body.namedChildren) {
+            this.visit(child, ctx, fn, topLevel);
+          }
+        }
+        return;
+      }
+
+      case "expression_statement": {
+        // Module-level `NAME = builder(...)` — same Variable capture as the
+        // JS/TS extractor (settings objects, app/router instances, schemas).
+        // Plain values (`DEBUG = True`, `__version__ = "…"`) aren't captured.
+        if (enclosing !== null) break;
+        const assign = node.namedChildren.find((c) => c.type === "assignment");
+        const left = assign?.childForFieldName("left");
+        const right = assign?.childForFieldName("right");
+        if (assign && left?.type === "identifier" && right?.type === "call") {
+          const name = left.text;
+          const v = ctx.builder.addNode({
+            id: `${ctx.fileNode.id}#var:${name}`,
+            kind: "Variable",
+            name,
+            path: ctx.filePath,
+            language: ctx.language,
+            range: rangeOf(node),
+            signature: signatureOf(node),
+            ...bodyFields(node),
+            builder: fieldText(right, "function"),
+          });
+          ctx.builder.addEdge({
+            kind: "DEFINES",
+            from: ctx.fileNode.id,
+            to: v.id,
+          });
+          topLevel.set(name, v);
+        }
+        break;
+      }
+    }
+
+    for (const child of node.namedChildren) {
+      this.visit(child, ctx, enclosing, topLevel);
+    }
+  }
+
+  private makeClass(node: SyntaxNode, ctx: ExtractContext): GraphNode {
+    const name = fieldText(node, "name") ?? "<anonymous>";
+    const id = `${ctx.fileNode.id}#class:${name}`;
+    return ctx.builder.addNode({
+      id,
+      kind: "Class",
+      name,
+      path: ctx.filePath,
+      language: ctx.language,
+      range: rangeOf(outerOf(node)),
+      signature: signatureOf(node),
+      ...bodyFields(outerOf(node)),
+    });
+  }
+
+  private handleHeritage(
+    node: SyntaxNode,
+    cls: GraphNode,
+    ctx: ExtractContext,
+  ): void {
+    // `class Foo(Base, mixins.Bar, metaclass=Meta)` — keyword args
+    // (metaclass=, total=) aren't bases, skip them.
+    const supers = node.childForFieldName("superclasses");
+    if (!supers) return;
+    for (const s of supers.namedChildren) {
+      if (s.type !== "identifier" && s.type !== "attribute") continue;
+      const symbol = s.text;
+      ctx.builder.addEdge({
+        kind: "EXTENDS",
+        from: cls.id,
+        to: `unresolved:class:${symbol}`,
+        unresolved: symbol,
+      });
+    }
+  }
+
+  private handleClassMember(
+    member: SyntaxNode,
+    cls: GraphNode,
+    ctx: ExtractContext,
+    topLevel: Map<string, GraphNode>,
+    scope: ClassScope,
+  ): void {
+    const def =
+      member.type === "decorated_definition"
+        ? member.childForFieldName("definition")
+        : member;
+    if (!def) return;
+
+    switch (def.type) {
+      case "function_definition": {
+        const name = fieldText(def, "name") ?? "<anonymous>";
+        const id = stableId(ctx, `${cls.id}.method:${name}`, member);
+        const m = ctx.builder.addNode({
+          id,
+          kind: "Method",
+          name,
+          path: ctx.filePath,
+          language: ctx.language,
+          range: rangeOf(member),
+          signature: signatureOf(def),
+          ...bodyFields(member),
+        });
+        ctx.builder.addEdge({ kind: "HAS_METHOD", from: cls.id, to: m.id });
+        this.collectCalls(def, m, ctx, scope);
+        // Instance attributes are declared by assignment in __init__.
+        if (name === "__init__") {
+          for (const assign of def.descendantsOfType("assignment")) {
+            const left = assign.childForFieldName("left");
+            if (
+              left?.type === "attribute" &&
+              left.childForFieldName("object")?.text === "self"
+            ) {
+              const attr = fieldText(left, "attribute");
+              if (attr) this.addProperty(attr, assign, cls, ctx);
+            }
+          }
+        }
+        return;
+      }
+      case "expression_statement": {
+        // Class-level attributes: `x: int = 1`, `x = 1`, dataclass fields.
+        const assign = def.namedChildren.find((c) => c.type === "assignment");
+        const left = assign?.childForFieldName("left");
+        if (assign && left?.type === "identifier") {
+          this.addProperty(left.text, def, cls, ctx);
+        }
+        return;
+      }
+      // Nested classes – recurse so they get DEFINED on the file.
+      case "class_definition":
+        this.visit(def, ctx, cls, topLevel);
+        return;
+    }
+  }
+
+  private addProperty(
+    name: string,
+    node: SyntaxNode,
+    cls: GraphNode,
+    ctx: ExtractContext,
+  ): void {
+    const id = `${cls.id}.prop:${name}`;
+    const p = ctx.builder.addNode({
+      id,
+      kind: "Property",
+      name,
+      path: ctx.filePath,
+      language: ctx.language,
+      range: rangeOf(node),
+      signature: signatureOf(node),
+      ...bodyFields(node),
+    });
+    ctx.builder.addEdge({ kind: "HAS_PROPERTY", from: cls.id, to: p.id });
+  }
+
+  private collectCalls(
+    node: SyntaxNode,
+    enclosing: GraphNode,
+    ctx: ExtractContext,
+    scope?: ClassScope,
+  ): void {
+    // Stop at nested defs/classes — they produce their own scope.
+    const inScope: SyntaxNode[] = [];
+    const stack: SyntaxNode[] = [node];
+    while (stack.length) {
+      const n = stack.pop()!;
+      if (
+        n !== node &&
+        (n.type === "function_definition" || n.type === "class_definition")
+      ) {
+        continue;
+      }
+      inScope.push(n);
+      for (const c of n.namedChildren) stack.push(c);
+    }
+
+    const locals = paramTypes(node);
+    for (const n of inScope) {
+      if (n.type !== "assignment") continue;
+      const left = n.childForFieldName("left");
+      const type =
+        pyTypeName(n.childForFieldName("type")) ??
+        constructedTypeOf(n.childForFieldName("right"));
+      if (left?.type === "identifier" && type) {
+        locals.set(left.text, { type, via: "local" });
+      }
+    }
+
+    for (const n of inScope) {
+      if (n.type !== "call") continue;
+      const fn = n.childForFieldName("function");
+      const symbol = fn ? calleeName(fn) : null;
+      if (!symbol) continue;
+      addCallEdge(
+        ctx,
+        enclosing.id,
+        symbol,
+        fn?.type === "attribute"
+          ? receiverOf(fn.childForFieldName("object"), locals, scope)
+          : null,
+      );
+    }
+  }
+}
+
+/** Receiver types visible inside a class body: the class itself and its attributes. */
+interface ClassScope {
+  name: string;
+  fields: Map<string, string>;
+}
+
+/**
+ * Attribute types from class-level annotations (`repo: Repo`) and
+ * `self.x = Foo()` / `self.x: Foo = …` / `self.x = typed_param`
+ * assignments in the class's methods. Annotations win.
+ */
+function classScopeOf(name: string, body: SyntaxNode): ClassScope {
+  const fields = new Map<string, string>();
+  for (const stmt of body.namedChildren) {
+    if (stmt.type !== "expression_statement") continue;
+    const assign = stmt.namedChildren.find((c) => c.type === "assignment");
+    const left = assign?.childForFieldName("left");
+    const type = assign
+      ? (pyTypeName(assign.childForFieldName("type")) ??
+        constructedTypeOf(assign.childForFieldName("right")))
+      : null;
+    if (left?.type === "identifier" && type) fields.set(left.text, type);
+  }
+  for (const def of body.descendantsOfType("function_definition")) {
+    const params = paramTypes(def);
+    for (const assign of def.descendantsOfType("assignment")) {
+      const left = assign.childForFieldName("left");
+      if (
+        left?.type !== "attribute" ||
+        left.childForFieldName("object")?.text !== "self"
+      ) {
+        continue;
+      }
+      const attr = fieldText(left, "attribute");
+      const right = assign.childForFieldName("right");
+      const type =
+        pyTypeName(assign.childForFieldName("type")) ??
+        constructedTypeOf(right) ??
+        (right?.type === "identifier" ? params.get(right.text)?.type : null);
+      if (attr && type && !fields.has(attr)) fields.set(attr, type);
+    }
+  }
+  return { name, fields };
+}
+
+/** Annotated parameters of a def (`repo: Repo`, `cache: Cache = None`). */
+function paramTypes(def: SyntaxNode): Map<string, ReceiverHint> {
+  const out = new Map<string, ReceiverHint>();
+  for (const p of def.childForFieldName("parameters")?.namedChildren ?? []) {
+    const name =
+      p.type === "typed_parameter"
+        ? p.namedChildren.find((c) => c.type === "identifier")?.text
+        : p.type === "typed_default_parameter"
+          ? fieldText(p, "name")
+          : undefined;
+    const type = pyTypeName(p.childForFieldName("type"));
+    if (name && type) out.set(name, { type, via: "param" });
+  }
+  return out;
+}
+
+/** `self` / `cls` / `self.attr` / a typed param or local → the receiver's type. */
+function receiverOf(
+  obj: SyntaxNode | null,
+  locals: Map<string, ReceiverHint>,
+  scope: ClassScope | undefined,
+): ReceiverHint | null {
+  if (!obj) return null;
+  if (obj.type === "identifier") {
+    if (scope && (obj.text === "self" || obj.text === "cls")) {
+      return { type: scope.name, via: "this" };
+    }
+    return locals.get(obj.text) ?? null;
+  }
+  if (
+    obj.type === "attribute" &&
+    obj.childForFieldName("object")?.text === "self"
+  ) {
+    const attr = fieldText(obj, "attribute");
+    const type = attr ? scope?.fields.get(attr) : undefined;
+    return type ? { type, via: "field" } : null;
+  }
+  return null;
+}
+
+/**
+ * Class name from an annotation: `Foo`, `mod.Foo`, `"Foo"` (forward
+ * reference) and `Optional[Foo]` → "Foo"; `List[Foo]` → "List".
+ */
+function pyTypeName(t: SyntaxNode | null): string | null {
+  switch (t?.type) {
+    case "type":
+      return pyTypeName(t.namedChildren[0] ?? null);
+    case "identifier":
+      return t.text;
+    case "attribute":
+      return fieldText(t, "attribute") ?? null;
+    case "string": {
+      const content = t.namedChildren.find((c) => c.type === "string_content");
+      return content && /^[A-Za-z_][\w.]*$/.test(content.text)
+        ? content.text.split(".").pop()!
+        : null;
+    }
+    case "generic_type": {
+      const base = t.namedChildren[0];
+      if (base?.text === "Optional") {
+        return pyTypeName(
+          t.namedChildren[1]?.namedChildren.find((c) => c.type === "type") ??
+            null,
+        );
+      }
+      return pyTypeName(base ?? null);
+    }
+    default:
+      return null;
+  }
+}
+
+/** `Foo(...)` / `mod.Foo(...)` → "Foo". Only CapWords callees count as classes. */
+function constructedTypeOf(value: SyntaxNode | null): string | null {
+  if (value?.type !== "call") return null;
+  const fn = value.childForFieldName("function");
+  const name = fn ? calleeName(fn) : null;
+  return name && /^[A-Z]/.test(name) ? name : null;
+}
+
+/** `foo()` → foo, `self.repo.save()` → save. Other callee shapes are skipped. */
+function calleeName(fn: SyntaxNode): string | null {
+  switch (fn.type) {
+    case "identifier":
+      return fn.text;
+    case "attribute":
+      return fieldText(fn, "attribute") ?? null;
+    default:
+      return null;
+  }
+}
+
+/** Decorated defs span from the first `@` — use the wrapper for range/body. */
+function outerOf(node: SyntaxNode): SyntaxNode {
+  return node.parent?.type === "decorated_definition" ? node.parent : node;
+}
+
+/**
+ * Names listed in a module-level `__all__ = [...]` / `(...)` literal, or null
+ * when the module doesn't declare one (or builds it dynamically).
+ */
+function dunderAll(root: SyntaxNode): Set<string> | null {
+  for (const stmt of root.namedChildren) {
+    if (stmt.type !== "expression_statement") continue;
+    const assign = stmt.namedChildren.find((c) => c.type === "assignment");
+    if (assign?.childForFieldName("left")?.text !== "__all__") continue;
+    const right = assign.childForFieldName("right");
+    if (!right || (right.type !== "list" && right.type !== "tuple")) return null;
+    const names = new Set<string>();
+    for (const s of right.namedChildren) {
+      if (s.type !== "string") return null;
+      const content = s.namedChildren.find((c) => c.type === "string_content");
+      if (content) names.add(content.text);
+    }
+    return names;
+  }
+  return null;
+}
@@ -1,4 +1,7 @@
+import path from "path";
 import neo4j, { Driver, ManagedTransaction } from "neo4j-driver";
+import type { GraphNode } from "../util/graph";
+import { chunk } from "./neo4j";
 
 /**
  * Neo4j helpers used by the incremental indexer:
@@ -26,38 +29,63 @@ function sessionConfig(ctx: IncrementalCtx) {
   return ctx.database ? { database: ctx.database } : {};
 }
 
+/**
+ * A repository as the helpers below see it: where it is checked out here
+ * (callers work with absolute paths) and the identifier its graph is stored
+ * under (ids and `path`s in Neo4j are repo-relative).
+ */
+export interface RepoRef {
+  root: string;
+  id: string;
+}
+
+/** Stored `path` of an absolute path inside the repo. */
+function storedPath(repo: RepoRef, absPath: string): string {
+  return path.relative(repo.root, absPath).split(path.sep).join("/");
+}
+
+/** Stored id of a File — the `file:<repo id>:<relative path>` keyOnRepository writes. */
+function fileIdOf(repo: RepoRef, absPath: string): string {
+  return `file:${repo.id}:${storedPath(repo, absPath)}`;
+}
+
 export interface RepositoryMeta {
-  path: string;
   lastCommit: string | null;
   sourceUrl: string | null;
   indexedAt: string | null;
+  /** ID_SCHEME the stored ids were built with; 1 for graphs predating it. */
+  idScheme: number;
 }
 
 /**
- * Read repository-level metadata from the `:Repository` node for a given
- * absolute path. Returns null if no Repository node exists yet (cold cache).
+ * Read repository-level metadata from the repo's `:Repository` node. Graphs
+ * stored before ID_SCHEME 3 keyed it on the checkout's absolute path, so
+ * that is matched too. Returns null if no Repository node exists yet (cold
+ * cache).
  */
 export async function getRepositoryMeta(
   ctx: IncrementalCtx,
-  repoPath: string,
+  repo: RepoRef,
 ): Promise<RepositoryMeta | null> {
   const driver = makeDriver(ctx);
   const session = driver.session(sessionConfig(ctx));
   try {
     const res = await session.run(
-      `MATCH (r:Repository { path: $path })
-       RETURN r.path AS path, r.lastCommit AS lastCommit,
-              r.sourceUrl AS sourceUrl, r.lastIndexed AS indexedAt
+      `MATCH (r:Repository)
+       WHERE r.id = $id OR r.path = $root
+       RETURN r.lastCommit AS lastCommit,
+              r.sourceUrl AS sourceUrl, r.lastIndexed AS indexedAt,
+              r.idScheme AS idScheme
        LIMIT 1`,
-      { path: repoPath },
+      { id: `repo:${repo.id}`, root: repo.root },
     );
     if (res.records.length === 0) return null;
     const r = res.records[0];
     return {
-      path: r.get("path"),
       lastCommit: r.get("lastCommit") ?? null,
       sourceUrl: r.get("sourceUrl") ?? null,
       indexedAt: r.get("indexedAt") ?? null,
+      idScheme: countOf(r.get("idScheme") ?? 1),
     };
   } finally {
     await session.close();
@@ -68,7 +96,7 @@ export async function getRepositoryMeta(
 /** Stamp commit/url/indexedAt on the :Repository node. */
 export async function setRepositoryMeta(
   ctx: IncrementalCtx,
-  repoPath: string,
+  repo: RepoRef,
   meta: { lastCommit?: string | null; sourceUrl?: string | null; indexedAt: string },
 ): Promise<void> {
   const driver = makeDriver(ctx);
@@ -76,7 +104,7 @@ export async function setRepositoryMeta(
   try {
     await session.executeWrite((tx: ManagedTransaction) =>
       tx.run(
-        `MATCH (r:Repository { path: $path })
+        `MATCH (r:Repository { id: $id })
          SET r.lastIndexed = $indexedAt
          FOREACH (_ IN CASE WHEN $lastCommit IS NULL THEN [] ELSE [1] END |
            SET r.lastCommit = $lastCommit
@@ -85,7 +113,7 @@ export async function setRepositoryMeta(
            SET r.sourceUrl = $sourceUrl
          )`,
         {
-          path: repoPath,
+          id: `repo:${repo.id}`,
           indexedAt: meta.indexedAt,
           lastCommit: meta.lastCommit ?? null,
           sourceUrl: meta.sourceUrl ?? null,
@@ -104,20 +132,20 @@ export async function setRepositoryMeta(
  */
 export async function getFileHashes(
   ctx: IncrementalCtx,
-  repoPath: string,
+  repo: RepoRef,
 ): Promise<Map<string, string>> {
   const driver = makeDriver(ctx);
   const session = driver.session(sessionConfig(ctx));
   try {
     const res = await session.run(
       `MATCH (f:File)
-       WHERE f.path STARTS WITH $prefix AND f.contentHash IS NOT NULL
+       WHERE f.id STARTS WITH $prefix AND f.contentHash IS NOT NULL
        RETURN f.path AS path, f.contentHash AS hash`,
-      { prefix: repoPath },
+      { prefix: `file:${repo.id}:` },
     );
     const m = new Map<string, string>();
     for (const r of res.records) {
-      m.set(r.get("path"), r.get("hash"));
+      m.set(path.join(repo.root, r.get("path")), r.get("hash"));
     }
     return m;
   } finally {
@@ -127,14 +155,16 @@ export async function getFileHashes(
 }
 
 /**
- * Compute the dependents cascade: for each path in `paths`, collect file
- * paths that either import the file or have CALLS into its symbols.
+ * Compute the dependents cascade: for each absolute path in `paths`, collect
+ * the absolute paths of files that either import the file or have CALLS into
+ * its symbols.
  *
  * Returns the union of all dependents (deduped). The originating paths are
  * NOT included — caller unions them itself.
  */
 export async function getDependents(
   ctx: IncrementalCtx,
+  repo: RepoRef,
   paths: string[],
 ): Promise<Set<string>> {
   if (paths.length === 0) return new Set();
@@ -142,17 +172,17 @@ export async function getDependents(
   const session = driver.session(sessionConfig(ctx));
   try {
     const res = await session.run(
-      `UNWIND $paths AS p
-       MATCH (f:File { path: p })
+      `UNWIND $ids AS fid
+       MATCH (f:File { id: fid })
        OPTIONAL MATCH (importer:File)-[:IMPORTS]->(f)
        OPTIONAL MATCH (caller:File)-[:DEFINES]->()-[:CALLS]->()<-[:DEFINES]-(f)
-       WITH coalesce(importer.path, caller.path) AS dep, p
-       WHERE dep IS NOT NULL AND dep <> p
-       RETURN DISTINCT dep`,
-      { paths },
+       WITH coalesce(importer, caller) AS dep, f
+       WHERE dep IS NOT NULL AND dep <> f
+       RETURN DISTINCT dep.path AS dep`,
+      { ids: paths.map((p) => fileIdOf(repo, p)) },
     );
     const out = new Set<string>();
-    for (const r of res.records) out.add(r.get("dep"));
+    for (const r of res.records) out.add(path.join(repo.root, r.get("dep")));
     // Don't include the originating paths in the cascade.
     for (const p of paths) out.delete(p);
     return out;
@@ -169,6 +199,7 @@ export async function getDependents(
  */
 export async function deleteFilesByPath(
   ctx: IncrementalCtx,
+  repo: RepoRef,
   paths: string[],
 ): Promise<{ deletedNodes: number }> {
   if (paths.length === 0) return { deletedNodes: 0 };
@@ -177,23 +208,125 @@ export async function deleteFilesByPath(
   try {
     const res = await session.executeWrite((tx: ManagedTransaction) =>
       tx.run(
-        `UNWIND $paths AS p
-         MATCH (f:File { path: p })
+        `UNWIND $ids AS fid
+         MATCH (f:File { id: fid })
          OPTIONAL MATCH (f)-[:DEFINES*1..]->(sym)
          WITH f, collect(DISTINCT sym) AS syms
          FOREACH (s IN syms | DETACH DELETE s)
          DETACH DELETE f
          RETURN count(*) AS n`,
-        { paths },
+        { ids: paths.map((p) => fileIdOf(repo, p)) },
       ),
     );
-    const n = res.records[0]?.get("n");
-    const num = typeof n === "object" && n !== null && "low" in (n as object)
-      ? (n as { low: number }).low
-      : Number(n ?? 0);
-    return { deletedNodes: num };
+    return { deletedNodes: countOf(res.records[0]?.get("n")) };
+  } finally {
+    await session.close();
+    await driver.close();
+  }
+}
+
+/** Rows per transaction when migrating ids. */
+const MIGRATE_BATCH = 5000;
+
+/**
+ * Move a graph stored under an older ID_SCHEME onto the ids in `nodes` (a
+ * fresh extraction of the whole repo) in place, so what was attached to the
+ * nodes after indexing — embeddings, pagerank, community membership —
+ * survives. Old and new nodes are paired by kind, name, start row and
+ * `path` — the new one resolved against the checkout root for schemes that
+ * stored absolute paths, as is for the repo's own nodes otherwise — only an
+ * edit to the file itself changes those. Paired nodes take the new id and
+ * `path`. The repo's nodes are those under the checkout root or stamped
+ * with its `repo`. Relationships leaving them are dropped (their ids embed
+ * the old node ids) except IN_COMMUNITY, and those with no counterpart —
+ * old repo-wide Route ids among them — are deleted; the caller then pushes
+ * the fresh graph to recreate the edges.
+ *
+ * Sized for whole large repos: pairing seeks a `(path, name)` index, every
+ * step runs in batches, and the nodes to keep are marked (`migrationOf`)
+ * rather than checked against a list of every id.
+ */
+export async function migrateNodeIds(
+  ctx: IncrementalCtx,
+  repo: RepoRef,
+  nodes: GraphNode[],
+): Promise<{ remapped: number; deleted: number }> {
+  const rows = nodes
+    .filter((n) => n.path !== undefined || n.kind === "Repository")
+    .map((n) => ({
+      id: n.id,
+      kind: n.kind,
+      oldPath: n.path !== undefined ? path.join(repo.root, n.path) : repo.root,
+      path: n.path ?? null,
+      name: n.name,
+      startRow: n.range?.start.row ?? -1,
+    }));
+  const driver = makeDriver(ctx);
+  const session = driver.session(sessionConfig(ctx));
+  try {
+    await session.run(
+      `CREATE INDEX code_node_path_name IF NOT EXISTS
+         FOR (n:CodeNode) ON (n.path, n.name)`,
+    );
+    await session.run(`CALL db.awaitIndexes(600)`);
+    // Auto-commit: CALL … IN TRANSACTIONS can't run in a managed transaction.
+    await session.run(
+      `MATCH (a:CodeNode)-[r]->()
+       WHERE (a.repo = $repo OR a.path = $root OR a.path STARTS WITH $root + '/')
+         AND type(r) <> 'IN_COMMUNITY'
+       CALL { WITH r DELETE r } IN TRANSACTIONS OF 10000 ROWS`,
+      { repo: repo.id, root: repo.root },
+    );
+    let remapped = 0;
+    for (const batch of chunk(rows, MIGRATE_BATCH)) {
+      const res = await session.executeWrite((tx: ManagedTransaction) =>
+        tx.run(
+          `UNWIND $rows AS row
+           UNWIND [row.oldPath, row.path] AS p
+           MATCH (n:CodeNode { path: p, name: row.name })
+           WHERE (p = row.oldPath OR n.repo = $repo)
+             AND row.kind IN labels(n) AND coalesce(n.startRow, -1) = row.startRow
+             AND NOT EXISTS { MATCH (:CodeNode { id: row.id }) }
+           SET n.id = row.id, n.path = row.path
+           RETURN count(n) AS n`,
+          { rows: batch, repo: repo.id },
+        ),
+      );
+      remapped += countOf(res.records[0]?.get("n"));
+    }
+    for (const ids of chunk(nodes.map((n) => n.id), MIGRATE_BATCH)) {
+      await session.executeWrite((tx: ManagedTransaction) =>
+        tx.run(
+          `UNWIND $ids AS id
+           MATCH (n:CodeNode { id: id })
+           SET n.migrationOf = $repo`,
+          { ids, repo: repo.id },
+        ),
+      );
+    }
+    const deleted = await session.run(
+      `MATCH (n:CodeNode)
+       WHERE (n.repo = $repo OR n.path = $root OR n.path STARTS WITH $root + '/')
+         AND n.migrationOf IS NULL
+       CALL { WITH n DETACH DELETE n } IN TRANSACTIONS OF 10000 ROWS
+       RETURN count(*) AS n`,
+      { repo: repo.id, root: repo.root },
+    );
+    await session.run(
+      `MATCH (n:CodeNode { migrationOf: $repo })
+       CALL { WITH n REMOVE n.migrationOf } IN TRANSACTIONS OF 10000 ROWS`,
+      { repo: repo.id },
+    );
+    return { remapped, deleted: countOf(deleted.records[0]?.get("n")) };
   } finally {
     await session.close();
     await driver.close();
   }
 }
+
+/** Neo4j integers arrive as `{ low, high }`; plain numbers pass through. */
+function countOf(n: unknown): number {
+  return typeof n === "object" && n !== null && "low" in n
+    ? (n as { low: number }).low
+    : Number(n ?? 0);
+}
@@ -1,4 +1,5 @@
-import neo4j, { Driver, ManagedTransaction } from "neo4j-driver";
+import crypto from "crypto";
+import neo4j, { Driver, ManagedTransaction, Session } from "neo4j-driver";
 import type { CodeGraph, GraphEdge, GraphNode } from "../util/graph";
 
 export interface Neo4jOptions {
@@ -6,7 +7,10 @@ export interface Neo4jOptions {
   user: string;
   password: string;
   database?: string;
-  /** Wipe the target DB before indexing (DETACH DELETE everything). */
+  /**
+   * Wipe the graph's repository before indexing (DETACH DELETE its nodes);
+   * other repositories in the database are left alone.
+   */
   clear?: boolean;
   /** How many nodes/edges to push per UNWIND batch. */
   batchSize?: number;
@@ -24,6 +28,10 @@ export interface Neo4jOptions {
  *     (`CONTAINS`, `DEFINES`, `HAS_METHOD`, …).
  *   - Writes happen in batched `UNWIND` calls inside a single transaction per batch,
  *     so a moderately sized repo indexes in a few seconds.
+ *   - Several repositories can share a database: nodes carry `repo`, `clear`
+ *     only removes this graph's repository, and after every push
+ *     dependencies on packages another indexed repository publishes are
+ *     re-pointed at it (linkRepositories).
  */
 export async function indexToNeo4j(
   graph: CodeGraph,
@@ -38,137 +46,511 @@ export async function indexToNeo4j(
 
   let nodesWritten = 0;
   let edgesWritten = 0;
+  const repo = graph.nodes.find((n) => n.kind === "Repository")?.repo;
 
   try {
     // 1. Schema: uniqueness constraint + full-text index on CodeNode.
     {
+      const session = driver.session(sessionConfig);
+      try {
+        await ensureSchema(session);
+        if (opts.clear) await clearRepository(session, repo ?? null);
+      } finally {
+        await session.close();
+      }
+    }
+
+    // 2. Nodes, then 3. edges — edges to ids that aren't nodes of the graph
+    //    end at `:Unresolved` placeholders.
+    nodesWritten = await writeNodes(driver, sessionConfig, graph.nodes, batchSize);
+    const validIds = new Set(graph.nodes.map((n) => n.id));
+    edgesWritten = await writeEdges(
+      driver,
+      sessionConfig,
+      graph.edges.filter((e) => !(opts.skipUnresolved && e.unresolved)),
+      (id) => validIds.has(id),
+      batchSize,
+    );
+
+    // 4. Cross-repository links, in both directions: this graph's
+    //    dependencies on already-indexed repos, and theirs on this one.
+    {
+      const session = driver.session(sessionConfig);
+      try {
+        await linkRepositories(session);
+      } finally {
+        await session.close();
+      }
+    }
+  } finally {
+    await driver.close();
+  }
+
+  return { nodesWritten, edgesWritten };
+}
+
+/**
+ * Streaming counterpart of indexToNeo4j, fed by analyzeRepository's
+ * `onBatch` so no more than a batch of bodies is ever in memory. Batches
+ * are written as they arrive (edges to ids not written yet end at
+ * `:Unresolved` placeholders) and only a fingerprint of each written node
+ * and edge is kept. `finish` takes the resolved graph — which no longer
+ * carries bodies — and writes the difference: nodes and edges the resolve
+ * passes added or changed, minus the edges they replaced. Placeholder edges
+ * whose target was written by a later batch are then re-pointed in Cypher.
+ */
+export class Neo4jStream {
+  private readonly sessionConfig: { database?: string };
+  private readonly batchSize: number;
+  /** Written node id → fingerprint of its stored properties, body aside. */
+  private readonly nodes = new Map<string, string>();
+  /** Written edge id → its source and fingerprint. */
+  private readonly edges = new Map<string, { from: string; fingerprint: string }>();
+  private nodesWritten = 0;
+  private edgesWritten = 0;
+
+  private constructor(
+    private readonly driver: Driver,
+    private readonly opts: Neo4jOptions,
+    private readonly repo: string,
+  ) {
+    this.sessionConfig = opts.database ? { database: opts.database } : {};
+    this.batchSize = opts.batchSize ?? 500;
+  }
+
+  /** Connect, set up the schema, and clear `repo` first if `opts.clear`. */
+  static async open(opts: Neo4jOptions, repo: string): Promise<Neo4jStream> {
+    const driver = neo4j.driver(
+      opts.uri,
+      neo4j.auth.basic(opts.user, opts.password),
+    );
+    const stream = new Neo4jStream(driver, opts, repo);
+    try {
+      const session = driver.session(stream.sessionConfig);
+      try {
+        await ensureSchema(session);
+        if (opts.clear) await clearRepository(session, repo);
+      } finally {
+        await session.close();
+      }
+    } catch (err) {
+      await driver.close();
+      throw err;
+    }
+    return stream;
+  }
+
+  async write(batch: { nodes: GraphNode[]; edges: GraphEdge[] }): Promise<void> {
+    this.nodesWritten += await writeNodes(
+      this.driver,
+      this.sessionConfig,
+      batch.nodes,
+      this.batchSize,
+    );
+    for (const n of batch.nodes) this.nodes.set(n.id, nodeFingerprint(n));
+
+    const edges = batch.edges.filter(
+      (e) => !(this.opts.skipUnresolved && e.unresolved),
+    );
+    this.edgesWritten += await writeEdges(
+      this.driver,
+      this.sessionConfig,
+      edges,
+      (id) => this.nodes.has(id),
+      this.batchSize,
+    );
+    for (const e of edges) {
+      this.edges.set(e.id, { from: e.from, fingerprint: edgeFingerprint(e) });
+    }
+  }
+
+  /** Reconcile the store with the resolved `graph`, then link repositories. */
+  async finish(
+    graph: CodeGraph,
+  ): Promise<{ nodesWritten: number; edgesWritten: number }> {
+    const nodes = graph.nodes.filter(
+      (n) => this.nodes.get(n.id) !== nodeFingerprint(n),
+    );
+    this.nodesWritten += await writeNodes(
+      this.driver,
+      this.sessionConfig,
+      nodes,
+      this.batchSize,
+    );
+
+    const edges = graph.edges.filter(
+      (e) => !(this.opts.skipUnresolved && e.unresolved),
+    );
+    const kept = new Set(edges.map((e) => e.id));
+    const dropped = [...this.edges]
+      .filter(([id]) => !kept.has(id))
+      .map(([id, { from }]) => ({ id, from }));
+    await deleteEdges(this.driver, this.sessionConfig, dropped, this.batchSize);
+
+    const validIds = new Set(graph.nodes.map((n) => n.id));
+    this.edgesWritten += await writeEdges(
+      this.driver,
+      this.sessionConfig,
+      edges.filter((e) => this.edges.get(e.id)?.fingerprint !== edgeFingerprint(e)),
+      (id) => validIds.has(id),
+      this.batchSize,
+      true,
+    );
+
+    const session = this.driver.session(this.sessionConfig);
+    try {
+      await repointPlaceholders(session, this.repo);
+      await linkRepositories(session);
+    } finally {
+      await session.close();
+    }
+    return { nodesWritten: this.nodesWritten, edgesWritten: this.edgesWritten };
+  }
+
+  async close(): Promise<void> {
+    await this.driver.close();
+  }
+}
+
+/** Uniqueness constraint, full-text index and `repo` index on CodeNode. */
+async function ensureSchema(session: Session): Promise<void> {
+  await session.executeWrite((tx: ManagedTransaction) =>
+    tx.run(
+      `CREATE CONSTRAINT code_node_id IF NOT EXISTS
+         FOR (n:CodeNode) REQUIRE n.id IS UNIQUE`,
+    ),
+  );
+  // Full-text index for keyword search across name/signature/body/path
+  // and doc comments. Uses `whitespace` analyzer — no stemming,
+  // preserves identifiers. `IF NOT EXISTS` won't add a property to an
+  // index created by an older version, so drop one that lacks `doc`.
+  const existing = await session.run(
+    `SHOW FULLTEXT INDEXES YIELD name, properties
+     WHERE name = 'code_fts'
+     RETURN properties`,
+  );
+  const props = existing.records[0]?.get("properties") as
+    | string[]
+    | undefined;
+  if (props && !props.includes("doc")) {
+    await session.executeWrite((tx: ManagedTransaction) =>
+      tx.run(`DROP INDEX code_fts`),
+    );
+  }
+  await session.executeWrite((tx: ManagedTransaction) =>
+    tx.run(
+      `CREATE FULLTEXT INDEX code_fts IF NOT EXISTS
+         FOR (n:CodeNode)
+         ON EACH [n.name, n.signature, n.body, n.path, n.doc]
+         OPTIONS { indexConfig: { \`fulltext.analyzer\`: 'whitespace' } }`,
+    ),
+  );
+  await session.executeWrite((tx: ManagedTransaction) =>
+    tx.run(
+      `CREATE INDEX code_node_repo IF NOT EXISTS
+         FOR (n:CodeNode) ON (n.repo)`,
+    ),
+  );
+}
+
+/**
+ * MERGE nodes by id, grouped by kind so each gets both labels
+ * (`:CodeNode:<Kind>`). Properties are added to, never cleared.
+ */
+async function writeNodes(
+  driver: Driver,
+  sessionConfig: { database?: string },
+  nodes: GraphNode[],
+  batchSize: number,
+): Promise<number> {
+  const nodesByKind = new Map<string, GraphNode[]>();
+  for (const n of nodes) {
+    const arr = nodesByKind.get(n.kind) ?? [];
+    arr.push(n);
+    nodesByKind.set(n.kind, arr);
+  }
+
+  let written = 0;
+  for (const [kind, nodes] of nodesByKind) {
+    for (const batch of chunk(nodes, batchSize)) {
       const session = driver.session(sessionConfig);
       try {
         await session.executeWrite((tx: ManagedTransaction) =>
           tx.run(
-            `CREATE CONSTRAINT code_node_id IF NOT EXISTS
-               FOR (n:CodeNode) REQUIRE n.id IS UNIQUE`,
+            `UNWIND $rows AS row
+             MERGE (n:CodeNode { id: row.id })
+             SET n += row.props
+             SET n:\`${kind}\``,
+            { rows: batch.map(nodeToRow) },
           ),
         );
-        // Full-text index for keyword search across name/signature/body/path.
-        // Uses `whitespace` analyzer — no stemming, preserves identifiers.
+        written += batch.length;
+      } finally {
+        await session.close();
+      }
+    }
+  }
+  return written;
+}
+
+/**
+ * MERGE edges by id — one query per kind because rel-type can't be
+ * parameterised. Edges whose target `isNode` rejects get a placeholder
+ * `:Unresolved` target, MERGEd on the fly. `replace` overwrites the
+ * properties of an existing edge instead of adding to them.
+ */
+async function writeEdges(
+  driver: Driver,
+  sessionConfig: { database?: string },
+  edges: GraphEdge[],
+  isNode: (id: string) => boolean,
+  batchSize: number,
+  replace = false,
+): Promise<number> {
+  const edgesByKind = new Map<string, GraphEdge[]>();
+  for (const e of edges) {
+    const arr = edgesByKind.get(e.kind) ?? [];
+    arr.push(e);
+    edgesByKind.set(e.kind, arr);
+  }
+  const set = replace ? "SET r = row.props, r.id = row.id" : "SET r += row.props";
+
+  let written = 0;
+  for (const [kind, edges] of edgesByKind) {
+    // Split edges into "both endpoints known" vs "synthetic unresolved target".
+    const resolved = edges.filter((e) => isNode(e.to));
+    const unresolved = edges.filter((e) => !isNode(e.to));
+
+    for (const batch of chunk(resolved, batchSize)) {
+      const session = driver.session(sessionConfig);
+      try {
         await session.executeWrite((tx: ManagedTransaction) =>
           tx.run(
-            `CREATE FULLTEXT INDEX code_fts IF NOT EXISTS
-               FOR (n:CodeNode)
-               ON EACH [n.name, n.signature, n.body, n.path]
-               OPTIONS { indexConfig: { \`fulltext.analyzer\`: 'whitespace' } }`,
+            `UNWIND $rows AS row
+             MATCH (a:CodeNode { id: row.from })
+             MATCH (b:CodeNode { id: row.to })
+             MERGE (a)-[r:\`${kind}\` { id: row.id }]->(b)
+             ${set}`,
+            { rows: batch.map(edgeToRow) },
           ),
         );
-        if (opts.clear) {
-          await session.executeWrite((tx: ManagedTransaction) =>
-            tx.run(`MATCH (n:CodeNode) DETACH DELETE n`),
-          );
-        }
+        written += batch.length;
       } finally {
         await session.close();
       }
     }
 
-    // 2. Nodes — group by kind so we can apply both labels (`:CodeNode:<Kind>`).
-    const nodesByKind = new Map<string, GraphNode[]>();
-    for (const n of graph.nodes) {
-      const arr = nodesByKind.get(n.kind) ?? [];
-      arr.push(n);
-      nodesByKind.set(n.kind, arr);
+    for (const batch of chunk(unresolved, batchSize)) {
+      const session = driver.session(sessionConfig);
+      try {
+        await session.executeWrite((tx: ManagedTransaction) =>
+          tx.run(
+            `UNWIND $rows AS row
+             MATCH (a:CodeNode { id: row.from })
+             MERGE (b:Unresolved { id: row.to })
+               ON CREATE SET b.symbol = row.symbol
+             MERGE (a)-[r:\`${kind}\` { id: row.id }]->(b)
+             ${set}`,
+            { rows: batch.map(edgeToRow) },
+          ),
+        );
+        written += batch.length;
+      } finally {
+        await session.close();
+      }
     }
+  }
+  return written;
+}
 
-    for (const [kind, nodes] of nodesByKind) {
-      for (const batch of chunk(nodes, batchSize)) {
-        const session = driver.session(sessionConfig);
-        try {
-          await session.executeWrite((tx: ManagedTransaction) =>
-            tx.run(
-              `UNWIND $rows AS row
-               MERGE (n:CodeNode { id: row.id })
-               SET n += row.props
-               SET n:\`${kind}\``,
-              { rows: batch.map(nodeToRow) },
-            ),
-          );
-          nodesWritten += batch.length;
-        } finally {
-          await session.close();
-        }
+/** Delete edges by id; the kind is the id's prefix (`CALLS:<from>-><to>`). */
+async function deleteEdges(
+  driver: Driver,
+  sessionConfig: { database?: string },
+  edges: { id: string; from: string }[],
+  batchSize: number,
+): Promise<void> {
+  const byKind = new Map<string, { id: string; from: string }[]>();
+  for (const e of edges) {
+    const kind = e.id.slice(0, e.id.indexOf(":"));
+    const arr = byKind.get(kind) ?? [];
+    arr.push(e);
+    byKind.set(kind, arr);
+  }
+  for (const [kind, edges] of byKind) {
+    for (const batch of chunk(edges, batchSize)) {
+      const session = driver.session(sessionConfig);
+      try {
+        await session.executeWrite((tx: ManagedTransaction) =>
+          tx.run(
+            `UNWIND $rows AS row
+             MATCH (:CodeNode { id: row.from })-[r:\`${kind}\` { id: row.id }]->()
+             DELETE r`,
+            { rows: batch },
+          ),
+        );
+      } finally {
+        await session.close();
       }
     }
+  }
+}
 
-    // 3. Edges — one MERGE per kind because rel-type can't be parameterised.
-    const validIds = new Set(graph.nodes.map((n) => n.id));
-    const edgesByKind = new Map<string, GraphEdge[]>();
-    for (const e of graph.edges) {
-      if (opts.skipUnresolved && e.unresolved) continue;
-      const arr = edgesByKind.get(e.kind) ?? [];
-      arr.push(e);
-      edgesByKind.set(e.kind, arr);
-    }
+/**
+ * Move `repo`'s edges that end at an `:Unresolved` placeholder onto the
+ * real node of the same id, when one has been written since, then drop
+ * placeholders nothing references any more.
+ */
+async function repointPlaceholders(session: Session, repo: string): Promise<void> {
+  const kinds = await session.run(
+    `MATCH (a:CodeNode { repo: $repo })-[r]->(u:Unresolved)
+     WHERE EXISTS { MATCH (:CodeNode { id: u.id }) }
+     RETURN DISTINCT type(r) AS kind`,
+    { repo },
+  );
+  for (const record of kinds.records) {
+    const kind = record.get("kind") as string;
+    await session.executeWrite((tx: ManagedTransaction) =>
+      tx.run(
+        `MATCH (a:CodeNode { repo: $repo })-[r:\`${kind}\`]->(u:Unresolved)
+         MATCH (b:CodeNode { id: u.id })
+         MERGE (a)-[x:\`${kind}\` { id: r.id }]->(b)
+         SET x += properties(r)
+         DELETE r`,
+        { repo },
+      ),
+    );
+  }
+  await session.executeWrite((tx: ManagedTransaction) =>
+    tx.run(`MATCH (u:Unresolved) WHERE NOT (u)--() DELETE u`),
+  );
+}
 
-    for (const [kind, edges] of edgesByKind) {
-      // Split edges into "both endpoints known" vs "synthetic unresolved target".
-      // For the second group we MERGE a placeholder `:Unresolved` node on the fly.
-      const resolved = edges.filter((e) => validIds.has(e.to));
-      const unresolved = edges.filter((e) => !validIds.has(e.to));
-
-      for (const batch of chunk(resolved, batchSize)) {
-        const session = driver.session(sessionConfig);
-        try {
-          await session.executeWrite((tx: ManagedTransaction) =>
-            tx.run(
-              `UNWIND $rows AS row
-               MATCH (a:CodeNode { id: row.from })
-               MATCH (b:CodeNode { id: row.to })
-               MERGE (a)-[r:\`${kind}\` { id: row.id }]->(b)
-               SET r += row.props`,
-              { rows: batch.map(edgeToRow) },
-            ),
-          );
-          edgesWritten += batch.length;
-        } finally {
-          await session.close();
-        }
-      }
+/** Stored node properties minus `body`: what Neo4jStream compares. */
+function nodeFingerprint(n: GraphNode): string {
+  const row = nodeToRow(n);
+  delete (row.props as Record<string, unknown>).body;
+  return digest(row);
+}
 
-      for (const batch of chunk(unresolved, batchSize)) {
-        const session = driver.session(sessionConfig);
-        try {
-          await session.executeWrite((tx: ManagedTransaction) =>
-            tx.run(
-              `UNWIND $rows AS row
-               MATCH (a:CodeNode { id: row.from })
-               MERGE (b:Unresolved { id: row.to })
-                 ON CREATE SET b.symbol = row.symbol
-               MERGE (a)-[r:\`${kind}\` { id: row.id }]->(b)
-               SET r += row.props`,
-              { rows: batch.map(edgeToRow) },
-            ),
-          );
-          edgesWritten += batch.length;
-        } finally {
-          await session.close();
-        }
-      }
-    }
-  } finally {
-    await driver.close();
+function edgeFingerprint(e: GraphEdge): string {
+  return digest(edgeToRow(e));
+}
+
+function digest(v: unknown): string {
+  return crypto.createHash("sha1").update(JSON.stringify(v)).digest("base64");
+}
+
+/** Edge kinds that can point at another repository's Repository/Package. */
+const CROSS_REPO_KINDS = ["DEPENDS_ON", "IMPORTS"] as const;
+
+/**
+ * Re-point DEPENDS_ON / IMPORTS edges aimed at an ExternalPackage onto the
+ * Repository or Package of another repository that publishes it (its
+ * `meta_publishes` holds `npm:<name>` / `maven:<group>:<artifact>`, the
+ * ExternalPackage id minus `external:`). The moved edge keeps its props and
+ * records the ExternalPackage id in `meta_via`, so clearing the publishing
+ * repository can move it back. Idempotent: a re-push recreates the edge to
+ * the ExternalPackage and the next link moves it again.
+ */
+async function linkRepositories(session: Session): Promise<void> {
+  for (const kind of CROSS_REPO_KINDS) {
+    await session.executeWrite((tx: ManagedTransaction) =>
+      tx.run(
+        `CALL {
+           MATCH (p:Repository) WHERE p.meta_publishes IS NOT NULL RETURN p
+           UNION
+           MATCH (p:Package) WHERE p.meta_publishes IS NOT NULL RETURN p
+         }
+         UNWIND p.meta_publishes AS key
+         MATCH (e:CodeNode { id: 'external:' + key })
+         MATCH (a:CodeNode)-[r:\`${kind}\`]->(e)
+         WHERE a.repo <> p.repo
+         WITH a, r, e, collect(p)[0] AS p
+         MERGE (a)-[x:\`${kind}\` { id: '${kind}:' + a.id + '->' + p.id }]->(p)
+         SET x += properties(r)
+         SET x.id = '${kind}:' + a.id + '->' + p.id, x.meta_via = e.id
+         DELETE r`,
+      ),
+    );
   }
+}
 
-  return { nodesWritten, edgesWritten };
+/**
+ * DETACH DELETE one repository's nodes ahead of a full re-index. Edges other
+ * repositories had re-pointed at it go back to their ExternalPackage first,
+ * and placeholders nothing references any more are dropped. Untagged nodes
+ * (written before nodes carried `repo`) go too; with no Repository in the
+ * graph, everything is wiped.
+ */
+async function clearRepository(
+  session: Session,
+  repo: string | null,
+): Promise<void> {
+  if (repo === null) {
+    await session.executeWrite((tx: ManagedTransaction) =>
+      tx.run(`MATCH (n:CodeNode) DETACH DELETE n`),
+    );
+    return;
+  }
+  for (const kind of CROSS_REPO_KINDS) {
+    await session.executeWrite((tx: ManagedTransaction) =>
+      tx.run(
+        `MATCH (a:CodeNode)-[r:\`${kind}\`]->(p:CodeNode { repo: $repo })
+         WHERE r.meta_via IS NOT NULL AND a.repo <> $repo
+         MATCH (e:CodeNode { id: r.meta_via })
+         MERGE (a)-[x:\`${kind}\` { id: '${kind}:' + a.id + '->' + e.id }]->(e)
+         SET x += properties(r)
+         SET x.id = '${kind}:' + a.id + '->' + e.id
+         REMOVE x.meta_via
+         DELETE r`,
+        { repo },
+      ),
+    );
+  }
+  await session.executeWrite((tx: ManagedTransaction) =>
+    tx.run(
+      `MATCH (n:CodeNode)
+       WHERE n.repo = $repo OR (n.repo IS NULL AND NOT n:ExternalPackage)
+       DETACH DELETE n`,
+      { repo },
+    ),
+  );
+  await session.executeWrite((tx: ManagedTransaction) =>
+    tx.run(`MATCH (u:Unresolved) WHERE NOT (u)--() DELETE u`),
+  );
 }
 
-function nodeToRow(n: GraphNode): Record<string, unknown> {
+/**
+ * A node's stored properties (`{ id, kind, props }`). MemoryStore holds
+ * nodes in the same shape, so tools see identical properties either way.
+ */
+export function nodeToRow(n: GraphNode): Record<string, unknown> {
   const props: Record<string, unknown> = {
     name: n.name,
   };
   if (n.path) props.path = n.path;
+  if (n.repo) props.repo = n.repo;
   if (n.language) props.language = n.language;
   if (n.signature) props.signature = n.signature;
   if (n.body) props.body = n.body;
   if (n.bodyTruncated) props.bodyTruncated = n.bodyTruncated;
+  if (n.doc) {
+    // Flattened: `doc` is the full text (fulltext-indexed and embedded), the
+    // structured parts get their own primitive properties.
+    props.doc = n.doc.text;
+    if (n.doc.summary) props.docSummary = n.doc.summary;
+    if (n.doc.params) {
+      props.docParams = n.doc.params.map((p) =>
+        p.description ? `${p.name}: ${p.description}` : p.name,
+      );
+    }
+    if (n.doc.returns) props.docReturns = n.doc.returns;
+    if (n.doc.deprecated !== undefined) {
+      props.deprecated = true;
+      if (n.doc.deprecated) props.deprecatedReason = n.doc.deprecated;
+    }
+  }
   if (n.httpMethod) props.httpMethod = n.httpMethod;
   if (n.route) props.route = n.route;
   if (n.routerObject) props.routerObject = n.routerObject;
@@ -179,6 +561,7 @@ function nodeToRow(n: GraphNode): Record<string, unknown> {
   if (n.lastIndexed) props.lastIndexed = n.lastIndexed;
   if (n.lastCommit) props.lastCommit = n.lastCommit;
   if (n.sourceUrl) props.sourceUrl = n.sourceUrl;
+  if (n.idScheme) props.idScheme = n.idScheme;
   if (n.range) {
     props.startRow = n.range.start.row;
     props.startColumn = n.range.start.column;
@@ -194,7 +577,8 @@ function nodeToRow(n: GraphNode): Record<string, unknown> {
   return { id: n.id, kind: n.kind, props };
 }
 
-function edgeToRow(e: GraphEdge): Record<string, unknown> {
+/** An edge's stored properties, as nodeToRow for nodes. */
+export function edgeToRow(e: GraphEdge): Record<string, unknown> {
   const props: Record<string, unknown> = {};
   if (e.unresolved) props.unresolved = e.unresolved;
   if (e.meta) {
@@ -219,6 +603,6 @@ function isStorableProp(v: unknown): boolean {
   return false;
 }
 
-function* chunk<T>(arr: T[], size: number): Iterable<T[]> {
+export function* chunk<T>(arr: T[], size: number): Iterable<T[]> {
   for (let i = 0; i < arr.length; i += size) yield arr.slice(i, i + size);
 }
@@ -12,20 +12,51 @@ import { registerGetOverview } from "./tools/get-overview";
 import { registerLabelCommunity } from "./tools/label-community";
 import { registerGenerateWiki } from "./tools/generate-wiki";
 import { registerCypher } from "./tools/cypher";
+import { MemoryStore, Neo4jStore, type GraphStore } from "./store";
 
 export interface McpServerOptions {
-  neo4jUri: string;
-  neo4jUser: string;
-  neo4jPassword: string;
+  /** Neo4j connection; required unless `graphFile` is given. */
+  neo4jUri?: string;
+  neo4jUser?: string;
+  neo4jPassword?: string;
   neo4jDatabase?: string;
+  /** Serve the CodeGraph JSON written by `-o` from memory instead of Neo4j. */
+  graphFile?: string;
+  /** Checkout the graph's repo-relative paths resolve against (read_code). */
+  repoRoot: string;
+  /** Checkouts of specific repositories, by repository id. */
+  repoRoots?: Map<string, string>;
 }
 
 /**
- * Boots a stdio MCP server backed by the project's Neo4j knowledge graph.
- * Designed to be wired into Claude Desktop / Cursor / Codex via their stdio
- * MCP config. Logs go to stderr (stdout is reserved for the protocol).
+ * Boots a stdio MCP server backed by the project's Neo4j knowledge graph, or
+ * by a graph JSON file loaded into memory (`graphFile`), in which case only
+ * the tools a GraphStore can answer are offered. Designed to be wired into
+ * Claude Desktop / Cursor / Codex via their stdio MCP config. Logs go to
+ * stderr (stdout is reserved for the protocol).
  */
 export async function startMcpServer(opts: McpServerOptions): Promise<void> {
+  const server = new McpServer(
+    { name: "code-lens-ai", version: "1.0.0" },
+    { capabilities: { tools: {} } },
+  );
+  const repoRoots = opts.repoRoots ?? new Map<string, string>();
+
+  if (opts.graphFile) {
+    const store = MemoryStore.load(opts.graphFile);
+    registerStoreTools(server, {
+      store,
+      repoRoot: opts.repoRoot,
+      repoRoots,
+    });
+    console.error(`[mcp] serving ${opts.graphFile} from memory`);
+    await serve(server, async () => {});
+    return;
+  }
+
+  if (!opts.neo4jUri || !opts.neo4jUser || !opts.neo4jPassword) {
+    throw new Error("Neo4j credentials are required unless a graph file is given");
+  }
   const driver: Driver = neo4j.driver(
     opts.neo4jUri,
     neo4j.auth.basic(opts.neo4jUser, opts.neo4jPassword),
@@ -48,24 +79,37 @@ export async function startMcpServer(opts: McpServerOptions): Promise<void> {
     );
   }
 
-  const server = new McpServer(
-    { name: "code-lens-ai", version: "1.0.0" },
-    { capabilities: { tools: {} } },
-  );
+  const ctx: Neo4jToolContext = {
+    store: new Neo4jStore(driver, opts.neo4jDatabase),
+    driver,
+    database: opts.neo4jDatabase,
+    repoRoot: opts.repoRoot,
+    repoRoots,
+  };
 
-  const ctx = { driver, database: opts.neo4jDatabase };
+  registerStoreTools(server, ctx);
+  registerGetOverview(server, ctx);
+  registerLabelCommunity(server, ctx);
+  registerGenerateWiki(server, ctx);
+  registerCypher(server, ctx);
 
+  await serve(server, () => driver.close());
+}
+
+/** The tools any GraphStore can answer. */
+function registerStoreTools(server: McpServer, ctx: ToolContext): void {
   registerSearchCode(server, ctx);
   registerGetDefinition(server, ctx);
   registerReadCode(server, ctx);
   registerGetCallers(server, ctx);
   registerGetCallees(server, ctx);
   registerImpactAnalysis(server, ctx);
-  registerGetOverview(server, ctx);
-  registerLabelCommunity(server, ctx);
-  registerGenerateWiki(server, ctx);
-  registerCypher(server, ctx);
+}
 
+async function serve(
+  server: McpServer,
+  close: () => Promise<void>,
+): Promise<void> {
   const transport = new StdioServerTransport();
   await server.connect(transport);
   console.error("[mcp] code-lens-ai MCP server ready (stdio)");
@@ -74,7 +118,7 @@ export async function startMcpServer(opts: McpServerOptions): Promise<void> {
   const shutdown = async () => {
     console.error("[mcp] shutting down");
     await server.close().catch(() => {});
-    await driver.close().catch(() => {});
+    await close().catch(() => {});
     process.exit(0);
   };
   process.on("SIGINT", shutdown);
@@ -82,6 +126,16 @@ export async function startMcpServer(opts: McpServerOptions): Promise<void> {
 }
 
 export interface ToolContext {
+  /** Backend the symbol, call-graph and search tools query. */
+  store: GraphStore;
+  /** Absolute path of the checkout stored `path`s are relative to. */
+  repoRoot: string;
+  /** Absolute checkout paths by repository id, for multi-repo databases. */
+  repoRoots: Map<string, string>;
+}
+
+/** Context of the tools that run Cypher against Neo4j directly. */
+export interface Neo4jToolContext extends ToolContext {
   driver: Driver;
   database?: string;
 }
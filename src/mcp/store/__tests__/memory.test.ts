@@ -0,0 +1,94 @@
+import { MemoryStore } from "../memory";
+import type { GraphEdge, GraphNode } from "../../../util/graph";
+
+// a ─high──▶ save ◀──low── b
+// ▲           ▲           ▲
+// high      medium       high
+// │           │           │
+// c ──────────┘           d
+const fn = (name: string): GraphNode => ({
+  id: `fn:${name}`,
+  kind: "Function",
+  name,
+  path: `src/${name}.ts`,
+});
+const call = (from: string, to: string, confidence: string): GraphEdge => ({
+  id: `CALLS:fn:${from}->fn:${to}`,
+  kind: "CALLS",
+  from: `fn:${from}`,
+  to: `fn:${to}`,
+  meta: { confidence, strategy: `${from}-${to}` },
+});
+
+const store = new MemoryStore({
+  nodes: ["save", "a", "b", "c", "d"].map(fn),
+  edges: [
+    call("a", "save", "high"),
+    call("b", "save", "low"),
+    call("c", "save", "medium"),
+    call("c", "a", "high"),
+    call("d", "b", "high"),
+  ],
+});
+
+describe("MemoryStore.callers", () => {
+  const callers = (minRank: number) =>
+    store.callers({ symbol: "save", depth: 2, minRank, limit: 50 }).then((rows) =>
+      rows.map((r) => ({
+        name: r.caller.properties.name,
+        distance: r.distance,
+        rank: r.rank,
+        strategy: r.strategy,
+      })),
+    );
+
+  it("lists each caller once per distance, nearest first, ranked by its weakest hop", async () => {
+    expect(await callers(0)).toEqual([
+      { name: "a", distance: 1, rank: 2, strategy: "a-save" },
+      { name: "b", distance: 1, rank: 0, strategy: "b-save" },
+      { name: "c", distance: 1, rank: 1, strategy: "c-save" },
+      { name: "c", distance: 2, rank: 2, strategy: "c-a" },
+      { name: "d", distance: 2, rank: 0, strategy: "d-b" },
+    ]);
+  });
+
+  it("drops walks that cross an edge below minRank", async () => {
+    expect(await callers(1)).toEqual([
+      { name: "a", distance: 1, rank: 2, strategy: "a-save" },
+      { name: "c", distance: 1, rank: 1, strategy: "c-save" },
+      { name: "c", distance: 2, rank: 2, strategy: "c-a" },
+    ]);
+  });
+
+  it("stops at the requested depth", async () => {
+    const rows = await store.callers({ symbol: "save", depth: 1, minRank: 0, limit: 50 });
+    expect(rows.map((r) => r.distance)).toEqual([1, 1, 1]);
+  });
+});
+
+describe("MemoryStore.impactCallers", () => {
+  const impact = (minRank: number) =>
+    store
+      .impactCallers({ symbol: "save", depth: 2, minRank })
+      .then((rows) =>
+        rows
+          .map(({ name, distance, rank }) => ({ name, distance, rank }))
+          .sort((x, y) => x.name!.localeCompare(y.name!)),
+      );
+
+  it("keeps one row per caller at its shortest distance with its best rank", async () => {
+    expect(await impact(0)).toEqual([
+      { name: "a", distance: 1, rank: 2 },
+      { name: "b", distance: 1, rank: 0 },
+      { name: "c", distance: 1, rank: 2 },
+      { name: "d", distance: 2, rank: 0 },
+    ]);
+  });
+
+  it("drops callers only reachable below minRank", async () => {
+    expect(await impact(1)).toEqual([
+      { name: "a", distance: 1, rank: 2 },
+      { name: "c", distance: 1, rank: 2 },
+    ]);
+  });
+});
@@ -0,0 +1,127 @@
+import type { SearchHit, SearchOptions } from "../../search";
+
+/**
+ * Storage interface behind the MCP tools that don't need Neo4j itself:
+ * symbol lookup, call-graph walks, impact analysis and search. Two backends:
+ *
+ *   - Neo4jStore  — Cypher against the indexed database (the default)
+ *   - MemoryStore — in-process over the CodeGraph JSON written by `-o`
+ *
+ * Tools that need Cypher or the GDS communities (get_overview,
+ * label_community, generate_wiki, cypher) talk to Neo4j directly and are only
+ * registered when a database is configured.
+ */
+
+/**
+ * A node as stored: its kind label plus the flattened properties the Neo4j
+ * indexer writes (`startRow`, `doc`, `meta_*`, … — see nodeToRow). `:Unresolved`
+ * placeholders have kind "Unresolved" and only `id` + `symbol`.
+ */
+export interface StoredNode {
+  kind: string;
+  properties: Record<string, unknown>;
+}
+
+export interface DefinitionQuery {
+  /** Exact symbol name. */
+  name: string;
+  /** Substring of the declaring file's path. */
+  file?: string;
+  kind?: string;
+  repo?: string;
+  limit: number;
+}
+
+export interface CallWalkQuery {
+  /** Name of the symbol to walk from (callees) or to (callers). */
+  symbol: string;
+  /** Substring of the symbol's path (callees only). */
+  file?: string;
+  /** Max CALLS hops. */
+  depth: number;
+  /** Weakest CALLS confidence rank (0 low … 2 high) a walk may cross. */
+  minRank: number;
+  repo?: string;
+  limit: number;
+}
+
+/**
+ * One caller reached at `distance` hops. `rank` is the confidence of its most
+ * confident walk (the weakest edge along it); `strategy`/`candidates` describe
+ * the caller's own outgoing CALLS edge on that walk.
+ */
+export interface CallerRow {
+  caller: StoredNode;
+  distance: number;
+  targetName?: string;
+  targetPath?: string;
+  targetDeprecated: boolean;
+  deprecatedReason?: string;
+  rank: number;
+  strategy?: string;
+  candidates?: number;
+}
+
+/** One callee reached at `distance` hops; the edge fields describe the last hop. */
+export interface CalleeRow {
+  target: StoredNode;
+  distance: number;
+  rank: number;
+  strategy?: string;
+  candidates?: number;
+}
+
+export interface ImpactQuery {
+  symbol: string;
+  file?: string;
+  repo?: string;
+}
+
+/** The symbol an impact analysis is about, with its file's cluster context. */
+export interface ImpactTarget {
+  target: StoredNode;
+  /** File that DEFINES the target (absent for methods and properties). */
+  file?: StoredNode;
+  isCore: boolean;
+  pagerank: number;
+  boundary: number;
+  communityId?: number;
+  communityLabel?: string;
+}
+
+/** A direct or transitive caller (CALLS or USES_TYPE) of an impact target. */
+export interface ImpactCallerRow {
+  name?: string;
+  path?: string;
+  startRow?: number;
+  distance: number;
+  rank: number;
+  isCore: boolean;
+  pagerank: number;
+  isTest: boolean;
+  communityId?: number;
+  communityLabel?: string;
+}
+
+export interface GraphStore {
+  /** Ranked search over names, signatures, bodies, paths and doc comments. */
+  search(query: string, opts?: SearchOptions): Promise<SearchHit[]>;
+  /** Nodes named `name`, ordered by path then line. */
+  definitions(q: DefinitionQuery): Promise<StoredNode[]>;
+  /** Nodes whose CALLS reach `symbol` within `depth` hops, nearest first. */
+  callers(q: CallWalkQuery): Promise<CallerRow[]>;
+  /** Nodes the Function/Method `symbol` reaches through CALLS, nearest first. */
+  callees(q: CallWalkQuery): Promise<CalleeRow[]>;
+  /** The first declaration (Function … Enum) named `symbol`, or null. */
+  impactTarget(q: ImpactQuery): Promise<ImpactTarget | null>;
+  /**
+   * Callers of the impactTarget through CALLS/USES_TYPE, one row per caller
+   * at its shortest distance.
+   */
+  impactCallers(
+    q: ImpactQuery & { depth: number; minRank: number },
+  ): Promise<ImpactCallerRow[]>;
+}
+
+export { Neo4jStore } from "./neo4j";
+export { MemoryStore } from "./memory";
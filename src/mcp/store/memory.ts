@@ -0,0 +1,330 @@
+import fs from "fs";
+import type { SearchHit, SearchOptions } from "../../search";
+import { Bm25Index } from "../../search/bm25";
+import { edgeToRow, nodeToRow } from "../../indexers/neo4j";
+import type { GraphEdge, GraphNode } from "../../util/graph";
+import { CONFIDENCE_LEVELS, type Confidence } from "../util";
+import type {
+  GraphStore,
+  StoredNode,
+  DefinitionQuery,
+  CallWalkQuery,
+  CallerRow,
+  CalleeRow,
+  ImpactQuery,
+  ImpactTarget,
+  ImpactCallerRow,
+} from "./index";
+
+const TARGET_KINDS = new Set([
+  "Function",
+  "Method",
+  "Class",
+  "Variable",
+  "Interface",
+  "TypeAlias",
+  "Enum",
+]);
+
+interface StoredEdge {
+  kind: string;
+  from: string;
+  to: string;
+  properties: Record<string, unknown>;
+}
+
+/** A node reached by MemoryStore.walk, with its most confident walk. */
+interface Reached {
+  id: string;
+  distance: number;
+  rank: number;
+  /** The walk's hop adjacent to the reached node. */
+  edge: StoredEdge;
+}
+
+/**
+ * GraphStore held in process, for running the MCP tools and search without
+ * Neo4j: loads the `{ nodes, edges }` JSON written by `-o` and answers the
+ * same queries as Neo4jStore by walking adjacency lists. Nodes and edges
+ * carry the properties the indexer would store, edges to symbols that never
+ * resolved end at `:Unresolved` placeholders as they do in Neo4j, and search
+ * is BM25 (see Bm25Index). There are no communities or embeddings, so impact
+ * analysis sees no clusters and only keyword search is available.
+ */
+export class MemoryStore implements GraphStore {
+  private readonly nodes = new Map<string, StoredNode>();
+  private readonly incoming = new Map<string, StoredEdge[]>();
+  private readonly outgoing = new Map<string, StoredEdge[]>();
+  private readonly bm25: Bm25Index;
+
+  constructor(graph: { nodes: GraphNode[]; edges: GraphEdge[] }) {
+    for (const n of graph.nodes) {
+      const row = nodeToRow(n);
+      this.nodes.set(n.id, {
+        kind: n.kind,
+        properties: { id: n.id, ...(row.props as Record<string, unknown>) },
+      });
+    }
+    for (const e of graph.edges) {
+      if (!this.nodes.has(e.to)) {
+        this.nodes.set(e.to, {
+          kind: "Unresolved",
+          properties: { id: e.to, symbol: e.unresolved ?? null },
+        });
+      }
+      const row = edgeToRow(e);
+      const edge: StoredEdge = {
+        kind: e.kind,
+        from: e.from,
+        to: e.to,
+        properties: { id: e.id, ...(row.props as Record<string, unknown>) },
+      };
+      push(this.outgoing, e.from, edge);
+      push(this.incoming, e.to, edge);
+    }
+    this.bm25 = new Bm25Index(graph.nodes);
+  }
+
+  /** Load the graph JSON written by `-o <file>`. */
+  static load(file: string): MemoryStore {
+    const parsed = JSON.parse(fs.readFileSync(file, "utf8")) as {
+      nodes?: GraphNode[];
+      edges?: GraphEdge[];
+    };
+    if (!Array.isArray(parsed.nodes) || !Array.isArray(parsed.edges)) {
+      throw new Error(`${file} is not a code graph (expected { nodes, edges })`);
+    }
+    return new MemoryStore({ nodes: parsed.nodes, edges: parsed.edges });
+  }
+
+  async search(query: string, opts: SearchOptions = {}): Promise<SearchHit[]> {
+    if (opts.mode && opts.mode !== "fts") {
+      throw new Error(
+        `${opts.mode} search needs embeddings stored in Neo4j; ` +
+          `a graph file only supports fts`,
+      );
+    }
+    return this.bm25.search(query, opts);
+  }
+
+  async definitions(q: DefinitionQuery): Promise<StoredNode[]> {
+    return [...this.nodes.values()]
+      .filter(
+        (n) =>
+          n.properties.name === q.name &&
+          inRepo(n, q.repo) &&
+          (!q.kind || n.kind === q.kind) &&
+          (!q.file || pathOf(n).includes(q.file)),
+      )
+      .sort(byPathThenRow)
+      .slice(0, q.limit);
+  }
+
+  async callers(q: CallWalkQuery): Promise<CallerRow[]> {
+    const rows: CallerRow[] = [];
+    for (const target of this.nodes.values()) {
+      const p = target.properties;
+      if (p.name !== q.symbol && p.symbol !== q.symbol) continue;
+      for (const r of this.walk(p.id as string, ["CALLS"], "in", q)) {
+        const caller = this.nodes.get(r.id)!;
+        if (!inRepo(caller, q.repo)) continue;
+        rows.push({
+          caller,
+          distance: r.distance,
+          targetName: p.name as string | undefined,
+          targetPath: p.path as string | undefined,
+          targetDeprecated: p.deprecated === true,
+          deprecatedReason: p.deprecatedReason as string | undefined,
+          rank: r.rank,
+          strategy: r.edge.properties.meta_strategy as string | undefined,
+          candidates: r.edge.properties.meta_candidateCount as number | undefined,
+        });
+      }
+    }
+    return rows
+      .sort(
+        (a, b) =>
+          a.distance - b.distance ||
+          nullsLast(a.caller.properties.path, b.caller.properties.path),
+      )
+      .slice(0, q.limit);
+  }
+
+  async callees(q: CallWalkQuery): Promise<CalleeRow[]> {
+    const sources = [...this.nodes.values()]
+      .filter(
+        (n) =>
+          n.properties.name === q.symbol &&
+          (n.kind === "Function" || n.kind === "Method") &&
+          inRepo(n, q.repo) &&
+          (!q.file || pathOf(n).includes(q.file)),
+      )
+      .slice(0, 5);
+    // One row per (callee, distance) across the sources, keeping the best walk.
+    const best = new Map<string, Reached>();
+    for (const src of sources) {
+      for (const r of this.walk(src.properties.id as string, ["CALLS"], "out", q)) {
+        const key = `${r.distance}\0${r.id}`;
+        const prev = best.get(key);
+        if (!prev || r.rank > prev.rank) best.set(key, r);
+      }
+    }
+    return [...best.values()]
+      .map((r) => ({
+        target: this.nodes.get(r.id)!,
+        distance: r.distance,
+        rank: r.rank,
+        strategy: r.edge.properties.meta_strategy as string | undefined,
+        candidates: r.edge.properties.meta_candidateCount as number | undefined,
+      }))
+      .sort(
+        (a, b) =>
+          a.distance - b.distance ||
+          nullsLast(a.target.properties.name, b.target.properties.name),
+      )
+      .slice(0, q.limit);
+  }
+
+  async impactTarget(q: ImpactQuery): Promise<ImpactTarget | null> {
+    const target = this.findImpactTarget(q);
+    if (!target) return null;
+    const file = this.definingFile(target);
+    return {
+      target,
+      file,
+      isCore: file?.properties.is_core === true,
+      pagerank: (file?.properties.pagerank as number | undefined) ?? 0,
+      boundary: (file?.properties.boundary as number | undefined) ?? 0,
+    };
+  }
+
+  async impactCallers(
+    q: ImpactQuery & { depth: number; minRank: number },
+  ): Promise<ImpactCallerRow[]> {
+    const target = this.findImpactTarget(q);
+    if (!target) return [];
+    // One row per caller: its shortest distance, and the best confidence
+    // over every walk that reaches it.
+    const reached = new Map<string, Reached>();
+    for (const r of this.walk(
+      target.properties.id as string,
+      ["CALLS", "USES_TYPE"],
+      "in",
+      q,
+    )) {
+      const prev = reached.get(r.id);
+      if (!prev) reached.set(r.id, r);
+      else if (r.rank > prev.rank) prev.rank = r.rank;
+    }
+    return [...reached.values()].map((r) => {
+      const caller = this.nodes.get(r.id)!;
+      const file = this.definingFile(caller);
+      return {
+        name: caller.properties.name as string | undefined,
+        path: caller.properties.path as string | undefined,
+        startRow: caller.properties.startRow as number | undefined,
+        distance: r.distance,
+        rank: r.rank,
+        isCore: file?.properties.is_core === true,
+        pagerank: (file?.properties.pagerank as number | undefined) ?? 0,
+        isTest: file?.properties.isTest === true,
+      };
+    });
+  }
+
+  private findImpactTarget(q: ImpactQuery): StoredNode | undefined {
+    for (const n of this.nodes.values()) {
+      if (
+        n.properties.name === q.symbol &&
+        TARGET_KINDS.has(n.kind) &&
+        inRepo(n, q.repo) &&
+        (!q.file || pathOf(n).includes(q.file))
+      ) {
+        return n;
+      }
+    }
+    return undefined;
+  }
+
+  /** The File that DEFINES `node`, if any. */
+  private definingFile(node: StoredNode): StoredNode | undefined {
+    for (const e of this.incoming.get(node.properties.id as string) ?? []) {
+      if (e.kind !== "DEFINES") continue;
+      const from = this.nodes.get(e.from);
+      if (from?.kind === "File") return from;
+    }
+    return undefined;
+  }
+
+  /**
+   * Every node `start` reaches (or is reached from, for "in") along edges of
+   * `kinds` in 1..depth hops, once per distance, with the confidence of its
+   * most confident walk — the weakest edge along it, which must be at least
+   * `minRank`. Mirrors the `[r:CALLS*1..N]` + pathConfidenceRank queries.
+   */
+  private walk(
+    start: string,
+    kinds: string[],
+    direction: "in" | "out",
+    q: { depth: number; minRank: number },
+  ): Reached[] {
+    const out: Reached[] = [];
+    let frontier = new Map<string, number>([[start, 2]]);
+    for (let distance = 1; distance <= q.depth; distance++) {
+      const next = new Map<string, Reached>();
+      for (const [id, rank] of frontier) {
+        const adj = (direction === "in" ? this.incoming : this.outgoing).get(id);
+        for (const e of adj ?? []) {
+          if (!kinds.includes(e.kind)) continue;
+          const r = Math.min(rank, edgeRank(e));
+          if (r < q.minRank) continue;
+          const other = direction === "in" ? e.from : e.to;
+          const prev = next.get(other);
+          if (!prev || r > prev.rank) {
+            next.set(other, { id: other, distance, rank: r, edge: e });
+          }
+        }
+      }
+      out.push(...next.values());
+      frontier = new Map([...next.values()].map((r) => [r.id, r.rank]));
+    }
+    return out;
+  }
+}
+
+/**
+ * Confidence rank 0 (low) … 2 (high) of one edge; edges without a recorded
+ * confidence rank high, as confidenceRank does in Cypher.
+ */
+function edgeRank(e: StoredEdge): number {
+  const i = CONFIDENCE_LEVELS.indexOf(e.properties.meta_confidence as Confidence);
+  return i < 0 ? 2 : i;
+}
+
+function inRepo(n: StoredNode, repo: string | undefined): boolean {
+  return !repo || n.properties.repo === repo;
+}
+
+function pathOf(n: StoredNode): string {
+  return (n.properties.path as string | undefined) ?? "";
+}
+
+/** String order with missing values last, as Cypher's ORDER BY. */
+function nullsLast(a: unknown, b: unknown): number {
+  if (a == null || b == null) return (a == null ? 1 : 0) - (b == null ? 1 : 0);
+  return String(a).localeCompare(String(b));
+}
+
+function byPathThenRow(a: StoredNode, b: StoredNode): number {
+  return (
+    nullsLast(a.properties.path, b.properties.path) ||
+    ((a.properties.startRow as number | undefined) ?? 0) -
+      ((b.properties.startRow as number | undefined) ?? 0)
+  );
+}
+
+function push<K, V>(map: Map<K, V[]>, key: K, value: V): void {
+  const list = map.get(key);
+  if (list) list.push(value);
+  else map.set(key, [value]);
+}
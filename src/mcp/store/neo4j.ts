@@ -0,0 +1,236 @@
+import type { Driver } from "neo4j-driver";
+import { search, type SearchHit, type SearchOptions } from "../../search";
+import {
+  readQuery,
+  asNumber,
+  nodeKind,
+  unwrap,
+  int,
+  pathConfidenceRank,
+  repoScope,
+} from "../util";
+import type {
+  GraphStore,
+  StoredNode,
+  DefinitionQuery,
+  CallWalkQuery,
+  CallerRow,
+  CalleeRow,
+  ImpactQuery,
+  ImpactTarget,
+  ImpactCallerRow,
+} from "./index";
+
+const TARGET_KINDS =
+  "(target:Function OR target:Method OR target:Class OR target:Variable OR " +
+  "target:Interface OR target:TypeAlias OR target:Enum)";
+
+/** GraphStore over the Neo4j database the indexer writes. */
+export class Neo4jStore implements GraphStore {
+  constructor(
+    readonly driver: Driver,
+    readonly database?: string,
+  ) {}
+
+  async search(query: string, opts: SearchOptions = {}): Promise<SearchHit[]> {
+    return search(this.driver, query, { ...opts, database: this.database });
+  }
+
+  async definitions(q: DefinitionQuery): Promise<StoredNode[]> {
+    const where: string[] = ["n.name = $name", repoScope("n")];
+    const params: Record<string, unknown> = {
+      name: q.name,
+      repo: q.repo ?? null,
+      limit: int(q.limit),
+    };
+    if (q.file) {
+      where.push("n.path CONTAINS $file");
+      params.file = q.file;
+    }
+    if (q.kind) where.push(`n:\`${q.kind}\``);
+
+    const records = await readQuery(
+      this,
+      `MATCH (n:CodeNode)
+       WHERE ${where.join(" AND ")}
+       RETURN n
+       ORDER BY n.path, n.startRow
+       LIMIT $limit`,
+      params,
+    );
+    return records.map((r) => storedNode(r.n));
+  }
+
+  async callers(q: CallWalkQuery): Promise<CallerRow[]> {
+    // Resolve the symbol to actual node ids first (handles unresolved targets too).
+    // `r` from `[r:CALLS*1..N]` is a List<Relationship>; use `size(r)` not
+    // `length(r)` (length() is for Path values, hence the Neo4j type-mismatch
+    // error get_callers used to throw on depth=1). A caller reached by
+    // several paths keeps its most confident one, and the first hop of that
+    // path: rows are sorted by rank before collecting, so the head is it.
+    const records = await readQuery(
+      this,
+      `MATCH (caller:CodeNode)-[r:CALLS*1..${q.depth}]->(target)
+       WHERE (target.name = $symbol OR target.symbol = $symbol)
+         AND ${repoScope("caller")}
+         AND ${pathConfidenceRank("r")} >= $minRank
+       WITH caller, size(r) AS distance, target, head(r) AS first,
+            ${pathConfidenceRank("r")} AS rank
+       ORDER BY rank DESC
+       WITH caller, distance, target, collect({ rank: rank, edge: first })[0] AS best
+       RETURN caller, distance, target.name AS targetName, target.path AS targetPath,
+              target.deprecated AS targetDeprecated,
+              target.deprecatedReason AS deprecatedReason,
+              best.rank AS rank, best.edge.meta_strategy AS strategy,
+              best.edge.meta_candidateCount AS candidates
+       ORDER BY distance, caller.path
+       LIMIT $lim`,
+      {
+        symbol: q.symbol,
+        lim: int(q.limit),
+        minRank: int(q.minRank),
+        repo: q.repo ?? null,
+      },
+    );
+    return records.map((r) => ({
+      caller: storedNode(r.caller),
+      distance: asNumber(r.distance) ?? 0,
+      targetName: (r.targetName as string | null) ?? undefined,
+      targetPath: (r.targetPath as string | null) ?? undefined,
+      targetDeprecated: r.targetDeprecated === true,
+      deprecatedReason: (r.deprecatedReason as string | null) ?? undefined,
+      rank: asNumber(r.rank) ?? 2,
+      strategy: (r.strategy as string | null) ?? undefined,
+      candidates: asNumber(r.candidates),
+    }));
+  }
+
+  async callees(q: CallWalkQuery): Promise<CalleeRow[]> {
+    const fileFilter = q.file ? "AND src.path CONTAINS $file" : "";
+    const params: Record<string, unknown> = {
+      symbol: q.symbol,
+      lim: int(q.limit),
+      minRank: int(q.minRank),
+      repo: q.repo ?? null,
+    };
+    if (q.file) params.file = q.file;
+
+    const records = await readQuery(
+      this,
+      `MATCH (src:CodeNode { name: $symbol })
+       WHERE (src:Function OR src:Method) AND ${repoScope("src")} ${fileFilter}
+       WITH src LIMIT 5
+       MATCH (src)-[r:CALLS*1..${q.depth}]->(target)
+       WHERE ${pathConfidenceRank("r")} >= $minRank
+       WITH target, size(r) AS distance, last(r) AS final,
+            ${pathConfidenceRank("r")} AS rank
+       ORDER BY rank DESC
+       WITH target, distance, collect({ rank: rank, edge: final })[0] AS best
+       RETURN target, distance, best.rank AS rank,
+              best.edge.meta_strategy AS strategy,
+              best.edge.meta_candidateCount AS candidates
+       ORDER BY distance, target.name
+       LIMIT $lim`,
+      params,
+    );
+    return records.map((r) => ({
+      target: storedNode(r.target),
+      distance: asNumber(r.distance) ?? 0,
+      rank: asNumber(r.rank) ?? 2,
+      strategy: (r.strategy as string | null) ?? undefined,
+      candidates: asNumber(r.candidates),
+    }));
+  }
+
+  async impactTarget(q: ImpactQuery): Promise<ImpactTarget | null> {
+    const rows = await readQuery(
+      this,
+      `MATCH (target:CodeNode { name: $symbol })
+       WHERE ${impactTargetWhere(q)}
+       OPTIONAL MATCH (target)<-[:DEFINES]-(targetFile:File)
+       OPTIONAL MATCH (targetFile)-[:IN_COMMUNITY]->(targetComm:Community)
+       RETURN target, targetFile,
+              targetFile.is_core AS targetIsCore,
+              targetFile.pagerank AS targetPagerank,
+              targetFile.boundary AS targetBoundary,
+              targetComm.communityId AS targetCommId,
+              targetComm.label AS targetCommLabel
+       LIMIT 1`,
+      impactParams(q),
+    );
+    const r = rows[0];
+    if (!r) return null;
+    return {
+      target: storedNode(r.target),
+      file: r.targetFile ? storedNode(r.targetFile) : undefined,
+      isCore: !!r.targetIsCore,
+      pagerank: asNumber(r.targetPagerank) ?? 0,
+      boundary: asNumber(r.targetBoundary) ?? 0,
+      communityId: asNumber(r.targetCommId),
+      communityLabel: (r.targetCommLabel as string | null) ?? undefined,
+    };
+  }
+
+  async impactCallers(
+    q: ImpactQuery & { depth: number; minRank: number },
+  ): Promise<ImpactCallerRow[]> {
+    const rows = await readQuery(
+      this,
+      `MATCH (target:CodeNode { name: $symbol })
+       WHERE ${impactTargetWhere(q)}
+       WITH target LIMIT 1
+       MATCH (caller)-[r:CALLS|USES_TYPE*1..${q.depth}]->(target)
+       WHERE ${pathConfidenceRank("r")} >= $minRank
+       WITH caller, min(size(r)) AS distance, max(${pathConfidenceRank("r")}) AS rank
+       OPTIONAL MATCH (caller)<-[:DEFINES]-(callerFile:File)
+       OPTIONAL MATCH (callerFile)-[:IN_COMMUNITY]->(callerComm:Community)
+       RETURN caller.name AS name,
+              caller.path AS path,
+              caller.startRow AS startRow,
+              distance, rank,
+              callerFile.is_core AS callerIsCore,
+              callerFile.pagerank AS callerPagerank,
+              callerFile.isTest AS callerIsTest,
+              callerComm.communityId AS callerCommId,
+              callerComm.label AS callerCommLabel`,
+      { ...impactParams(q), minRank: int(q.minRank) },
+    );
+    return rows.map((r) => ({
+      name: (r.name as string | null) ?? undefined,
+      path: (r.path as string | null) ?? undefined,
+      startRow: asNumber(r.startRow),
+      distance: asNumber(r.distance) ?? 0,
+      rank: asNumber(r.rank) ?? 2,
+      isCore: !!r.callerIsCore,
+      pagerank: asNumber(r.callerPagerank) ?? 0,
+      isTest: !!r.callerIsTest,
+      communityId: asNumber(r.callerCommId),
+      communityLabel: (r.callerCommLabel as string | null) ?? undefined,
+    }));
+  }
+}
+
+function impactTargetWhere(q: ImpactQuery): string {
+  return (
+    `${TARGET_KINDS} AND ${repoScope("target")}` +
+    (q.file ? " AND target.path CONTAINS $file" : "")
+  );
+}
+
+function impactParams(q: ImpactQuery): Record<string, unknown> {
+  const params: Record<string, unknown> = {
+    symbol: q.symbol,
+    repo: q.repo ?? null,
+  };
+  if (q.file) params.file = q.file;
+  return params;
+}
+
+/** A Neo4j Node value → StoredNode, with Integers unwrapped. */
+function storedNode(v: unknown): StoredNode {
+  const node = v as { labels: string[]; properties: Record<string, unknown> };
+  return {
+    kind: nodeKind(node.labels),
+    properties: unwrap(node.properties) as Record<string, unknown>,
+  };
+}
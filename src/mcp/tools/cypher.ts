@@ -1,7 +1,7 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import type { ToolContext } from "../server";
-import { readQuery, unwrap, textResult } from "../util";
+import type { Neo4jToolContext } from "../server";
+import { readQuery, unwrap, textResult, repoInput } from "../util";
 
 // Reject anything that looks like mutation. Crude but adequate for a
 // read-only escape hatch — allows MATCH/RETURN/WITH/CALL but rejects writes.
@@ -18,9 +18,13 @@ const cypherSchema: Record<string, any> = {
     .describe(
       "Hard cap on records returned to keep the agent's context tight (default 50).",
     ),
+  repo: repoInput.describe(
+    "Repository id bound to the `$repo` query parameter (null when omitted), " +
+      "e.g. `MATCH (f:File {repo: $repo})`.",
+  ),
 };
 
-export function registerCypher(server: McpServer, ctx: ToolContext): void {
+export function registerCypher(server: McpServer, ctx: Neo4jToolContext): void {
   server.registerTool(
     "cypher",
     {
@@ -30,25 +34,74 @@ export function registerCypher(server: McpServer, ctx: ToolContext): void {
         "Use this only when the higher-level tools (search_code, get_definition, get_callers, " +
         "get_callees, impact_analysis, get_overview) cannot answer the question.\n\n" +
         "Schema reference — every node has the base label `:CodeNode` plus ONE kind label. " +
-        "Properties live on specific kinds; querying e.g. `f.startRow` on a :File returns null.\n" +
+        "Properties live on specific kinds; querying e.g. `f.startRow` on a :File returns null. " +
+        "`path` is always relative to the repo root; ids are keyed on the repository identifier " +
+        "(`repo:github.com/acme/api`, `file:github.com/acme/api:src/a.ts#fn:load`). One database can " +
+        "hold several repositories: every node except :ExternalPackage carries `repo` (the repository " +
+        "id), so filter with `n.repo = $repo`.\n" +
         "  :File           → name, path, language, isTest, testFramework, contentHash, lastIndexed, community, pagerank, boundary, is_core\n" +
-        "  :Function       → name, path, signature, body, startRow, endRow, httpMethod, route, embedding\n" +
-        "  :Method         → name, path, signature, body, startRow, endRow, embedding\n" +
-        "  :Class          → name, path, signature, body, startRow, endRow, embedding\n" +
+        "  :Function       → name, path, signature, body, startRow, endRow, meta_reactComponent, embedding\n" +
+        "  :Method         → name, path, signature, body, startRow, endRow, httpMethod, route, routerObject, meta_annotations (Java), meta_decorators (TS), embedding\n" +
+        "  :Class          → name, path, signature, body, startRow, endRow, meta_annotations, meta_decorators, embedding\n" +
         "  :Interface, :TypeAlias, :Enum → name, path, signature, body, startRow, endRow\n" +
-        "  :Property, :Variable → name, path, signature, body, startRow, endRow, builder\n" +
-        "  :Repository     → name, path, lastCommit, lastIndexed, sourceUrl\n" +
+        "  Function/Method/Class/Interface with a JSDoc/TSDoc/Javadoc comment also have doc (full " +
+        "text), docSummary, docParams (`name: description` list), docReturns, and deprecated = true " +
+        "+ deprecatedReason for `@deprecated`\n" +
+        "  :Property, :Variable → name, path, signature, body, startRow, endRow, builder, meta_annotations, meta_decorators\n" +
+        "  :Repository     → name, lastCommit, lastIndexed, sourceUrl, idScheme, meta_publishes\n" +
         "  :Folder         → name, path\n" +
+        "  :Package        → name, path, meta_version, meta_publishes (workspace member; CONTAINS its Files)\n" +
+        "  :ExternalPackage → name, meta_ecosystem (npm/maven), meta_versions\n" +
         "  :Community      → communityId, name, label, heuristicLabel, description, size\n" +
+        "  :Route          → id `file:<repo id>:<path>#route:<METHOD> <full path>`, name (`POST /api/projects`), path + startRow of the " +
+        "registration, httpMethod, route, routerObject, meta_framework (express/nextjs/spring/nestjs), " +
+        "meta_router (Next.js app/pages)\n" +
         "  :Unresolved     → id, symbol\n\n" +
         "Edge types: CALLS, IMPORTS, EXPORTS, DEFINES, CONTAINS, EXTENDS, IMPLEMENTS, HAS_METHOD, " +
-        "HAS_PROPERTY, IN_COMMUNITY.\n" +
+        "HAS_PROPERTY, DEPENDS_ON, INJECTS, USES_TYPE, HANDLES, MIDDLEWARE, RENDERS, USES_HOOK, " +
+        "IN_COMMUNITY.\n" +
+        "  USES_TYPE(Function/Method/Class/Interface → Class/Interface/TypeAlias/Enum) is a type " +
+        "named in a signature or field; `meta_roles` lists param / return / field (from the " +
+        "owning Class/Interface) / generic-arg (`Promise<Foo>`). Only repo-declared types are " +
+        "kept, so `(x)-[:USES_TYPE]->(:Interface {name: 'Repo'})` finds every user of `Repo`.\n" +
+        "  RENDERS(component → component) is a `<Child/>` JSX element inside a React component " +
+        "(Function/Class/Variable with `meta_reactComponent = true`); USES_HOOK(Function → hook) " +
+        "is a `useX()` call. Both resolve like CALLS (`meta_strategy`/`meta_confidence`); member " +
+        "elements and library hooks (`useState`) stay `:Unresolved` (`unresolved:component:X` / " +
+        "`unresolved:hook:useX`).\n" +
+        "  HANDLES(Function/Method/Variable → Route) marks an endpoint's handler. " +
+        "MIDDLEWARE(Route → Function/Variable, or :Unresolved for packages like `cors`) is the chain " +
+        "run before the handler, ordered by `meta_order`; `meta_scope` is router (`use()`), mount " +
+        "(`use(path, mw, router)`) or route, and `meta_factory` marks `mw(...)` registrations.\n" +
+        "  DEPENDS_ON(Repository/Package → ExternalPackage/Package) carries `meta_version`, " +
+        "`meta_scope` (runtime/dev/peer/optional), `meta_declaredAs`, `meta_manifest`. When another " +
+        "indexed repository publishes the dependency (its Repository/Package `meta_publishes`, " +
+        "e.g. `npm:@acme/ui`), DEPENDS_ON and IMPORTS edges point at that node instead and carry " +
+        "`meta_via` (the id of the edge they replaced).\n" +
+        "  INJECTS(Class → Class/Interface) is constructor dependency injection in a decorated " +
+        "(NestJS/Angular) class; carries `meta_parameter` (or `meta_field` for `inject(X)`) and " +
+        "`meta_token` for `@Inject(TOKEN)`/`@InjectRepository(X)` parameters.\n" +
         "  EXPORTS(File → declaration) carries `meta_exportedName` — the externally-visible " +
-        "name (may differ from the declaration's own name due to `export { x as y }`).\n\n" +
+        "name (may differ from the declaration's own name due to `export { x as y }`). " +
+        "Barrel re-exports (`export … from`) point at the original declaration and add " +
+        "`meta_reexportFrom` (plus `meta_wildcard` for `export *`). CommonJS " +
+        "`module.exports`/`exports.x` exports carry `meta_commonjs`; `export default` carries " +
+        "`meta_default`, and extra names for one declaration land in `meta_alsoExportedAs`.\n" +
+        "  Resolved CALLS, EXTENDS, IMPLEMENTS and IMPORTS carry `meta_strategy`, " +
+        "`meta_confidence` (high/medium/low) and `meta_candidateCount` (same-named candidates, " +
+        "or files an import linked to). CALLS strategies: receiver-type / import-export / " +
+        "same-file / name-only-unique / name-only-ambiguous; EXTENDS/IMPLEMENTS/INJECTS/USES_TYPE: import-export / " +
+        "imported-file / name-only-unique; IMPORTS: path / go-package / tsconfig-alias / " +
+        "workspace-package / manifest. " +
+        "CALLS also carry `meta_receiverType`/`meta_receiverVia` (this/field/param/local) when the " +
+        "receiver's type was known. Calls on a known type the repo doesn't define stay " +
+        "`:Unresolved` with id `unresolved:callable:Type.method`.\n" +
+        "  IMPORTS(File → File) carries `meta_workspacePackage` when resolved through a " +
+        "workspace package name, or `meta_alias`/`meta_tsconfig` for tsconfig path aliases.\n\n" +
         "Mutations (CREATE/MERGE/DELETE/SET/REMOVE/DROP/etc.) are rejected.",
       inputSchema: cypherSchema,
     },
-    async ({ query, limit }) => {
+    async ({ query, limit, repo }) => {
       if (FORBIDDEN.test(query)) {
         return textResult(
           "ERROR: rejected — query contains a write/mutation keyword. " +
@@ -57,7 +110,7 @@ export function registerCypher(server: McpServer, ctx: ToolContext): void {
       }
       let records;
       try {
-        records = await readQuery(ctx, query);
+        records = await readQuery(ctx, query, { repo: repo ?? null });
       } catch (err) {
         return textResult(`Cypher error: ${(err as Error).message}`);
       }
@@ -1,13 +1,22 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import type { ToolContext } from "../server";
-import { readQuery, asNumber, textResult, int } from "../util";
+import type { Neo4jToolContext } from "../server";
+import {
+  readQuery,
+  asNumber,
+  textResult,
+  int,
+  repoInput,
+  repoScope,
+  checkoutOf,
+} from "../util";
 
 // Defaults tuned to fit within typical Claude Code MCP result limits
 // (~15K tokens) on big repos. All overridable via tool args at call time.
 const SPINE_PER_COMMUNITY = 5;
 const TOP_FNS_PER_COMMUNITY = 5;
 const EXTERNALS_PER_COMMUNITY = 8;
+const DEPENDENCIES_RENDER_CAP = 40;
 const ROUTES_RENDER_CAP = 80;
 const TESTS_RENDER_CAP = 30;
 const GLOSSARY_LIMIT_DEFAULT = 25;
@@ -76,6 +85,17 @@ interface ExternalImport {
   cid: number;
   spec: string;
   uses: number;
+  /** True when the target is a manifest-declared ExternalPackage. */
+  declared: boolean;
+  versions: string[];
+}
+
+interface DeclaredDependency {
+  name: string;
+  ecosystem: string;
+  versions: string[];
+  scopes: string[];
+  importers: number;
 }
 
 interface CoverageStats {
@@ -103,11 +123,12 @@ const inputSchema: Record<string, any> = {
     .max(100)
     .optional()
     .describe("Number of most-called symbols in the glossary (default 25)."),
+  repo: repoInput,
 };
 
 export function registerGenerateWiki(
   server: McpServer,
-  ctx: ToolContext,
+  ctx: Neo4jToolContext,
 ): void {
   server.registerTool(
     "generate_wiki",
@@ -123,21 +144,29 @@ export function registerGenerateWiki(
         "tool calls vs. building the wiki from scratch via get_overview + cypher + read_code. " +
         "Returns markdown — read the [AGENT FILLS] sections, do targeted read_code/get_definition " +
         "calls to fill them, then write the final document. " +
-        "Tunable: pass maxCommunities and glossaryLimit to dial output size.",
+        "Tunable: pass maxCommunities and glossaryLimit to dial output size. " +
+        "When the database holds several repositories, pass repo to document one of them.",
       inputSchema,
     },
-    async (args: { maxCommunities?: number; glossaryLimit?: number }) => {
+    async (args: WikiArgs) => {
       return await runGenerateWiki(ctx, args);
     },
   );
 }
 
+interface WikiArgs {
+  maxCommunities?: number;
+  glossaryLimit?: number;
+  repo?: string;
+}
+
 async function runGenerateWiki(
-  ctx: ToolContext,
-  args: { maxCommunities?: number; glossaryLimit?: number } = {},
+  ctx: Neo4jToolContext,
+  args: WikiArgs = {},
 ): Promise<{ content: Array<{ type: "text"; text: string }> }> {
   const maxCommunities = args.maxCommunities ?? COMMUNITIES_RENDER_CAP_DEFAULT;
   const glossaryLimit = args.glossaryLimit ?? GLOSSARY_LIMIT_DEFAULT;
+  const params = { repo: args.repo ?? null };
   // Run the independent queries in parallel — biggest perf win.
   const [
     repoRows,
@@ -153,28 +182,34 @@ async function runGenerateWiki(
     glossaryRows,
     externalRows,
     coverageRows,
+    dependencyRows,
   ] = await Promise.all([
     readQuery(
       ctx,
-      `MATCH (r:Repository) RETURN r.name AS name, r.path AS path LIMIT 1`,
+      `MATCH (r:Repository) WHERE ${repoScope("r")}
+       RETURN r.name AS name, substring(r.id, 5) AS repoId LIMIT 1`,
+      params,
     ),
     readQuery(
       ctx,
-      `MATCH (n:CodeNode)
+      `MATCH (n:CodeNode) WHERE ${repoScope("n")}
        WITH labels(n) AS labels
        UNWIND labels AS l
        WITH l, count(*) AS c WHERE l <> 'CodeNode'
        RETURN l AS kind, c AS count ORDER BY count DESC`,
+      params,
     ),
     readQuery(
       ctx,
-      `MATCH (f:File) WHERE f.language IS NOT NULL
+      `MATCH (f:File) WHERE f.language IS NOT NULL AND ${repoScope("f")}
        RETURN f.language AS language, count(*) AS count ORDER BY count DESC`,
+      params,
     ),
     readQuery(
       ctx,
-      `MATCH (c:Community)<-[:IN_COMMUNITY]-(f:File)
+      `MATCH (c:Community)<-[:IN_COMMUNITY]-(f:File) WHERE ${repoScope("f")}
        OPTIONAL MATCH (c)<-[:IN_COMMUNITY]-(curSpine:File {is_core: true})
+       WHERE ${repoScope("curSpine")}
        WITH c, count(DISTINCT f) AS size,
             collect(DISTINCT curSpine.path) AS currentSpine
        RETURN c.communityId AS id, c.label AS label,
@@ -184,91 +219,121 @@ async function runGenerateWiki(
               c.descriptionSpineSnapshot AS descriptionSpineSnapshot,
               currentSpine, size
        ORDER BY size DESC`,
+      params,
     ),
     readQuery(
       ctx,
       `MATCH (c:Community)<-[:IN_COMMUNITY]-(f:File)
-       WHERE f.is_core = true
+       WHERE f.is_core = true AND ${repoScope("f")}
        WITH c.communityId AS cid, f
        ORDER BY f.pagerank DESC
        RETURN cid, f.path AS path, f.name AS name, f.pagerank AS pagerank`,
+      params,
     ),
     readQuery(
       ctx,
       `MATCH (c:Community)<-[:IN_COMMUNITY]-(f:File)-[:DEFINES]->(fn:Function)
+       WHERE ${repoScope("f")}
        OPTIONAL MATCH (fn)<-[r:CALLS]-(:CodeNode)
        WITH c.communityId AS cid, fn, count(r) AS callCount
        WHERE callCount > 0
        RETURN cid, fn.name AS name, fn.signature AS signature,
               fn.path AS path, fn.startRow AS startRow, callCount
        ORDER BY callCount DESC`,
+      params,
     ),
     readQuery(
       ctx,
-      `MATCH (c1:Community)<-[:IN_COMMUNITY]-(:File)-[:IMPORTS]->(:File)-[:IN_COMMUNITY]->(c2:Community)
-       WHERE c1 <> c2
+      `MATCH (c1:Community)<-[:IN_COMMUNITY]-(src:File)-[:IMPORTS]->(:File)-[:IN_COMMUNITY]->(c2:Community)
+       WHERE c1 <> c2 AND ${repoScope("src")}
        RETURN c1.communityId AS fromId, c1.label AS fromLabel,
               c1.heuristicLabel AS fromHeuristic,
               c2.communityId AS toId, c2.label AS toLabel,
               c2.heuristicLabel AS toHeuristic,
               count(*) AS count`,
+      params,
     ),
     readQuery(
       ctx,
-      `MATCH (n:Function) WHERE n.httpMethod IS NOT NULL
-       RETURN n.httpMethod AS method, n.route AS route,
-              n.path AS path, n.startRow AS startRow
-       ORDER BY n.path, n.startRow`,
+      // Every framework's endpoints are Route nodes (Express, Next.js,
+      // Spring, Nest), located at their registration.
+      `MATCH (r:Route) WHERE ${repoScope("r")}
+       RETURN r.httpMethod AS method, r.route AS route,
+              r.path AS path, r.startRow AS startRow
+       ORDER BY r.path, r.startRow, r.route`,
+      params,
     ),
     readQuery(
       ctx,
-      `MATCH (f:File) WHERE NOT (f)<-[:IMPORTS]-()
+      `MATCH (f:File) WHERE NOT (f)<-[:IMPORTS]-() AND ${repoScope("f")}
        RETURN f.path AS path ORDER BY f.path`,
+      params,
     ),
     readQuery(
       ctx,
-      `MATCH (f:File) WHERE f.isTest = true
+      `MATCH (f:File) WHERE f.isTest = true AND ${repoScope("f")}
        RETURN f.path AS path, f.testFramework AS framework
        ORDER BY f.path`,
+      params,
     ),
     readQuery(
       ctx,
       `MATCH (target)<-[r:CALLS]-(:CodeNode)
        WHERE (target:Function OR target:Method) AND target.name IS NOT NULL
+         AND ${repoScope("target")}
        WITH target, count(r) AS callCount
        ORDER BY callCount DESC LIMIT $limit
        RETURN target.name AS name, target.signature AS signature,
               target.path AS path, target.startRow AS startRow, callCount`,
-      { limit: int(glossaryLimit) },
+      { ...params, limit: int(glossaryLimit) },
     ),
     readQuery(
       ctx,
+      // Declared deps (ExternalPackage) plus anything still :Unresolved.
       // Skip Java stdlib (java.*, javax.*) — every Java file imports it, so it
       // would dominate the per-community top-N and crowd out actionable signal
       // like Spring/Hibernate/etc.
-      `MATCH (c:Community)<-[:IN_COMMUNITY]-(:File)-[:IMPORTS]->(u:Unresolved)
-       WHERE u.symbol IS NOT NULL
-         AND NOT u.symbol STARTS WITH 'java.'
-         AND NOT u.symbol STARTS WITH 'javax.'
-       WITH c.communityId AS cid, u.symbol AS spec, count(*) AS uses
-       RETURN cid, spec, uses
+      `MATCH (c:Community)<-[:IN_COMMUNITY]-(src:File)-[:IMPORTS]->(u)
+       WHERE ${repoScope("src")}
+         AND (u:ExternalPackage
+              OR (u:Unresolved AND u.symbol IS NOT NULL
+                  AND NOT u.symbol STARTS WITH 'java.'
+                  AND NOT u.symbol STARTS WITH 'javax.'))
+       WITH c.communityId AS cid, coalesce(u.name, u.symbol) AS spec,
+            u:ExternalPackage AS declared, u.meta_versions AS versions,
+            count(*) AS uses
+       RETURN cid, spec, declared, versions, uses
        ORDER BY cid, uses DESC`,
+      params,
     ),
     readQuery(
       ctx,
       // Subsystem coverage — files NOT in any materialized :Community are
       // invisible to every per-subsystem render below. Surface the gap honestly
       // so the reader can calibrate trust in the wiki's completeness.
-      `MATCH (f:File)
+      `MATCH (f:File) WHERE ${repoScope("f")}
        OPTIONAL MATCH (f)-[ic:IN_COMMUNITY]->(:Community)
        WITH count(f) AS total, count(ic) AS clustered,
             collect(CASE WHEN ic IS NULL THEN f.path END) AS rawOrphans
        RETURN total, clustered,
               [p IN rawOrphans WHERE p IS NOT NULL] AS orphans`,
+      params,
+    ),
+    readQuery(
+      ctx,
+      `MATCH (a)-[d:DEPENDS_ON]->(x:ExternalPackage)
+       WHERE ${repoScope("a")}
+       OPTIONAL MATCH (f:File)-[:IMPORTS]->(x) WHERE ${repoScope("f")}
+       WITH x, collect(DISTINCT d.meta_scope) AS scopes,
+            count(DISTINCT f) AS importers
+       RETURN x.name AS name, x.meta_ecosystem AS ecosystem,
+              x.meta_versions AS versions, scopes, importers
+       ORDER BY importers DESC, name`,
+      params,
     ),
   ]);
 
-  const repo = repoRows[0] ?? { name: "(unknown)", path: "(unknown)" };
+  const repo = repoRows[0] ?? { name: "(unknown)", repoId: "(unknown)" };
 
   const counts = countRows.map((r) => ({
     kind: String(r.kind),
@@ -348,6 +413,16 @@ async function runGenerateWiki(
     cid: asNumber(r.cid) ?? 0,
     spec: String(r.spec),
     uses: asNumber(r.uses) ?? 0,
+    declared: r.declared === true,
+    versions: Array.isArray(r.versions) ? r.versions.map(String) : [],
+  }));
+
+  const dependencies: DeclaredDependency[] = dependencyRows.map((r) => ({
+    name: String(r.name),
+    ecosystem: String(r.ecosystem ?? ""),
+    versions: Array.isArray(r.versions) ? r.versions.map(String) : [],
+    scopes: Array.isArray(r.scopes) ? r.scopes.map(String) : [],
+    importers: asNumber(r.importers) ?? 0,
   }));
 
   const coverageRow = coverageRows[0] ?? { total: 0, clustered: 0, orphans: [] };
@@ -362,7 +437,8 @@ async function runGenerateWiki(
   return textResult(
     renderWiki({
       repoName: String(repo.name),
-      repoPath: String(repo.path),
+      repoId: String(repo.repoId),
+      repoPath: checkoutOf(ctx, args.repo),
       counts,
       languages,
       communities,
@@ -374,6 +450,7 @@ async function runGenerateWiki(
       tests,
       glossary,
       externals,
+      dependencies,
       coverage,
       maxCommunities,
     }),
@@ -382,6 +459,7 @@ async function runGenerateWiki(
 
 interface RenderInput {
   repoName: string;
+  repoId: string;
   repoPath: string;
   maxCommunities: number;
   counts: { kind: string; count: number }[];
@@ -395,16 +473,12 @@ interface RenderInput {
   tests: TestFile[];
   glossary: GlossaryEntry[];
   externals: ExternalImport[];
+  dependencies: DeclaredDependency[];
   coverage: CoverageStats;
 }
 
 function renderWiki(d: RenderInput): string {
   const out: string[] = [];
-  // Strip the repo prefix from absolute paths so they render as relative —
-  // saves significant bytes on big repos with deep paths (e.g. langchainjs).
-  const rel = (p: string): string =>
-    p.startsWith(d.repoPath) ? p.slice(d.repoPath.length).replace(/^\/+/, "") : p;
-
   // Label fallback chain — agent-set label > heuristic folder name > nothing.
   // Agents see "(heuristic)" tag on heading so they know it's auto-derived
   // and can be upgraded via label_community.
@@ -474,7 +548,7 @@ function renderWiki(d: RenderInput): string {
   out.push("");
   out.push("[AGENT FILLS — 2-3 sentences from the repo README + top-level structure]");
   out.push("");
-  out.push(`**Repo path:** \`${d.repoPath}\``);
+  out.push(`**Repository:** \`${d.repoId}\` (checked out at \`${d.repoPath}\`)`);
   out.push("");
 
   if (d.languages.length > 0) {
@@ -504,7 +578,7 @@ function renderWiki(d: RenderInput): string {
     if (d.coverage.orphans.length > 0) {
       const shown = d.coverage.orphans.slice(0, ORPHANS_RENDER_CAP);
       const hidden = d.coverage.orphans.length - shown.length;
-      const list = shown.map((p) => `\`${rel(p)}\``).join(", ");
+      const list = shown.map((p) => `\`${p}\``).join(", ");
       const tail =
         hidden > 0 ? ` (showing ${shown.length} of ${d.coverage.orphans.length})` : "";
       out.push("");
@@ -568,7 +642,7 @@ function renderWiki(d: RenderInput): string {
       if (spine.length === 0) {
         out.push("- (none flagged is_core in this community)");
       } else {
-        for (const s of spine) out.push(`- \`${s.name}\` — ${rel(s.path)}`);
+        for (const s of spine) out.push(`- \`${s.name}\` — ${s.path}`);
       }
       out.push("");
 
@@ -585,7 +659,7 @@ function renderWiki(d: RenderInput): string {
           const sig = f.signature
             ? f.signature.split("\n")[0].trim().slice(0, 100)
             : f.name;
-          out.push(`- \`${sig}\` — ${rel(f.path)}:${f.startRow + 1} (called ${f.callCount}×)`);
+          out.push(`- \`${sig}\` — ${f.path}:${f.startRow + 1} (called ${f.callCount}×)`);
         }
       }
       out.push("");
@@ -604,15 +678,20 @@ function renderWiki(d: RenderInput): string {
         `**Imported by:** ${importedBy.length > 0 ? importedBy.join(", ") : "(none — outermost layer)"}`,
       );
 
-      // External dependencies (imports to :Unresolved nodes — packages or
-      // out-of-scope paths). Surfaces what the agent would otherwise discover
-      // by grepping `import` statements.
+      // External dependencies — manifest-declared ExternalPackages (with
+      // their version range) plus :Unresolved imports (undeclared packages
+      // or out-of-scope paths). Surfaces what the agent would otherwise
+      // discover by grepping `import` statements.
       const externals = (externalsByCid.get(c.id) ?? [])
         .sort((a, b) => b.uses - a.uses)
         .slice(0, EXTERNALS_PER_COMMUNITY);
       if (externals.length > 0) {
         const rendered = externals
-          .map((e) => `\`${e.spec}\` (${e.uses}×)`)
+          .map((e) => {
+            const version = e.versions.length ? ` ${e.versions.join(" / ")}` : "";
+            const tag = e.declared ? "" : ", undeclared";
+            return `\`${e.spec}\`${version} (${e.uses}×${tag})`;
+          })
           .join(", ");
         out.push(`**External deps (not indexed):** ${rendered}`);
       }
@@ -649,7 +728,7 @@ function renderWiki(d: RenderInput): string {
     out.push("| Method | Route | File |");
     out.push("|---|---|---|");
     for (const r of d.routes.slice(0, ROUTES_RENDER_CAP)) {
-      const file = `${rel(r.path)}:${r.startRow + 1}`;
+      const file = `${r.path}:${r.startRow + 1}`;
       out.push(`| ${r.method} | ${r.route || "(no path)"} | ${file} |`);
     }
     if (d.routes.length > ROUTES_RENDER_CAP) {
@@ -666,10 +745,41 @@ function renderWiki(d: RenderInput): string {
   } else {
     out.push("Files that nothing else in the indexed graph imports — likely application starts:");
     out.push("");
-    for (const p of d.entries.slice(0, 20)) out.push(`- \`${rel(p)}\``);
+    for (const p of d.entries.slice(0, 20)) out.push(`- \`${p}\``);
     if (d.entries.length > 20) out.push(`\n*… ${d.entries.length - 20} more.*`);
   }
 
+  // ─── Declared dependencies ─────────────────────────────────────────────
+  if (d.dependencies.length > 0) {
+    out.push(SECTION_DIVIDER);
+    out.push(`## External dependencies (${d.dependencies.length} declared)`);
+    out.push("");
+    out.push("From package.json / pom.xml / Gradle manifests, by number of importing files:");
+    out.push("");
+    out.push("| Package | Version | Scope | Importing files |");
+    out.push("|---|---|---|---|");
+    for (const dep of d.dependencies.slice(0, DEPENDENCIES_RENDER_CAP)) {
+      out.push(
+        `| \`${dep.name}\` | ${dep.versions.join(" / ") || "—"} | ${dep.scopes.join(", ")} | ${dep.importers} |`,
+      );
+    }
+    if (d.dependencies.length > DEPENDENCIES_RENDER_CAP) {
+      out.push(`\n*… ${d.dependencies.length - DEPENDENCIES_RENDER_CAP} more truncated.*`);
+    }
+    const unused = d.dependencies.filter((dep) => dep.importers === 0);
+    if (unused.length > 0) {
+      out.push("");
+      out.push(
+        `**Declared but never imported (${unused.length}):** ` +
+          unused.map((dep) => `\`${dep.name}\``).join(", "),
+      );
+      out.push(
+        "> Expected for CLI tools, type-only packages and build plugins. Java deps are " +
+          "matched to imports by groupId prefix, so treat unmatched Maven artifacts as a hint.",
+      );
+    }
+  }
+
   // ─── Tests ─────────────────────────────────────────────────────────────
   out.push(SECTION_DIVIDER);
   out.push("## Test inventory");
@@ -690,7 +800,7 @@ function renderWiki(d: RenderInput): string {
     out.push("");
     out.push("**Files:**");
     for (const t of d.tests.slice(0, TESTS_RENDER_CAP)) {
-      out.push(`- \`${rel(t.path)}\` (${t.framework ?? "?"})`);
+      out.push(`- \`${t.path}\` (${t.framework ?? "?"})`);
     }
     if (d.tests.length > TESTS_RENDER_CAP) {
       out.push(`\n*… ${d.tests.length - TESTS_RENDER_CAP} more truncated.*`);
@@ -729,7 +839,7 @@ function renderWiki(d: RenderInput): string {
     const sig = g.signature
       ? g.signature.split("\n")[0].trim().slice(0, 120)
       : g.name;
-    out.push(`- **\`${g.name}\`** (${g.callCount}×) — \`${sig}\` — ${rel(g.path)}:${g.startRow + 1}`);
+    out.push(`- **\`${g.name}\`** (${g.callCount}×) — \`${sig}\` — ${g.path}:${g.startRow + 1}`);
   }
 
   return out.join("\n");
@@ -786,6 +896,8 @@ function pluralKind(kind: string, count: number): string {
   switch (kind) {
     case "TypeAlias":
       return "type aliases";
+    case "ExternalPackage":
+      return "external packages";
     case "Community":
       return "communities";
     case "Class":
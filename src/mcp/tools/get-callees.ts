@@ -1,7 +1,12 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import type { ToolContext } from "../server";
-import { readQuery, asNumber, nodeKind, textResult, int } from "../util";
+import {
+  textResult,
+  CONFIDENCE_LEVELS,
+  confidenceNote,
+  repoInput,
+} from "../util";
 
 const getCalleesSchema: Record<string, any> = {
   symbol: z.string().describe("Name of the calling function/method to expand."),
@@ -23,6 +28,14 @@ const getCalleesSchema: Record<string, any> = {
     .max(100)
     .optional()
     .describe("Max callees (default 30)."),
+  minConfidence: z
+    .enum(CONFIDENCE_LEVELS)
+    .optional()
+    .describe(
+      "Drop callees reached through a CALLS edge resolved below this confidence " +
+        "(default 'low' = keep all, annotated).",
+    ),
+  repo: repoInput,
 };
 
 export function registerGetCallees(
@@ -38,31 +51,23 @@ export function registerGetCallees(
         "Use this to answer 'what does X depend on?' or 'what library/internal calls happen inside X?'. " +
         "depth=1 returns direct callees; higher depths walk transitively. " +
         "Callees may include `:Unresolved` placeholder nodes — these are calls to symbols not " +
-        "found in the indexed code (typically library or builtin methods).",
+        "found in the indexed code (typically library or builtin methods). Callees bound by " +
+        "weaker resolution (same-file or name-only guesses) are annotated with their confidence; " +
+        "pass minConfidence to filter them out.",
       inputSchema: getCalleesSchema,
     },
-    async ({ symbol, file, depth, limit }) => {
+    async ({ symbol, file, depth, limit, minConfidence, repo }) => {
       const d = depth ?? 1;
       const lim = limit ?? 30;
-      const fileFilter = file ? "AND src.path CONTAINS $file" : "";
-      const params: Record<string, unknown> = {
+      const minRank = CONFIDENCE_LEVELS.indexOf(minConfidence ?? "low");
+      const records = await ctx.store.callees({
         symbol,
-        lim: int(lim),
-      };
-      if (file) params.file = file;
-
-      const records = await readQuery(
-        ctx,
-        `MATCH (src:CodeNode { name: $symbol })
-         WHERE src:Function OR src:Method ${fileFilter}
-         WITH src LIMIT 5
-         MATCH (src)-[r:CALLS*1..${d}]->(target)
-         WITH DISTINCT target, size(r) AS distance
-         RETURN target, distance
-         ORDER BY distance, target.name
-         LIMIT $lim`,
-        params,
-      );
+        file,
+        depth: d,
+        minRank,
+        repo,
+        limit: lim,
+      });
 
       if (records.length === 0) {
         return textResult(
@@ -71,18 +76,19 @@ export function registerGetCallees(
       }
 
       const lines = records.map((r) => {
-        const target = r.target as {
-          properties: Record<string, unknown>;
-          labels: string[];
-        };
-        const p = target.properties;
-        const k = nodeKind(target.labels);
-        const distance = asNumber(r.distance);
+        const p = r.target.properties;
+        const k = r.target.kind;
+        const distance = r.distance;
         const name = p.name ?? p.symbol ?? "(unknown)";
         const loc = p.path
-          ? `${p.path}:${(asNumber(p.startRow) ?? 0) + 1}`
+          ? `${p.repo && !repo ? `${p.repo} ` : ""}${p.path}:${((p.startRow as number | undefined) ?? 0) + 1}`
           : "(external)";
-        return `- [d=${distance}] ${k} ${name}\n    ${loc}`;
+        const note = confidenceNote(
+          r.rank,
+          distance === 1 ? r.strategy : undefined,
+          distance === 1 ? r.candidates : undefined,
+        );
+        return `- [d=${distance}] ${k} ${name}${note}\n    ${loc}`;
       });
 
       return textResult(
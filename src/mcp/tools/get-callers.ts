@@ -1,7 +1,13 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import type { ToolContext } from "../server";
-import { readQuery, asNumber, nodeKind, textResult, int } from "../util";
+import {
+  textResult,
+  CONFIDENCE_LEVELS,
+  confidenceLevel,
+  confidenceNote,
+  repoInput,
+} from "../util";
 
 const getCallersSchema: Record<string, any> = {
   symbol: z
@@ -21,6 +27,14 @@ const getCallersSchema: Record<string, any> = {
     .max(100)
     .optional()
     .describe("Max callers (default 20)."),
+  minConfidence: z
+    .enum(CONFIDENCE_LEVELS)
+    .optional()
+    .describe(
+      "Drop callers reached through a CALLS edge resolved below this confidence " +
+        "(default 'low' = keep all, annotated). 'medium' hides ambiguous name-only matches.",
+    ),
+  repo: repoInput,
 };
 
 export function registerGetCallers(
@@ -35,50 +49,71 @@ export function registerGetCallers(
         "List the Function/Method nodes that CALL the given symbol — its inbound dependencies. " +
         "Use this to answer 'who uses X?' or 'what would break if I changed X?'. " +
         "depth=1 returns direct callers; higher depths walk the call graph transitively. " +
-        "If the symbol name is ambiguous, use get_definition first to identify the right id.",
+        "If the symbol name is ambiguous, use get_definition first to identify the right id. " +
+        "Callers linked by weaker resolution (same-file or name-only guesses) are annotated " +
+        "with their confidence; pass minConfidence to filter them out. " +
+        "When the symbol's doc comment says `@deprecated`, the result leads with the reason " +
+        "(its callers are the migration list); deprecated callers are tagged `(deprecated)`.",
       inputSchema: getCallersSchema,
     },
-    async ({ symbol, depth, limit }) => {
+    async ({ symbol, depth, limit, minConfidence, repo }) => {
       const d = depth ?? 1;
       const lim = limit ?? 20;
+      const minRank = CONFIDENCE_LEVELS.indexOf(minConfidence ?? "low");
 
-      // Resolve the symbol to actual node ids first (handles unresolved targets too).
-      // `r` from `[r:CALLS*1..N]` is a List<Relationship>; use `size(r)` not
-      // `length(r)` (length() is for Path values, hence the Neo4j type-mismatch
-      // error this tool used to throw on depth=1).
-      const records = await readQuery(
-        ctx,
-        `MATCH (caller:CodeNode)-[r:CALLS*1..${d}]->(target)
-         WHERE target.name = $symbol OR target.symbol = $symbol
-         WITH caller, size(r) AS distance, target
-         RETURN DISTINCT caller, distance, target.name AS targetName, target.path AS targetPath
-         ORDER BY distance, caller.path
-         LIMIT $lim`,
-        { symbol, lim: int(lim) },
-      );
+      const records = await ctx.store.callers({
+        symbol,
+        depth: d,
+        minRank,
+        repo,
+        limit: lim,
+      });
 
       if (records.length === 0) {
-        return textResult(`No callers found for "${symbol}" within depth ${d}.`);
+        return textResult(
+          `No callers found for "${symbol}" within depth ${d}` +
+            (minRank > 0 ? ` at ${minConfidence} confidence or better.` : "."),
+        );
       }
 
       const lines = records.map((r) => {
-        const caller = r.caller as {
-          properties: Record<string, unknown>;
-          labels: string[];
-        };
-        const p = caller.properties;
-        const k = nodeKind(caller.labels);
-        const distance = asNumber(r.distance);
-        const startRow = asNumber(p.startRow) ?? 0;
+        const p = r.caller.properties;
+        const k = r.caller.kind;
+        const distance = r.distance;
+        const startRow = (p.startRow as number | undefined) ?? 0;
         return (
-          `- [d=${distance}] ${k} ${p.name}\n` +
-          `    ${p.path}:${startRow + 1}`
+          `- [d=${distance}] ${k} ${p.name}` +
+          (p.deprecated ? " (deprecated)" : "") +
+          confidenceNote(
+            r.rank,
+            distance === 1 ? r.strategy : undefined,
+            distance === 1 ? r.candidates : undefined,
+          ) +
+          `\n    ${p.repo && !repo ? `${p.repo} ` : ""}${p.path}:${startRow + 1}`
         );
       });
+      // One line per deprecated declaration the symbol resolved to.
+      const deprecations = new Map<string, string>();
+      for (const r of records) {
+        if (!r.targetDeprecated) continue;
+        deprecations.set(
+          String(r.targetPath ?? ""),
+          `⚠️ \`${r.targetName}\` (${r.targetPath}) is deprecated` +
+            (r.deprecatedReason ? `: ${r.deprecatedReason}` : "."),
+        );
+      }
+      const guesses = records.filter(
+        (r) => confidenceLevel(r.rank) === "low",
+      ).length;
 
       return textResult(
-        `${records.length} caller(s) of "${symbol}" (depth ≤ ${d}):\n\n` +
-          lines.join("\n"),
+        (deprecations.size > 0 ? [...deprecations.values()].join("\n") + "\n\n" : "") +
+          `${records.length} caller(s) of "${symbol}" (depth ≤ ${d}):\n\n` +
+          lines.join("\n") +
+          (guesses > 0
+            ? `\n\n${guesses} caller(s) hinge on an ambiguous name-only match — ` +
+              `verify them, or pass minConfidence: "medium" to hide them.`
+            : ""),
       );
     },
   );
@@ -1,7 +1,7 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import type { ToolContext } from "../server";
-import { readQuery, asNumber, nodeKind, textResult } from "../util";
+import { asNumber, textResult, repoInput } from "../util";
 
 const getDefinitionSchema: Record<string, any> = {
   name: z.string().describe("Exact symbol name (function/class/method/etc)."),
@@ -21,6 +21,7 @@ const getDefinitionSchema: Record<string, any> = {
     ])
     .optional()
     .describe("Restrict to one node kind."),
+  repo: repoInput,
 };
 
 export function registerGetDefinition(
@@ -32,30 +33,20 @@ export function registerGetDefinition(
     {
       title: "Get full definition of a symbol",
       description:
-        "Fetch the full source body, signature, and location of a symbol by name. " +
+        "Fetch the full source body, signature, doc comment and location of a symbol by name. " +
         "Returns ALL matches (a name like 'parse' may appear in many files). " +
         "Use after search_code to get the actual code, or directly when you know the symbol name. " +
         "If multiple matches and you need to disambiguate, pass the file param.",
       inputSchema: getDefinitionSchema,
     },
-    async ({ name, file, kind }) => {
-      const where: string[] = ["n.name = $name"];
-      const params: Record<string, unknown> = { name };
-      if (file) {
-        where.push("n.path CONTAINS $file");
-        params.file = file;
-      }
-      if (kind) where.push(`n:\`${kind}\``);
-
-      const records = await readQuery(
-        ctx,
-        `MATCH (n:CodeNode)
-         WHERE ${where.join(" AND ")}
-         RETURN n
-         ORDER BY n.path, n.startRow
-         LIMIT 20`,
-        params,
-      );
+    async ({ name, file, kind, repo }) => {
+      const records = await ctx.store.definitions({
+        name,
+        file,
+        kind,
+        repo,
+        limit: 20,
+      });
 
       if (records.length === 0) {
         return textResult(
@@ -65,24 +56,24 @@ export function registerGetDefinition(
         );
       }
 
-      const blocks = records.map((r, i) => {
-        const node = r.n as {
-          properties: Record<string, unknown>;
-          labels: string[];
-        };
+      const blocks = records.map((node, i) => {
         const p = node.properties;
-        const k = nodeKind(node.labels);
+        const k = node.kind;
         const startRow = asNumber(p.startRow) ?? 0;
         const endRow = asNumber(p.endRow) ?? 0;
         const truncated = p.bodyTruncated ? " (truncated)" : "";
-        const header = `## ${i + 1}. ${k} \`${p.name}\` — ${p.path}:${startRow + 1}-${endRow + 1}${truncated}`;
+        const header = `## ${i + 1}. ${k} \`${p.name}\` — ${p.repo && !repo ? `${p.repo} ` : ""}${p.path}:${startRow + 1}-${endRow + 1}${truncated}`;
+        const deprecated = p.deprecated
+          ? `\n\n⚠️ Deprecated${p.deprecatedReason ? `: ${p.deprecatedReason}` : "."}`
+          : "";
+        const doc = p.doc ? `\n\nDoc:\n${p.doc}` : "";
         const sig = p.signature
           ? `\n\nSignature:\n\`\`\`${p.language ?? ""}\n${p.signature}\n\`\`\``
           : "";
         const body = p.body
           ? `\n\nBody:\n\`\`\`${p.language ?? ""}\n${p.body}\n\`\`\``
           : "\n\n(no body stored)";
-        return header + sig + body;
+        return header + deprecated + doc + sig + body;
       });
 
       return textResult(
@@ -1,6 +1,12 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import type { ToolContext } from "../server";
-import { readQuery, asNumber, textResult } from "../util";
+import type { Neo4jToolContext } from "../server";
+import {
+  readQuery,
+  asNumber,
+  textResult,
+  repoInput,
+  repoScope,
+} from "../util";
 
 /**
  * Build a freshness annotation for an agent-written community description.
@@ -43,7 +49,7 @@ function describeDescriptionFreshness(
 
 export function registerGetOverview(
   server: McpServer,
-  ctx: ToolContext,
+  ctx: Neo4jToolContext,
 ): void {
   server.registerTool(
     "get_overview",
@@ -52,64 +58,159 @@ export function registerGetOverview(
       description:
         "Return a fast structural summary: total counts by node kind, language distribution, " +
         "top architectural communities (subsystems detected via Leiden), and the spine files " +
-        "in each community (most central, by PageRank+boundary). " +
+        "in each community (most central, by PageRank+boundary), plus workspace packages " +
+        "(npm/yarn/pnpm monorepos) with the communities they span and cross-package imports, " +
+        "and React component trees (root components and what they render). " +
+        "When the database holds several repositories it lists their ids and the " +
+        "dependencies linked between them; pass repo to summarise one. " +
         "Use this as the FIRST tool when starting work on an unfamiliar codebase to orient yourself. " +
         "If communities are unlabeled, the response ends with an ACTION REQUIRED block — " +
         "follow it by calling label_community for each unlabeled community to give them " +
         "human-readable names that will persist for future sessions.",
-      inputSchema: {},
+      inputSchema: { repo: repoInput } as Record<string, any>,
     },
-    async () => {
-      const [counts, languages, communities, repoRows] = await Promise.all([
-        readQuery(
-          ctx,
-          `MATCH (n:CodeNode)
-           WITH labels(n) AS labels, n
-           UNWIND labels AS l
-           WITH l, count(*) AS c WHERE l <> 'CodeNode'
-           RETURN l AS kind, c AS count ORDER BY count DESC`,
-        ),
-        readQuery(
-          ctx,
-          `MATCH (f:File) WHERE f.language IS NOT NULL
-           RETURN f.language AS language, count(*) AS count ORDER BY count DESC`,
-        ),
-        readQuery(
-          ctx,
-          // Fetch heuristicLabel for fallback chain, plus full paths so we
-          // can render relative-to-repo (basenames alone collide across
-          // communities — e.g. langchainjs has many `base.ts` and `index.ts`).
-          // Also fetch description timestamp + spine snapshot so we can flag
-          // stale summaries to the agent.
-          `MATCH (c:Community)<-[:IN_COMMUNITY]-(f:File)
-           OPTIONAL MATCH (c)<-[:IN_COMMUNITY]-(spine:File {is_core: true})
-           WITH c, count(DISTINCT f) AS size,
-                collect(DISTINCT spine.path)[..6] AS spinePaths,
-                collect(DISTINCT f.path)[..3] AS samplePaths
-           RETURN c.communityId AS id,
-                  c.label AS label,
-                  c.heuristicLabel AS heuristicLabel,
-                  c.description AS description,
-                  c.descriptionWrittenAt AS descriptionWrittenAt,
-                  c.descriptionSpineSnapshot AS descriptionSpineSnapshot,
-                  size, spinePaths, samplePaths
-           ORDER BY size DESC LIMIT 12`,
-        ),
-        readQuery(ctx, `MATCH (r:Repository) RETURN r.path AS path LIMIT 1`),
-      ]);
-
-      // Repo prefix used to render relative paths. Falls back to "" so
-      // absolute paths render as-is on cold/missing Repository nodes.
-      const repoPath: string =
-        (repoRows[0]?.path as string | undefined) ?? "";
-      const rel = (p: string): string =>
-        repoPath && p.startsWith(repoPath)
-          ? p.slice(repoPath.length).replace(/^\/+/, "")
-          : p;
+    async ({ repo }) => {
+      const params = { repo: repo ?? null };
+      const [
+        repos,
+        crossRepo,
+        counts,
+        languages,
+        communities,
+        packages,
+        packageDeps,
+        componentTrees,
+        componentStats,
+      ] = await Promise.all([
+          readQuery(
+            ctx,
+            `MATCH (r:Repository)
+             RETURN substring(r.id, 5) AS id, r.name AS name,
+                    r.lastIndexed AS lastIndexed
+             ORDER BY id`,
+          ),
+          readQuery(
+            ctx,
+            // Edges linkRepositories re-pointed from an ExternalPackage at
+            // the repository publishing it.
+            `MATCH (a:CodeNode)-[x:DEPENDS_ON|IMPORTS]->(b:CodeNode)
+             WHERE x.meta_via IS NOT NULL
+               AND ($repo IS NULL OR a.repo = $repo OR b.repo = $repo)
+             RETURN a.repo AS from, b.repo AS to, b.name AS target,
+                    count(*) AS edges
+             ORDER BY edges DESC LIMIT 30`,
+            params,
+          ),
+          readQuery(
+            ctx,
+            `MATCH (n:CodeNode) WHERE ${repoScope("n")}
+             WITH labels(n) AS labels, n
+             UNWIND labels AS l
+             WITH l, count(*) AS c WHERE l <> 'CodeNode'
+             RETURN l AS kind, c AS count ORDER BY count DESC`,
+            params,
+          ),
+          readQuery(
+            ctx,
+            `MATCH (f:File) WHERE f.language IS NOT NULL AND ${repoScope("f")}
+             RETURN f.language AS language, count(*) AS count ORDER BY count DESC`,
+            params,
+          ),
+          readQuery(
+            ctx,
+            // Fetch heuristicLabel for fallback chain, plus repo-relative
+            // paths (basenames alone collide across communities — e.g.
+            // langchainjs has many `base.ts` and `index.ts`).
+            // Also fetch description timestamp + spine snapshot so we can flag
+            // stale summaries to the agent.
+            `MATCH (c:Community)<-[:IN_COMMUNITY]-(f:File)
+             WHERE ${repoScope("f")}
+             OPTIONAL MATCH (c)<-[:IN_COMMUNITY]-(spine:File {is_core: true})
+             WHERE ${repoScope("spine")}
+             WITH c, count(DISTINCT f) AS size,
+                  collect(DISTINCT spine.path)[..6] AS spinePaths,
+                  collect(DISTINCT f.path)[..3] AS samplePaths
+             RETURN c.communityId AS id,
+                    c.label AS label,
+                    c.heuristicLabel AS heuristicLabel,
+                    c.description AS description,
+                    c.descriptionWrittenAt AS descriptionWrittenAt,
+                    c.descriptionSpineSnapshot AS descriptionSpineSnapshot,
+                    size, spinePaths, samplePaths
+             ORDER BY size DESC LIMIT 12`,
+            params,
+          ),
+          readQuery(
+            ctx,
+            // Which Leiden communities each package's files fall into — shows
+            // where detected subsystems line up with (or cut across) packages.
+            `MATCH (p:Package) WHERE ${repoScope("p")}
+             OPTIONAL MATCH (p)-[:CONTAINS]->(f:File)
+             OPTIONAL MATCH (f)-[:IN_COMMUNITY]->(c:Community)
+             WITH p, count(DISTINCT f) AS files,
+                  collect(DISTINCT coalesce(c.label, c.heuristicLabel,
+                                            'community-' + toString(c.communityId))) AS communities
+             RETURN p.name AS name, p.path AS path, p.meta_version AS version,
+                    files, communities
+             ORDER BY files DESC LIMIT 30`,
+            params,
+          ),
+          readQuery(
+            ctx,
+            `MATCH (a:Package)-[:CONTAINS]->(:File)-[:IMPORTS]->(:File)<-[:CONTAINS]-(b:Package)
+             WHERE a <> b AND ${repoScope("a")}
+             RETURN a.name AS from, b.name AS to, count(*) AS imports
+             ORDER BY imports DESC LIMIT 30`,
+            params,
+          ),
+          readQuery(
+            ctx,
+            // Root components (rendered by no other component) two levels
+            // deep — the app shells and pages.
+            `MATCH (root:CodeNode {meta_reactComponent: true})-[:RENDERS]->(child:CodeNode)
+             WHERE NOT (root)<-[:RENDERS]-(:CodeNode) AND ${repoScope("root")}
+             OPTIONAL MATCH (child)-[:RENDERS]->(grand:CodeNode)
+             WITH root, child, collect(DISTINCT grand.name) AS grandchildren
+             WITH root, collect({name: child.name, children: grandchildren}) AS children
+             RETURN root.name AS name, root.path AS path, children
+             ORDER BY size(children) DESC LIMIT 8`,
+            params,
+          ),
+          readQuery(
+            ctx,
+            `MATCH (c:CodeNode {meta_reactComponent: true})
+             WHERE ${repoScope("c")}
+             OPTIONAL MATCH (p:CodeNode)-[:RENDERS]->(c)
+             WITH c, count(DISTINCT p) AS parents
+             ORDER BY parents DESC
+             WITH collect({name: c.name, parents: parents}) AS all
+             RETURN size(all) AS total, [x IN all WHERE x.parents > 1][..8] AS reused`,
+            params,
+          ),
+        ]);
 
       const out: string[] = [];
-      out.push("# Codebase overview");
+      out.push(`# Codebase overview${repo ? ` — ${repo}` : ""}`);
       out.push("");
+      if (repos.length > 1) {
+        out.push(`## Repositories (${repos.length})`);
+        for (const r of repos) {
+          const indexed = r.lastIndexed
+            ? `, indexed ${String(r.lastIndexed).slice(0, 10)}`
+            : "";
+          out.push(`- \`${r.id}\` (${r.name}${indexed})`);
+        }
+        if (crossRepo.length > 0) {
+          out.push("");
+          out.push("Cross-repository dependencies (DEPENDS_ON / IMPORTS):");
+          for (const r of crossRepo) {
+            out.push(
+              `- ${r.from} → ${r.to} (\`${r.target}\`, ${asNumber(r.edges)} edges)`,
+            );
+          }
+        }
+        out.push("");
+      }
       out.push("## Node counts");
       for (const r of counts) {
         out.push(`- ${r.kind}: ${asNumber(r.count)}`);
@@ -120,6 +221,56 @@ export function registerGetOverview(
         out.push(`- ${r.language}: ${asNumber(r.count)}`);
       }
       out.push("");
+      if (packages.length > 0) {
+        out.push(`## Workspace packages (${packages.length})`);
+        for (const r of packages) {
+          const version = r.version ? `@${r.version}` : "";
+          const comms = ((r.communities as string[]) ?? []).slice(0, 5);
+          out.push(
+            `- **\`${r.name}${version}\`** (${r.path}, ${asNumber(r.files)} files)` +
+              (comms.length ? `\n    communities: ${comms.join(", ")}` : ""),
+          );
+        }
+        if (packageDeps.length > 0) {
+          out.push("");
+          out.push("### Cross-package imports");
+          for (const r of packageDeps) {
+            out.push(`- ${r.from} → ${r.to} (${asNumber(r.imports)} file imports)`);
+          }
+        }
+        out.push("");
+      }
+      const componentTotal = asNumber(componentStats[0]?.total) ?? 0;
+      if (componentTotal > 0) {
+        out.push(`## React component trees (${componentTotal} components)`);
+        for (const r of componentTrees) {
+          const children =
+            (r.children as { name: string; children: string[] }[]) ?? [];
+          out.push(`- **${r.name}** (${r.path})`);
+          for (const c of children.slice(0, 8)) {
+            const grand = c.children ?? [];
+            const more = grand.length > 5 ? `, +${grand.length - 5}` : "";
+            out.push(
+              `    → ${c.name}` +
+                (grand.length ? ` → ${grand.slice(0, 5).join(", ")}${more}` : ""),
+            );
+          }
+          if (children.length > 8) {
+            out.push(`    → … +${children.length - 8} more`);
+          }
+        }
+        const reused =
+          (componentStats[0]?.reused as { name: string; parents: unknown }[]) ??
+          [];
+        if (reused.length > 0) {
+          out.push(
+            `- Most reused: ${reused
+              .map((c) => `${c.name} (${asNumber(c.parents)} parents)`)
+              .join(", ")}`,
+          );
+        }
+        out.push("");
+      }
       if (communities.length === 0) {
         out.push(
           "## Communities\n(none — run `--cluster` to detect architectural subsystems)",
@@ -165,8 +316,8 @@ export function registerGetOverview(
           const descriptionSpineSnapshot: string[] = Array.isArray(snapshotRaw)
             ? (snapshotRaw as unknown[]).map(String)
             : [];
-          const spinePaths = ((r.spinePaths as string[]) ?? []).map(rel);
-          const samplePaths = ((r.samplePaths as string[]) ?? []).map(rel);
+          const spinePaths = (r.spinePaths as string[]) ?? [];
+          const samplePaths = (r.samplePaths as string[]) ?? [];
 
           let heading: string;
           if (label) {
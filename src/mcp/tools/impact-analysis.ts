@@ -1,10 +1,19 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import type { ToolContext } from "../server";
-import { readQuery, asNumber, textResult } from "../util";
+import type { StoredNode } from "../store";
+import {
+  asNumber,
+  textResult,
+  CONFIDENCE_LEVELS,
+  Confidence,
+  repoInput,
+} from "../util";
 
 const impactAnalysisSchema: Record<string, any> = {
-  symbol: z.string().describe("Symbol name (function/method/class) to analyze."),
+  symbol: z
+    .string()
+    .describe("Symbol name (function/method/class/interface/type alias/enum) to analyze."),
   file: z
     .string()
     .optional()
@@ -16,6 +25,14 @@ const impactAnalysisSchema: Record<string, any> = {
     .max(5)
     .optional()
     .describe("Max transitive caller depth (default 3)."),
+  minConfidence: z
+    .enum(CONFIDENCE_LEVELS)
+    .optional()
+    .describe(
+      "Ignore callers reached only through CALLS edges resolved below this confidence " +
+        "(default 'low' = count everything, marking guesses). 'medium' drops name-only guesses.",
+    ),
+  repo: repoInput,
 };
 
 interface CallerInfo {
@@ -27,6 +44,8 @@ interface CallerInfo {
   callerPagerank: number;
   callerCommunityId?: number;
   callerCommunityLabel?: string;
+  /** Every path to the target crosses a low-confidence (name-only) CALLS edge. */
+  isGuess: boolean;
 }
 
 const HARD_TOTAL_CAP = 80;
@@ -48,12 +67,23 @@ export function registerImpactAnalysis(
         "(5) production callers grouped by architectural community. " +
         "Always includes a caveat: results are based on visible callers in the indexed graph " +
         "and may miss callers via re-exports, factory wrappers, or dynamic dispatch. " +
+        "Callers linked only by an ambiguous name match (CALLS `meta_confidence = 'low'`) are " +
+        "marked `(guess)`; pass minConfidence: 'medium' to leave them out of the verdict. " +
+        "For a type (Class/Interface/TypeAlias/Enum) the callers include every signature or " +
+        "field declaration that uses it (USES_TYPE), and their callers in turn. " +
         "Use BEFORE non-trivial edits, before code review, or to decide if it's safe to delete code.",
       inputSchema: impactAnalysisSchema,
     },
-    async ({ symbol, file, maxDepth }) => {
+    async ({ symbol, file, maxDepth, minConfidence, repo }) => {
       const d = maxDepth ?? 3;
-      return await runImpactAnalysis(ctx, symbol, file, d);
+      return await runImpactAnalysis(
+        ctx,
+        symbol,
+        file,
+        d,
+        minConfidence ?? "low",
+        repo,
+      );
     },
   );
 }
@@ -63,80 +93,48 @@ async function runImpactAnalysis(
   symbol: string,
   file: string | undefined,
   d: number,
+  minConfidence: Confidence,
+  repo: string | undefined,
 ): Promise<{ content: Array<{ type: "text"; text: string }> }> {
   // 1. Locate the target + its home community + its is_core flag.
-  const targetParams: Record<string, unknown> = { symbol };
-  let targetWhere = "(target:Function OR target:Method OR target:Class OR target:Variable)";
-  if (file) {
-    targetWhere += " AND target.path CONTAINS $file";
-    targetParams.file = file;
-  }
-  const targetRows = await readQuery(
-    ctx,
-    `MATCH (target:CodeNode { name: $symbol })
-     WHERE ${targetWhere}
-     OPTIONAL MATCH (target)<-[:DEFINES]-(targetFile:File)
-     OPTIONAL MATCH (targetFile)-[:IN_COMMUNITY]->(targetComm:Community)
-     RETURN target, targetFile, targetComm,
-            targetFile.is_core AS targetIsCore,
-            targetFile.pagerank AS targetPagerank,
-            targetFile.boundary AS targetBoundary,
-            targetComm.communityId AS targetCommId,
-            targetComm.label AS targetCommLabel
-     LIMIT 1`,
-    targetParams,
-  );
-  if (targetRows.length === 0) {
+  const found = await ctx.store.impactTarget({ symbol, file, repo });
+  if (!found) {
     return textResult(
-      `No symbol named "${symbol}" found${file ? ` in files matching "${file}"` : ""}.`,
+      `No symbol named "${symbol}" found${file ? ` in files matching "${file}"` : ""}` +
+        `${repo ? ` in ${repo}` : ""}.`,
     );
   }
-  const tr = targetRows[0];
-  const target = tr.target as { properties: Record<string, unknown> };
-  const targetFile = tr.targetFile as { properties: Record<string, unknown> } | null;
-  const targetComm = tr.targetComm as { properties: Record<string, unknown> } | null;
-  const targetIsCore = !!tr.targetIsCore;
-  const targetCommId = asNumber(tr.targetCommId);
-  const targetCommLabel = tr.targetCommLabel as string | null;
-  const targetBoundary = asNumber(tr.targetBoundary) ?? 0;
+  const target = found.target;
+  const targetFile = found.file ?? null;
+  const targetIsCore = found.isCore;
+  const targetCommId = found.communityId;
+  const targetCommLabel = found.communityLabel ?? null;
+  const targetBoundary = found.boundary;
 
   // 2. Pull callers (direct + transitive) with caller-side context.
-  const callerRows = await readQuery(
-    ctx,
-    `MATCH (target:CodeNode { name: $symbol })
-     WHERE (target:Function OR target:Method OR target:Class OR target:Variable)
-     ${file ? "AND target.path CONTAINS $file" : ""}
-     WITH target LIMIT 1
-     MATCH (caller)-[r:CALLS*1..${d}]->(target)
-     WITH DISTINCT caller, size(r) AS distance
-     OPTIONAL MATCH (caller)<-[:DEFINES]-(callerFile:File)
-     OPTIONAL MATCH (callerFile)-[:IN_COMMUNITY]->(callerComm:Community)
-     RETURN caller.name AS name,
-            caller.path AS path,
-            caller.startRow AS startRow,
-            distance,
-            callerFile.is_core AS callerIsCore,
-            callerFile.pagerank AS callerPagerank,
-            callerFile.isTest AS callerIsTest,
-            callerComm.communityId AS callerCommId,
-            callerComm.label AS callerCommLabel`,
-    targetParams,
-  );
+  const callerRows = await ctx.store.impactCallers({
+    symbol,
+    file,
+    repo,
+    depth: d,
+    minRank: CONFIDENCE_LEVELS.indexOf(minConfidence),
+  });
 
   const allCallers: CallerInfo[] = callerRows.map((r) => ({
-    name: String(r.name ?? "(anonymous)"),
-    path: String(r.path ?? ""),
-    startRow: asNumber(r.startRow) ?? 0,
-    isTest: !!r.callerIsTest,
-    isSpineCaller: !!r.callerIsCore,
-    callerPagerank: asNumber(r.callerPagerank) ?? 0,
-    callerCommunityId: asNumber(r.callerCommId),
-    callerCommunityLabel: (r.callerCommLabel as string | null) ?? undefined,
+    name: r.name ?? "(anonymous)",
+    path: r.path ?? "",
+    startRow: r.startRow ?? 0,
+    isTest: r.isTest,
+    isSpineCaller: r.isCore,
+    callerPagerank: r.pagerank,
+    callerCommunityId: r.communityId,
+    callerCommunityLabel: r.communityLabel,
+    isGuess: r.rank === 0,
   }));
 
   // distance==1 callers are direct; rest are transitive.
   const direct = callerRows
-    .map((r, i) => (asNumber(r.distance) === 1 ? allCallers[i] : null))
+    .map((r, i) => (r.distance === 1 ? allCallers[i] : null))
     .filter((c): c is CallerInfo => c !== null);
   const transitive = allCallers; // includes direct + indirect
 
@@ -155,6 +153,9 @@ async function runImpactAnalysis(
     if (c.callerCommunityId !== undefined) callerCommunityIds.add(c.callerCommunityId);
   }
   const otherCommunities = [...callerCommunityIds].filter((id) => id !== targetCommId);
+  // Without clustering (the in-memory backend, or before Leiden has run)
+  // there is nothing to group by, so community rows are left out.
+  const hasCommunities = targetCommId !== undefined || callerCommunityIds.size > 0;
 
   // Risk score (metadata only — not rendered, but available to programmatic callers).
   const riskScore =
@@ -173,6 +174,7 @@ async function runImpactAnalysis(
     spineCount: spineCallers.length,
     crossCommunityCount: otherCommunities.length,
     targetIsCore,
+    hasCommunities,
   });
 
   // 4. Apply truncation policy to production callers grouped by community.
@@ -183,7 +185,6 @@ async function runImpactAnalysis(
     renderImpactAnalysis({
       target,
       targetFile,
-      targetComm,
       targetCommId,
       targetCommLabel,
       targetIsCore,
@@ -197,9 +198,11 @@ async function runImpactAnalysis(
       spineCallers,
       otherCommunities,
       callerCommunityIds,
+      hasCommunities,
       renderedProd,
       riskScore,
       maxDepth: d,
+      minConfidence,
     }),
   );
 }
@@ -209,8 +212,10 @@ function computeVerdict(args: {
   spineCount: number;
   crossCommunityCount: number;
   targetIsCore: boolean;
+  hasCommunities: boolean;
 }): { tone: "safe" | "focus" | "risky"; line: string } {
-  const { prodDirectCount, spineCount, crossCommunityCount, targetIsCore } = args;
+  const { prodDirectCount, spineCount, crossCommunityCount, targetIsCore, hasCommunities } =
+    args;
 
   // Risky requires real caller-side signal; targetIsCore alone is not enough
   // (a defunct helper inside a spine file has no real blast radius).
@@ -260,7 +265,8 @@ function computeVerdict(args: {
     tone: "safe",
     line:
       `Probably safe to change. ${prodDirectCount} direct production caller${pluralS(prodDirectCount)}` +
-      `, contained to one community, no spine callers.`,
+      (hasCommunities ? `, contained to one community` : "") +
+      `, no spine callers.`,
   };
 }
 
@@ -338,9 +344,8 @@ function truncateProdCallers(
 }
 
 interface RenderArgs {
-  target: { properties: Record<string, unknown> };
-  targetFile: { properties: Record<string, unknown> } | null;
-  targetComm: { properties: Record<string, unknown> } | null;
+  target: StoredNode;
+  targetFile: StoredNode | null;
   targetCommId: number | undefined;
   targetCommLabel: string | null;
   targetIsCore: boolean;
@@ -354,9 +359,11 @@ interface RenderArgs {
   spineCallers: CallerInfo[];
   otherCommunities: number[];
   callerCommunityIds: Set<number>;
+  hasCommunities: boolean;
   renderedProd: TruncatedProd;
   riskScore: number;
   maxDepth: number;
+  minConfidence: Confidence;
 }
 
 function renderImpactAnalysis(a: RenderArgs): string {
@@ -377,29 +384,39 @@ function renderImpactAnalysis(a: RenderArgs): string {
     "> Based on visible callers in the indexed graph. May miss callers via re-exports, " +
       "factory wrappers, or dynamic dispatch. Always sanity-check before destructive edits.",
   );
-  out.push("");
-
-  // Cross-community headline.
-  out.push("## Cross-community impact");
-  out.push("");
-  if (a.otherCommunities.length === 0) {
-    const homeLabel = a.targetCommLabel ?? `community-${a.targetCommId ?? "?"}`;
-    out.push(`✅ Contained: all callers are in **${homeLabel}**.`);
-  } else {
-    const otherLabels = [...a.callerCommunityIds]
-      .filter((id) => id !== a.targetCommId)
-      .map((id) => {
-        const slot = a.renderedProd.perCommunity.get(id);
-        return slot?.communityLabel ?? `community-${id}`;
-      });
-    const word =
-      a.otherCommunities.length === 1 ? "boundary" : "boundaries";
+  const guesses = a.direct.filter((c) => c.isGuess).length;
+  if (guesses > 0) {
     out.push(
-      `⚠️ Crosses ${a.otherCommunities.length} other community ${word}: ${otherLabels.join(", ")}.`,
+      `> ${guesses} of ${a.direct.length} direct caller${pluralS(a.direct.length)} ` +
+        `${guesses === 1 ? "is a guess" : "are guesses"} — linked by an ambiguous name ` +
+        "match, not by imports or a receiver type. Marked `(guess)` below; verify with read_code.",
     );
   }
   out.push("");
 
+  // Cross-community headline.
+  if (a.hasCommunities) {
+    out.push("## Cross-community impact");
+    out.push("");
+    if (a.otherCommunities.length === 0) {
+      const homeLabel = a.targetCommLabel ?? `community-${a.targetCommId ?? "?"}`;
+      out.push(`✅ Contained: all callers are in **${homeLabel}**.`);
+    } else {
+      const otherLabels = [...a.callerCommunityIds]
+        .filter((id) => id !== a.targetCommId)
+        .map((id) => {
+          const slot = a.renderedProd.perCommunity.get(id);
+          return slot?.communityLabel ?? `community-${id}`;
+        });
+      const word =
+        a.otherCommunities.length === 1 ? "boundary" : "boundaries";
+      out.push(
+        `⚠️ Crosses ${a.otherCommunities.length} other community ${word}: ${otherLabels.join(", ")}.`,
+      );
+    }
+    out.push("");
+  }
+
   // Spine callers (dedicated section).
   out.push("## Spine callers");
   out.push("");
@@ -411,7 +428,11 @@ function renderImpactAnalysis(a: RenderArgs): string {
     );
     for (const c of a.spineCallers) {
       const commLabel = c.callerCommunityLabel ?? `community-${c.callerCommunityId ?? "?"}`;
-      out.push(`- \`${c.name}\` — ${c.path}:${c.startRow + 1} (community: ${commLabel})`);
+      out.push(
+        `- \`${c.name}\` — ${c.path}:${c.startRow + 1}` +
+          (a.hasCommunities ? ` (community: ${commLabel})` : "") +
+          guessTag(c),
+      );
     }
   }
   out.push("");
@@ -442,7 +463,8 @@ function renderImpactAnalysis(a: RenderArgs): string {
     out.push("None — no direct production callers.");
   } else {
     out.push(
-      `${a.prodDirect.length} direct production caller${pluralS(a.prodDirect.length)} (per-community cap: ${a.renderedProd.capUsed}):`,
+      `${a.prodDirect.length} direct production caller${pluralS(a.prodDirect.length)} ` +
+        `(${a.hasCommunities ? "per-community cap" : "cap"}: ${a.renderedProd.capUsed}):`,
     );
     out.push("");
     // Sort communities so the target's home is rendered first.
@@ -455,13 +477,16 @@ function renderImpactAnalysis(a: RenderArgs): string {
       const slot = a.renderedProd.perCommunity.get(cid)!;
       const label = slot.communityLabel ?? `community-${cid}`;
       const isHome = cid === a.targetCommId;
-      out.push(`### ${label}${isHome ? " (target's home)" : ""}`);
+      if (a.hasCommunities) out.push(`### ${label}${isHome ? " (target's home)" : ""}`);
       for (const c of slot.kept) {
         const star = c.isSpineCaller ? "★ " : "";
-        out.push(`- ${star}\`${c.name}\` — ${c.path}:${c.startRow + 1}`);
+        out.push(`- ${star}\`${c.name}\` — ${c.path}:${c.startRow + 1}${guessTag(c)}`);
       }
       if (slot.total > slot.kept.length) {
-        out.push(`- … and ${slot.total - slot.kept.length} more in this community`);
+        out.push(
+          `- … and ${slot.total - slot.kept.length} more` +
+            (a.hasCommunities ? " in this community" : ""),
+        );
       }
       out.push("");
     }
@@ -504,12 +529,21 @@ function renderImpactAnalysis(a: RenderArgs): string {
   out.push(`- Target file is_core: ${a.targetIsCore ? "yes (target is a spine file)" : "no"}`);
   out.push(`- Direct caller count: ${a.direct.length} (${a.prodDirect.length} prod, ${a.testDirect.length} test)`);
   out.push(`- Transitive caller count (depth ≤ ${a.maxDepth}): ${a.transitive.length} (${a.prodTransitive.length} prod, ${a.testTransitive.length} test)`);
+  out.push(
+    a.minConfidence === "low"
+      ? `- Call resolution: all CALLS edges counted (guesses marked)`
+      : `- Call resolution: only CALLS edges at ${a.minConfidence} confidence or better`,
+  );
   out.push(`- Interface impl callers: N/A (Tier 2 not yet enabled)`);
   out.push(`- Risk score: ${a.riskScore.toFixed(1)} (advisory metadata, see breakdown above for the actual signal)`);
 
   return out.join("\n");
 }
 
+function guessTag(c: CallerInfo): string {
+  return c.isGuess ? " (guess)" : "";
+}
+
 /** Returns "s" for plural counts, "" for 1. Cleaner than the previous variadic helper. */
 function pluralS(n: number): string {
   return n === 1 ? "" : "s";
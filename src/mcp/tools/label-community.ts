@@ -1,7 +1,7 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import type { ToolContext } from "../server";
-import { writeQuery, textResult, int } from "../util";
+import type { Neo4jToolContext } from "../server";
+import { writeQuery, textResult, int, repoInput } from "../util";
 
 const labelCommunitySchema: Record<string, any> = {
   communityId: z
@@ -22,6 +22,7 @@ const labelCommunitySchema: Record<string, any> = {
     .describe(
       "One-sentence description of what files in this community share.",
     ),
+  repo: repoInput,
 };
 
 /**
@@ -35,7 +36,7 @@ const labelCommunitySchema: Record<string, any> = {
  */
 export function registerLabelCommunity(
   server: McpServer,
-  ctx: ToolContext,
+  ctx: Neo4jToolContext,
 ): void {
   server.registerTool(
     "label_community",
@@ -50,7 +51,7 @@ export function registerLabelCommunity(
         "show your label instead of community-N.",
       inputSchema: labelCommunitySchema,
     },
-    async ({ communityId, label, description }) => {
+    async ({ communityId, label, description, repo }) => {
       // Stamp ISO timestamp + spine snapshot when description is set.
       // Lets future sessions surface "summary written N days ago, spine has
       // shifted M files since" so agents can decide whether to verify.
@@ -59,8 +60,12 @@ export function registerLabelCommunity(
         cid: int(communityId),
         label,
         now,
+        repo: repo ?? null,
       };
+      // With a repo, only a community holding some of its files qualifies —
+      // ids come from one clustering run over the whole database.
       let cypher = `MATCH (c:Community { communityId: $cid })
+        WHERE $repo IS NULL OR EXISTS { MATCH (c)<-[:IN_COMMUNITY]-(:File { repo: $repo }) }
         SET c.label = $label, c.labelWrittenAt = $now`;
       if (description) {
         cypher += `, c.description = $description, c.descriptionWrittenAt = $now`;
@@ -78,7 +83,7 @@ export function registerLabelCommunity(
       const records = await writeQuery(ctx, cypher, params);
       if (records.length === 0) {
         return textResult(
-          `No community with id ${communityId} — was it materialized? ` +
+          `No community with id ${communityId}${repo ? ` in ${repo}` : ""} — was it materialized? ` +
             `(communities below --cluster-min-size aren't materialized as nodes)`,
         );
       }
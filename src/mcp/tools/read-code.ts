@@ -1,14 +1,19 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import * as fs from "fs";
+import * as path from "path";
 import type { ToolContext } from "../server";
-import { textResult } from "../util";
+import { checkoutOf, repoInput, textResult } from "../util";
 
 // Matches Claude Code's built-in Read tool default.
 const MAX_LINES = 2000;
 
 const readCodeSchema: Record<string, any> = {
-  file: z.string().describe("Absolute file path."),
+  file: z
+    .string()
+    .describe(
+      "File path as the other tools report it (relative to the repo root); absolute paths also work.",
+    ),
   startLine: z
     .number()
     .int()
@@ -21,6 +26,10 @@ const readCodeSchema: Record<string, any> = {
     .min(1)
     .optional()
     .describe("1-indexed end line, inclusive. Omit for end of file."),
+  repo: repoInput.describe(
+    "Repository id the file belongs to, when the database holds several. " +
+      "Omit for the server's default checkout.",
+  ),
 };
 
 export function registerReadCode(server: McpServer, ctx: ToolContext): void {
@@ -35,14 +44,15 @@ export function registerReadCode(server: McpServer, ctx: ToolContext): void {
         "Caps output at 2000 lines per call (matches the built-in Read tool).",
       inputSchema: readCodeSchema,
     },
-    async ({ file, startLine, endLine }) => {
-      void ctx; // not needed; reads from disk directly
+    async ({ file, startLine, endLine, repo }) => {
+      // Stored paths are repo-relative to the repository's checkout.
+      const absPath = path.resolve(checkoutOf(ctx, repo), file);
       let raw: string;
       try {
-        raw = fs.readFileSync(file, "utf8");
+        raw = fs.readFileSync(absPath, "utf8");
       } catch (err) {
         return textResult(
-          `ERROR: cannot read ${file}: ${(err as Error).message}`,
+          `ERROR: cannot read ${absPath}: ${(err as Error).message}`,
         );
       }
       const lines = raw.split("\n");
@@ -61,7 +71,7 @@ export function registerReadCode(server: McpServer, ctx: ToolContext): void {
         .map((l, i) => `${String(start + i).padStart(5)}  ${l}`)
         .join("\n");
       return textResult(
-        `${file} (lines ${start}-${end} of ${lines.length}):\n\n` + numbered,
+        `${absPath} (lines ${start}-${end} of ${lines.length}):\n\n` + numbered,
       );
     },
   );
@@ -1,8 +1,8 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import type { ToolContext } from "../server";
-import { search, type SearchMode } from "../../search";
-import { textResult } from "../util";
+import type { SearchMode } from "../../search";
+import { repoInput, textResult } from "../util";
 
 // Cast as Record<string, any> to short-circuit TS's deep schema inference.
 // The runtime validation still works — the SDK only uses the shape at call time.
@@ -37,6 +37,7 @@ const searchCodeSchema: Record<string, any> = {
     .max(50)
     .optional()
     .describe("Max results (default 10)."),
+  repo: repoInput,
 };
 
 export function registerSearchCode(server: McpServer, ctx: ToolContext): void {
@@ -54,12 +55,12 @@ export function registerSearchCode(server: McpServer, ctx: ToolContext): void {
         "Defaults to hybrid when embeddings exist, fts otherwise.",
       inputSchema: searchCodeSchema,
     },
-    async ({ query, mode, kind, limit }) => {
-      const hits = await search(ctx.driver, query, {
+    async ({ query, mode, kind, limit, repo }) => {
+      const hits = await ctx.store.search(query, {
         mode: mode as SearchMode | undefined,
         kind,
+        repo,
         limit: limit ?? 10,
-        database: ctx.database,
       });
       if (hits.length === 0) {
         return textResult(`No hits for "${query}".`);
@@ -68,7 +69,7 @@ export function registerSearchCode(server: McpServer, ctx: ToolContext): void {
         const matched = h.matchedBy.join("+");
         const score = h.score.toFixed(4);
         const loc = h.path
-          ? `${h.path}:${(h.startRow ?? 0) + 1}-${(h.endRow ?? 0) + 1}`
+          ? `${h.repo && !repo ? `${h.repo} ` : ""}${h.path}:${(h.startRow ?? 0) + 1}-${(h.endRow ?? 0) + 1}`
           : "(no path)";
         const sig = h.signature
           ? "\n    " + h.signature.split("\n")[0].trim()
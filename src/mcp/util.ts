@@ -1,11 +1,46 @@
+import fs from "fs";
+import path from "path";
 import neo4j, { type ManagedTransaction, type Session } from "neo4j-driver";
-import type { ToolContext } from "./server";
+import { z } from "zod";
+import { defaultCacheDir } from "../util/repo-source";
+import type { Neo4jToolContext, ToolContext } from "./server";
 
 /** Wrap a JS number for Cypher LIMIT/SKIP/etc. (Neo4j requires Integer). */
 export function int(n: number) {
   return neo4j.int(n);
 }
 
+/**
+ * The optional `repo` input every tool takes, for databases holding several
+ * repositories. Tools pass it as `$repo` (null when omitted) and filter with
+ * repoScope.
+ */
+export const repoInput = z
+  .string()
+  .optional()
+  .describe(
+    "Repository id (e.g. 'github.com/acme/api'; get_overview lists them) to restrict to. " +
+      "Omit to cover every indexed repository.",
+  );
+
+/** Cypher predicate: `alias` belongs to `$repo`, or no repo was given. */
+export function repoScope(alias: string): string {
+  return `($repo IS NULL OR ${alias}.repo = $repo)`;
+}
+
+/**
+ * Checkout a repository's repo-relative paths resolve against: the one given
+ * with `--repo-root <id>=<dir>`, else its clone in the URL-ingestion cache,
+ * else the default root.
+ */
+export function checkoutOf(ctx: ToolContext, repo?: string): string {
+  if (!repo) return ctx.repoRoot;
+  const given = ctx.repoRoots.get(repo);
+  if (given) return given;
+  const cached = path.join(defaultCacheDir(), repo);
+  return fs.existsSync(cached) ? cached : ctx.repoRoot;
+}
+
 /** A standard MCP text content block. */
 export interface TextContent {
   type: "text";
@@ -23,9 +58,12 @@ export function jsonResult(o: unknown): { content: TextContent[] } {
   return textResult("```json\n" + JSON.stringify(o, null, 2) + "\n```");
 }
 
+/** Where Cypher runs: a Neo4jToolContext, or the Neo4jStore itself. */
+type CypherTarget = Pick<Neo4jToolContext, "driver" | "database">;
+
 /** Run a read-only Cypher query and return the records as plain objects. */
 export async function readQuery(
-  ctx: ToolContext,
+  ctx: CypherTarget,
   cypher: string,
   params: Record<string, unknown> = {},
 ): Promise<Record<string, unknown>[]> {
@@ -44,7 +82,7 @@ export async function readQuery(
 
 /** Run a write Cypher query (SET/MERGE/CREATE/DELETE) and return records. */
 export async function writeQuery(
-  ctx: ToolContext,
+  ctx: CypherTarget,
   cypher: string,
   params: Record<string, unknown> = {},
 ): Promise<Record<string, unknown>[]> {
@@ -109,3 +147,48 @@ export function snippet(body: string | undefined, max = 600): string | undefined
 export function nodeKind(labels: string[]): string {
   return labels.find((l) => l !== "CodeNode") ?? "Unknown";
 }
+
+/** Resolution confidence the analyser stamps on CALLS (`meta_confidence`). */
+export const CONFIDENCE_LEVELS = ["low", "medium", "high"] as const;
+export type Confidence = (typeof CONFIDENCE_LEVELS)[number];
+
+/**
+ * Cypher expression ranking one relationship's confidence 0 (low) … 2 (high).
+ * Edges indexed before confidence was recorded rank as high, so older
+ * graphs aren't filtered to nothing.
+ */
+export function confidenceRank(rel: string): string {
+  return (
+    `coalesce(CASE ${rel}.meta_confidence WHEN 'low' THEN 0 ` +
+    `WHEN 'medium' THEN 1 WHEN 'high' THEN 2 END, 2)`
+  );
+}
+
+/** Cypher expression for the weakest confidence rank along a relationship list. */
+export function pathConfidenceRank(rels: string): string {
+  return `reduce(m = 2, x IN ${rels} | CASE WHEN ${confidenceRank("x")} < m THEN ${confidenceRank("x")} ELSE m END)`;
+}
+
+/** Rank (as returned by the Cypher helpers) → level name. */
+export function confidenceLevel(rank: unknown): Confidence {
+  return CONFIDENCE_LEVELS[asNumber(rank) ?? 2] ?? "high";
+}
+
+/**
+ * `  [low confidence: name-only-ambiguous, 4 same-named candidates]` for
+ * anything below high; "" otherwise.
+ */
+export function confidenceNote(
+  rank: unknown,
+  strategy: unknown,
+  candidates: unknown,
+): string {
+  const level = confidenceLevel(rank);
+  if (level === "high") return "";
+  const n = asNumber(candidates);
+  const detail = [
+    typeof strategy === "string" ? strategy : null,
+    n !== undefined && n > 1 ? `${n} same-named candidates` : null,
+  ].filter(Boolean);
+  return `  [${level} confidence${detail.length ? `: ${detail.join(", ")}` : ""}]`;
+}
@@ -0,0 +1,47 @@
+import { Bm25Index, tokenize } from "../bm25";
+import type { GraphNode } from "../../util/graph";
+
+describe("tokenize", () => {
+  it.each([
+    ["parseUserId", ["parseuserid", "parse", "user", "id"]],
+    ["load_config", ["load_config", "load", "config"]],
+    ["HTTPServer", ["httpserver", "http", "server"]],
+    ["a.b(c)", ["a", "b", "c"]],
+  ])("splits %s", (text, expected) => {
+    expect(tokenize(text)).toEqual(expected);
+  });
+});
+
+describe("Bm25Index.search", () => {
+  const fn = (name: string, body?: string): GraphNode => ({
+    id: `fn:${name}`,
+    kind: "Function",
+    name,
+    path: "src/a.ts",
+    body,
+  });
+  const index = new Bm25Index([
+    fn("parseUserId"),
+    fn("parseConfig"),
+    fn("renderUser"),
+    fn("render", "return user.name;"),
+  ]);
+  const names = (query: string) => index.search(query).map((h) => h.name);
+
+  it("ORs plain words and ranks name matches above body matches", () => {
+    expect(names("user")).toEqual(["renderUser", "parseUserId", "render"]);
+  });
+
+  it("keeps only hits that match every `+` clause", () => {
+    expect(names("+parse +user")).toEqual(["parseUserId"]);
+  });
+
+  it("drops hits that match a `-` clause", () => {
+    expect(names("parse -config")).toEqual(["parseUserId"]);
+  });
+
+  it("matches `*` against the start of the whole identifier", () => {
+    expect(names("parseu*")).toEqual(["parseUserId"]);
+    expect(names("pars*").sort()).toEqual(["parseConfig", "parseUserId"]);
+  });
+});
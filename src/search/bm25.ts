@@ -0,0 +1,176 @@
+import type { GraphNode } from "../util/graph";
+import type { FtsOptions, SearchHit } from "./fts";
+
+/**
+ * In-process keyword search for a graph loaded from the `-o` JSON, where
+ * there is no Neo4j full-text index: BM25 over the fields `code_fts` covers
+ * (name, signature, body, path, doc comment), with the name weighted highest.
+ *
+ * Identifiers are indexed whole and split into words, so `parseUserId`
+ * matches `parseuserid`, `parse`, `user` and `id`. Queries take a subset of
+ * the Lucene syntax searchFTS accepts:
+ *   - plain words → OR
+ *   - `+term` → required
+ *   - `-term` → excluded
+ *   - `term*` → prefix match
+ */
+
+const FIELD_WEIGHTS: [keyof GraphNode, number][] = [
+  ["name", 3],
+  ["signature", 2],
+  ["doc", 1],
+  ["path", 1],
+  ["body", 1],
+];
+const K1 = 1.2;
+const B = 0.75;
+
+interface Doc {
+  node: GraphNode;
+  /** Field-weighted term frequencies. */
+  tf: Map<string, number>;
+  length: number;
+}
+
+interface Clause {
+  terms: string[];
+  prefix: boolean;
+  required: boolean;
+  excluded: boolean;
+}
+
+export class Bm25Index {
+  private readonly docs: Doc[] = [];
+  /** term → indexes into `docs` */
+  private readonly postings = new Map<string, number[]>();
+  private readonly avgLength: number;
+
+  constructor(nodes: Iterable<GraphNode>) {
+    let total = 0;
+    for (const node of nodes) {
+      const tf = new Map<string, number>();
+      let length = 0;
+      for (const [field, weight] of FIELD_WEIGHTS) {
+        const text = field === "doc" ? node.doc?.text : node[field];
+        if (typeof text !== "string") continue;
+        for (const t of tokenize(text)) {
+          tf.set(t, (tf.get(t) ?? 0) + weight);
+          length += weight;
+        }
+      }
+      if (tf.size === 0) continue;
+      const i = this.docs.push({ node, tf, length }) - 1;
+      for (const t of tf.keys()) {
+        const list = this.postings.get(t);
+        if (list) list.push(i);
+        else this.postings.set(t, [i]);
+      }
+      total += length;
+    }
+    this.avgLength = this.docs.length > 0 ? total / this.docs.length : 0;
+  }
+
+  search(query: string, opts: FtsOptions = {}): SearchHit[] {
+    const limit = opts.limit ?? 20;
+    const snippetChars = opts.snippetChars ?? 280;
+    const clauses = parseQuery(query);
+
+    const scores = new Map<number, number>();
+    const excluded = new Set<number>();
+    const requiredHits = new Map<number, number>();
+    const requiredCount = clauses.filter((c) => c.required).length;
+    for (const clause of clauses) {
+      const matched = new Map<number, number>();
+      for (const term of this.expand(clause)) {
+        const list = this.postings.get(term);
+        if (!list) continue;
+        const idf = Math.log(
+          1 + (this.docs.length - list.length + 0.5) / (list.length + 0.5),
+        );
+        for (const i of list) {
+          const { tf, length } = this.docs[i];
+          const f = tf.get(term)!;
+          const norm = 1 - B + (B * length) / this.avgLength;
+          matched.set(
+            i,
+            (matched.get(i) ?? 0) + (idf * f * (K1 + 1)) / (f + K1 * norm),
+          );
+        }
+      }
+      for (const [i, s] of matched) {
+        if (clause.excluded) {
+          excluded.add(i);
+          continue;
+        }
+        scores.set(i, (scores.get(i) ?? 0) + s);
+        if (clause.required) requiredHits.set(i, (requiredHits.get(i) ?? 0) + 1);
+      }
+    }
+
+    const hits: SearchHit[] = [];
+    for (const [i, score] of scores) {
+      if (excluded.has(i)) continue;
+      if ((requiredHits.get(i) ?? 0) < requiredCount) continue;
+      const n = this.docs[i].node;
+      if (opts.kind && n.kind !== opts.kind) continue;
+      if (opts.repo && n.repo !== opts.repo) continue;
+      hits.push({
+        id: n.id,
+        kind: n.kind,
+        name: n.name,
+        path: n.path,
+        repo: n.repo,
+        language: n.language,
+        signature: n.signature,
+        bodySnippet: n.body ? n.body.slice(0, snippetChars) : undefined,
+        startRow: n.range?.start.row,
+        endRow: n.range?.end.row,
+        score,
+        matchedBy: ["fts"],
+      });
+    }
+    return hits.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  /** The indexed terms a clause matches: its own, or every one it prefixes. */
+  private expand(clause: Clause): string[] {
+    if (!clause.prefix) return clause.terms;
+    const [stem] = clause.terms;
+    if (!stem) return [];
+    return [...this.postings.keys()].filter((t) => t.startsWith(stem));
+  }
+}
+
+/**
+ * Lowercased words of `text`: each identifier whole, plus its camelCase /
+ * snake_case parts when it has more than one.
+ */
+export function tokenize(text: string): string[] {
+  const out: string[] = [];
+  for (const word of text.split(/[^A-Za-z0-9_$]+/)) {
+    if (!word) continue;
+    out.push(word.toLowerCase());
+    const parts = word.match(/[A-Z]+(?![a-z])|[A-Z]?[a-z]+|[0-9]+/g) ?? [];
+    if (parts.length > 1) for (const p of parts) out.push(p.toLowerCase());
+  }
+  return out;
+}
+
+function parseQuery(query: string): Clause[] {
+  const clauses: Clause[] = [];
+  for (const raw of query.split(/\s+/)) {
+    let word = raw.replace(/"/g, "");
+    const required = word.startsWith("+");
+    const excluded = word.startsWith("-");
+    if (required || excluded) word = word.slice(1);
+    const prefix = word.endsWith("*");
+    if (prefix) word = word.slice(0, -1);
+    if (!word) continue;
+    // A prefix only makes sense against the whole (lowercased) identifier.
+    const terms = prefix
+      ? [word.toLowerCase()]
+      : [...new Set(tokenize(word))];
+    if (terms.length > 0) clauses.push({ terms, prefix, required, excluded });
+  }
+  return clauses;
+}
@@ -6,6 +6,8 @@ export interface SearchHit {
   kind: NodeKind;
   name: string;
   path?: string;
+  /** Repository id of the repo the hit belongs to. */
+  repo?: string;
   language?: string;
   signature?: string;
   bodySnippet?: string;
@@ -19,6 +21,8 @@ export interface FtsOptions {
   limit?: number;
   /** Filter to one node kind (e.g. "Function"). */
   kind?: NodeKind;
+  /** Filter to one indexed repository (its repository id). */
+  repo?: string;
   /** Max chars of body returned per hit. Default 280. */
   snippetChars?: number;
   /** Neo4j database name override. */
@@ -47,12 +51,12 @@ export async function searchFTS(
   const snippetChars = opts.snippetChars ?? 280;
   const sessionConfig = opts.database ? { database: opts.database } : {};
 
-  const cypher = opts.kind
-    ? `CALL db.index.fulltext.queryNodes($index, $q) YIELD node, score
-       WHERE node:\`${opts.kind}\`
-       RETURN node, score LIMIT $limit`
-    : `CALL db.index.fulltext.queryNodes($index, $q) YIELD node, score
-       RETURN node, score LIMIT $limit`;
+  const where: string[] = [];
+  if (opts.kind) where.push(`node:\`${opts.kind}\``);
+  if (opts.repo) where.push("node.repo = $repo");
+  const cypher = `CALL db.index.fulltext.queryNodes($index, $q) YIELD node, score
+     ${where.length ? `WHERE ${where.join(" AND ")}` : ""}
+     RETURN node, score LIMIT $limit`;
 
   const session = driver.session(sessionConfig);
   try {
@@ -60,6 +64,7 @@ export async function searchFTS(
       tx.run(cypher, {
         index: FTS_INDEX_NAME,
         q: query,
+        repo: opts.repo ?? null,
         limit: neo4j.int(limit),
       }),
     );
@@ -75,6 +80,7 @@ export async function searchFTS(
         kind,
         name: String(props.name ?? ""),
         path: props.path as string | undefined,
+        repo: props.repo as string | undefined,
         language: props.language as string | undefined,
         signature: props.signature as string | undefined,
         bodySnippet: body ? body.slice(0, snippetChars) : undefined,
@@ -6,6 +6,7 @@ import type { SearchHit } from "./fts";
 export interface VectorOptions {
   limit?: number;
   kind?: NodeKind;
+  repo?: string;
   snippetChars?: number;
   database?: string;
   /** Override embedding model (must match what was used at index time). */
@@ -33,15 +34,15 @@ export async function searchVector(
 
   const queryVec = await embed(query, opts.model);
 
-  // Pull more than `limit` so that an optional kind filter still yields enough.
-  const fanout = opts.kind ? limit * 4 : limit;
+  // Pull more than `limit` so that an optional kind/repo filter still yields enough.
+  const fanout = opts.kind || opts.repo ? limit * 4 : limit;
 
-  const cypher = opts.kind
-    ? `CALL db.index.vector.queryNodes($index, $k, $vec) YIELD node, score
-       WHERE node:\`${opts.kind}\`
-       RETURN node, score LIMIT $limit`
-    : `CALL db.index.vector.queryNodes($index, $k, $vec) YIELD node, score
-       RETURN node, score LIMIT $limit`;
+  const where: string[] = [];
+  if (opts.kind) where.push(`node:\`${opts.kind}\``);
+  if (opts.repo) where.push("node.repo = $repo");
+  const cypher = `CALL db.index.vector.queryNodes($index, $k, $vec) YIELD node, score
+     ${where.length ? `WHERE ${where.join(" AND ")}` : ""}
+     RETURN node, score LIMIT $limit`;
 
   const session = driver.session(sessionConfig);
   try {
@@ -50,6 +51,7 @@ export async function searchVector(
         index: VECTOR_INDEX_NAME,
         k: neo4j.int(fanout),
         vec: queryVec,
+        repo: opts.repo ?? null,
         limit: neo4j.int(limit),
       }),
     );
@@ -65,6 +67,7 @@ export async function searchVector(
         kind,
         name: String(props.name ?? ""),
         path: props.path as string | undefined,
+        repo: props.repo as string | undefined,
         language: props.language as string | undefined,
         signature: props.signature as string | undefined,
         bodySnippet: body ? body.slice(0, snippetChars) : undefined,
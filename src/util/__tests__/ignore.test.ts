@@ -0,0 +1,123 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { MAX_SOURCE_BYTES, RepoIgnore, skipReasonOf } from "../ignore";
+
+describe("RepoIgnore", () => {
+  let dir: string;
+  let ignore: RepoIgnore;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "ignore-"));
+    fs.mkdirSync(path.join(dir, "sub"));
+    fs.writeFileSync(
+      path.join(dir, ".gitignore"),
+      [
+        "# comment",
+        "*.log",
+        "!keep.log",
+        "build/",
+        "cache",
+        "a/**/b",
+        "generated.ts",
+        "\\#hash.ts",
+      ].join("\n"),
+    );
+    // Deeper files apply after shallower ones, relative to their directory.
+    fs.writeFileSync(
+      path.join(dir, "sub", ".gitignore"),
+      "!debug.log\nsecret.ts\n",
+    );
+    // Applied after every .gitignore, so it can re-include what they ignore.
+    fs.writeFileSync(path.join(dir, ".codelensignore"), "!generated.ts\ndocs/\n");
+    ignore = new RepoIgnore(dir, new Set(["node_modules"]));
+  });
+
+  afterAll(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  const ignores = (rel: string, isDir = false) =>
+    ignore.ignores(path.join(dir, ...rel.split("/")), isDir);
+
+  it("skips built-in names and dot-files", () => {
+    expect(ignores("node_modules", true)).toBe(true);
+    expect(ignores(".env")).toBe(true);
+    expect(ignores("src/index.ts")).toBe(false);
+  });
+
+  it("re-includes with `!`, last match winning", () => {
+    expect(ignores("x.log")).toBe(true);
+    expect(ignores("deep/x.log")).toBe(true);
+    expect(ignores("keep.log")).toBe(false);
+  });
+
+  it("applies a nested .gitignore after the root one, only below it", () => {
+    expect(ignores("sub/other.log")).toBe(true);
+    expect(ignores("sub/debug.log")).toBe(false);
+    expect(ignores("debug.log")).toBe(true);
+    expect(ignores("sub/secret.ts")).toBe(true);
+    expect(ignores("secret.ts")).toBe(false);
+  });
+
+  it("matches `dir/` only against directories, `dir` against both", () => {
+    expect(ignores("build", true)).toBe(true);
+    expect(ignores("build")).toBe(false);
+    expect(ignores("cache", true)).toBe(true);
+    expect(ignores("cache")).toBe(true);
+  });
+
+  it("lets `a/**/b` span zero or more directories, anchored at its base", () => {
+    expect(ignores("a/b")).toBe(true);
+    expect(ignores("a/x/b")).toBe(true);
+    expect(ignores("a/x/y/b")).toBe(true);
+    expect(ignores("a/x/bb")).toBe(false);
+    expect(ignores("c/a/x/b")).toBe(false);
+  });
+
+  it("treats an escaped `#` as a literal", () => {
+    expect(ignores("#hash.ts")).toBe(true);
+  });
+
+  it("lets .codelensignore override the .gitignore files", () => {
+    expect(ignores("generated.ts")).toBe(false);
+    expect(ignores("docs", true)).toBe(true);
+  });
+});
+
+describe("skipReasonOf", () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "skip-"));
+  });
+
+  afterAll(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  const write = (name: string, text: string): string => {
+    const file = path.join(dir, name);
+    fs.writeFileSync(file, text);
+    return file;
+  };
+
+  it("leaves ordinary source alone", () => {
+    expect(skipReasonOf(write("ok.ts", "export const a = 1;\n"))).toBeNull();
+  });
+
+  it("flags minified code by name and by line length", () => {
+    expect(skipReasonOf(write("lib.min.js", "var a=1;\n"))).toBe("minified");
+    const line = "var a=1;".repeat(200);
+    expect(skipReasonOf(write("bundle.js", `${line}\n${line}\n`))).toBe("minified");
+  });
+
+  it("flags a generator banner near the top", () => {
+    const file = write(
+      "api.pb.go",
+      "// Code generated by protoc-gen-go. DO NOT EDIT.\npackage api\n",
+    );
+    expect(skipReasonOf(file)).toBe("generated");
+  });
+
+  it("flags files over the size limit", () => {
+    const file = write("data.ts", "x".repeat(MAX_SOURCE_BYTES + 1));
+    expect(skipReasonOf(file)).toBe("too large");
+  });
+});
@@ -0,0 +1,126 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { TsconfigIndex, parseJsonc } from "../tsconfig";
+
+describe("TsconfigIndex", () => {
+  let dir: string;
+  let index: TsconfigIndex;
+
+  const write = (rel: string, text: string) => {
+    const file = path.join(dir, ...rel.split("/"));
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, text);
+  };
+  const abs = (rel: string) => path.join(dir, ...rel.split("/"));
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "tsconfig-"));
+    // Solution config: owns nothing itself, delegates to its references.
+    write(
+      "tsconfig.json",
+      `{
+        "files": [],
+        "references": [{ "path": "./apps/web" }, { "path": "./apps/api/tsconfig.app.json" }],
+      }`,
+    );
+    write(
+      "tsconfig.base.json",
+      `{
+        // shared settings
+        "compilerOptions": { "baseUrl": ".", "paths": { "@lib/*": ["libs/*"] } },
+      }`,
+    );
+    write(
+      "node_modules/@acme/tsconfig/tsconfig.json",
+      `{ "compilerOptions": { "paths": { "@pkg/*": ["pkgs/*"] } } }`,
+    );
+    // Later `extends` entries override earlier ones: @acme's `paths` win,
+    // the base still supplies `baseUrl`.
+    write(
+      "apps/web/tsconfig.json",
+      `{ "extends": ["../../tsconfig.base.json", "@acme/tsconfig"] }`,
+    );
+    write(
+      "apps/api/tsconfig.app.json",
+      `{
+        "compilerOptions": {
+          "paths": {
+            "@app/*": ["src/*"],
+            "@app/core/*": ["core/*", "fallback/*"],
+            "exact": ["src/exact.ts"]
+          }
+        }
+      }`,
+    );
+    index = new TsconfigIndex();
+  });
+
+  afterAll(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  describe("a referenced project whose extends chain sets baseUrl", () => {
+    const from = () => abs("apps/web/src/a.ts");
+
+    it("resolves from the referenced config, not the solution", () => {
+      expect(index.forFile(from())?.configPath).toBe(abs("apps/web/tsconfig.json"));
+    });
+
+    it("takes `paths` from the later extends entry, relative to the baseUrl", () => {
+      expect(index.match(from(), "@pkg/ui")).toEqual({
+        candidates: [abs("pkgs/ui")],
+        rule: "@pkg/*",
+        configPath: abs("apps/web/tsconfig.json"),
+      });
+      // The earlier entry's rule is overridden, so baseUrl catches it.
+      expect(index.match(from(), "@lib/x")).toMatchObject({
+        candidates: [abs("@lib/x")],
+        rule: "baseUrl",
+      });
+    });
+  });
+
+  describe("a referenced project with its own paths and no baseUrl", () => {
+    const from = () => abs("apps/api/src/a.ts");
+
+    it("lets the longest matching prefix win, relative to the config", () => {
+      expect(index.match(from(), "@app/core/db")).toMatchObject({
+        candidates: [abs("apps/api/core/db"), abs("apps/api/fallback/db")],
+        rule: "@app/core/*",
+        configPath: abs("apps/api/tsconfig.app.json"),
+      });
+      expect(index.match(from(), "@app/users")).toMatchObject({
+        candidates: [abs("apps/api/src/users")],
+        rule: "@app/*",
+      });
+    });
+
+    it("matches a key without a wildcard exactly", () => {
+      expect(index.match(from(), "exact")?.candidates).toEqual([
+        abs("apps/api/src/exact.ts"),
+      ]);
+      expect(index.match(from(), "exactly")).toBeNull();
+    });
+
+    it("leaves relative and unmatched specs alone", () => {
+      expect(index.match(from(), "./users")).toBeNull();
+      expect(index.match(from(), "react")).toBeNull();
+    });
+  });
+
+  it("falls back to the solution config for files no reference owns", () => {
+    expect(index.forFile(abs("scripts/build.ts"))?.configPath).toBe(abs("tsconfig.json"));
+    expect(index.match(abs("scripts/build.ts"), "@pkg/ui")).toBeNull();
+  });
+});
+
+describe("parseJsonc", () => {
+  it("drops comments and trailing commas but not string contents", () => {
+    expect(
+      parseJsonc(`{
+        // line comment
+        "a": "http://x/*y*/", /* block */
+        "b": [1, 2,],
+      }`),
+    ).toEqual({ a: "http://x/*y*/", b: [1, 2] });
+  });
+});
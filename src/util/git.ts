@@ -41,6 +41,20 @@ export function gitHeadCommit(repoPath: string): string | null {
   }
 }
 
+/** `git remote get-url origin` — the origin URL, or null when there is none. */
+export function gitRemoteUrl(repoPath: string): string | null {
+  try {
+    const url = execFileSync("git", ["remote", "get-url", "origin"], {
+      cwd: repoPath,
+      encoding: "utf8",
+      stdio: ["ignore", "pipe", "ignore"],
+    }).trim();
+    return url || null;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * `git merge-base --is-ancestor <commit> HEAD` — true iff `commit` is reachable
  * from HEAD. Used to detect force-push / rewritten history; if the previously
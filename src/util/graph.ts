@@ -4,6 +4,11 @@ import { Graph } from "graphlib";
  * Graph schema
  *
  *   Repository ─CONTAINS─► Folder ─CONTAINS─► Folder|File
+ *   Repository ─CONTAINS─► Package ─CONTAINS─► File   (workspace members)
+ *   Repository|Package ─DEPENDS_ON─► ExternalPackage|Package   (manifests)
+ *   Repository|Package|File ─DEPENDS_ON|IMPORTS─► Repository|Package
+ *       (another repository in the same database publishing the dependency)
+ *   File ─IMPORTS─► ExternalPackage   (declared third-party imports)
  *   File ─DEFINES─► Class | Function | Interface
  *   Class ─HAS_METHOD─► Method
  *   Class ─HAS_PROPERTY─► Property
@@ -11,10 +16,18 @@ import { Graph } from "graphlib";
  *   File ─IMPORTS─► File
  *   Class ─EXTENDS─► Class
  *   Class ─IMPLEMENTS─► Interface
+ *   Class ─INJECTS─► Class | Interface   (constructor DI)
+ *   Function|Method|Class|Interface ─USES_TYPE─► Class | Interface | TypeAlias | Enum
+ *   File ─DEFINES─► Route   (Express / Next.js / Spring / Nest endpoints)
+ *   Function|Method|Variable ─HANDLES─► Route
+ *   Function|Class|Variable ─RENDERS─► Function|Class|Variable   (React JSX)
+ *   Function|Method ─USES_HOOK─► Function   (React hooks)
+ *   Route ─MIDDLEWARE─► Function | Variable   (ordered by meta.order)
  */
 
 export type NodeKind =
   | "Repository"
+  | "Package"
   | "Folder"
   | "File"
   | "Class"
@@ -24,25 +37,74 @@ export type NodeKind =
   | "Function"
   | "Method"
   | "Property"
-  | "Variable";
+  | "Variable"
+  | "ExternalPackage"
+  // An HTTP endpoint keyed by its defining file, method + full path
+  // (`file:github.com/acme/api:src/app.ts#route:POST /api/projects`).
+  | "Route";
 
 export type EdgeKind =
   | "CONTAINS"
   | "DEFINES"
   | "HAS_METHOD"
   | "HAS_PROPERTY"
+  // CALLS carries `meta.receiverType` / `meta.receiverVia` when the
+  // receiver's type is known. Resolved CALLS, IMPORTS, EXTENDS and
+  // IMPLEMENTS carry `meta.strategy`, `meta.confidence` (high/medium/low)
+  // and `meta.candidateCount`.
   | "CALLS"
   | "IMPORTS"
   | "EXTENDS"
   | "IMPLEMENTS"
+  // DEPENDS_ON(Repository/Package → ExternalPackage/Package) from a build
+  // manifest; meta carries `version`, `scope` (runtime/dev/peer/optional),
+  // `declaredAs` (manifest section or configuration) and `manifest` path.
+  | "DEPENDS_ON"
+  // INJECTS(Class → Class/Interface) from constructor injection in a
+  // decorated (NestJS/Angular) class; meta carries `parameter` or `field`,
+  // and `token` for `@Inject(TOKEN)`-style parameters.
+  | "INJECTS"
+  // USES_TYPE(Function/Method/Class/Interface → Class/Interface/TypeAlias/Enum)
+  // for the named types in a signature or field declaration. `meta.roles`
+  // lists where the type appears: `param`, `return`, `field` (emitted from
+  // the owning Class/Interface) and `generic-arg` (`Promise<Foo>`). Resolved
+  // ones carry `meta.strategy` / `meta.confidence` like EXTENDS.
+  | "USES_TYPE"
+  // RENDERS(component → component) for each capitalised JSX element in a
+  // React component (`meta.reactComponent` on Function/Class/Variable);
+  // USES_HOOK(Function/Method → hook) for `useX()` calls. Resolved ones carry
+  // `meta.strategy` / `meta.confidence` like CALLS.
+  | "RENDERS"
+  | "USES_HOOK"
+  // HANDLES(Function/Method/Variable → Route): the handler serving an endpoint.
+  | "HANDLES"
+  // MIDDLEWARE(Route → Function/Variable) in run order: `meta.order` (0-based)
+  // and `meta.scope` (router `use`, mount arguments, or route arguments);
+  // `meta.factory` when registered as `mw(...)`.
+  | "MIDDLEWARE"
   // EXPORTS(File → Function/Method/Class/Interface/TypeAlias/Enum/Variable)
   // with `meta.exportedName` carrying the externally-visible name (which may
-  // differ from the declaration's own name due to `export { x as y }` renames).
+  // differ from the declaration's own name due to `export { x as y }` renames);
+  // further names for the same declaration are listed in `meta.alsoExportedAs`.
   // Used by the resolver to bind cross-file calls/inheritance via IMPORTS→EXPORTS
   // lookup instead of name-only heuristics. Phase 1 of the alias-resolution
   // upgrade described in the symbol-aliasing problem brief.
   | "EXPORTS";
 
+/**
+ * Version of the node-id format, stamped on the Repository node
+ * (`idScheme`). 1: symbol ids embedded the declaration's line
+ * (`#fn:load@42`); 2: qualified name plus an overload ordinal (`#fn:load`,
+ * `#fn:load~2`); 3: ids keyed on the repository identifier and `path`s
+ * relative to the repo root (`file:github.com/foo/bar:src/a.ts#fn:load`,
+ * `route:github.com/foo/bar:GET /users`) rather than the checkout's
+ * absolute path; 4: Route ids keyed on the defining file
+ * (`file:github.com/foo/bar:src/app.ts#route:GET /users`). A graph stored
+ * under an older scheme is migrated in place on the next index run — see
+ * migrateNodeIds.
+ */
+export const ID_SCHEME = 4;
+
 export interface Position {
   row: number;
   column: number;
@@ -53,13 +115,28 @@ export interface SourceRange {
   end: Position;
 }
 
+/** A parsed JSDoc/TSDoc/Javadoc comment. */
+export interface DocComment {
+  /** Comment text with the comment markers stripped, tags included. */
+  text: string;
+  /** First paragraph of the description, on one line. */
+  summary?: string;
+  params?: { name: string; description: string }[];
+  returns?: string;
+  /** Set when tagged `@deprecated`: the reason, or "" when none is given. */
+  deprecated?: string;
+}
+
 export interface GraphNode {
   id: string;
   kind: NodeKind;
   name: string;
-  /** Absolute path for File/Folder/Repository, otherwise containing file. */
+  /**
+   * Repo-relative path (`/`-separated) for File/Folder/Package, otherwise the
+   * containing file's. Absent on the Repository node.
+   */
   path?: string;
-  language?: "javascript" | "typescript" | "tsx" | "java";
+  language?: "javascript" | "typescript" | "tsx" | "java" | "python" | "go";
   range?: SourceRange;
   /** Declaration line(s) — function up to body, full text for type/enum/property. */
   signature?: string;
@@ -67,17 +144,19 @@ export interface GraphNode {
   body?: string;
   /** True when body is a partial cut at MAX_BODY_BYTES. Absent when full. */
   bodyTruncated?: boolean;
-  /** HTTP verb for handler-arg Function nodes (`router.post(...)` etc). */
+  /** Leading JSDoc/TSDoc/Javadoc comment of a Function/Method/Class/Interface. */
+  doc?: DocComment;
+  /** HTTP verb for Route nodes and Spring/Nest controller Methods. */
   httpMethod?: string;
-  /** Route path string for handler-arg Function nodes (first string arg). */
+  /** Full route path for Route nodes and Spring/Nest controller Methods. */
   route?: string;
-  /** The router/object the handler was attached to (e.g. "projectsRouter"). */
+  /** The router object (e.g. "projectsRouter") or controller class a route is registered on. */
   routerObject?: string;
   /** For Variable nodes: the builder/factory call (e.g. "Annotation.Root"). */
   builder?: string;
   /** True if this File contains test code (detected via AST patterns at index time). */
   isTest?: boolean;
-  /** Test framework detected (jest / vitest / bun / junit / pytest / etc). */
+  /** Test framework detected (jest / vitest / bun / junit / pytest / gotest / etc). */
   testFramework?: string;
   /** sha256 hex of the File's source content. Used by hash-mode incremental indexing. */
   contentHash?: string;
@@ -87,6 +166,13 @@ export interface GraphNode {
   lastCommit?: string;
   /** Repository-only: original git URL when the repo was indexed via URL ingestion. */
   sourceUrl?: string;
+  /** Repository-only: the ID_SCHEME the graph's ids were built with. */
+  idScheme?: number;
+  /**
+   * Repository id of the repo the node belongs to; absent on ExternalPackage
+   * nodes, which every repository declaring the dependency shares.
+   */
+  repo?: string;
   /** Free-form metadata (modifiers, parameters, etc.) */
   meta?: Record<string, unknown>;
 }
@@ -138,6 +224,10 @@ export class GraphBuilder {
     return this.g.node(id) as GraphNode | undefined;
   }
 
+  getEdge(from: string, to: string, kind: EdgeKind): GraphEdge | undefined {
+    return this.g.edge({ v: from, w: to, name: kind }) as GraphEdge | undefined;
+  }
+
   addEdge(edge: Omit<GraphEdge, "id">): GraphEdge {
     const id = `${edge.kind}:${edge.from}->${edge.to}`;
     const existing = this.g.edge({
@@ -165,6 +255,11 @@ export class GraphBuilder {
     this.g.setEdge({ v: edge.from, w: edge.to, name: edge.kind }, edge);
   }
 
+  /** Drop an edge (used when a placeholder is replaced by resolved edges). */
+  removeEdge(from: string, to: string, kind: EdgeKind): void {
+    this.g.removeEdge(from, to, kind);
+  }
+
   build(): CodeGraph {
     const nodes: GraphNode[] = this.g
       .nodes()
@@ -1,6 +1,12 @@
 import path from "path";
 
-export type SupportedLanguage = "javascript" | "typescript" | "tsx" | "java";
+export type SupportedLanguage =
+  | "javascript"
+  | "typescript"
+  | "tsx"
+  | "java"
+  | "python"
+  | "go";
 
 export function detectLanguage(filePath: string): SupportedLanguage | null {
   const ext = path.extname(filePath).toLowerCase();
@@ -16,6 +22,11 @@ export function detectLanguage(filePath: string): SupportedLanguage | null {
       return "tsx";
     case ".java":
       return "java";
+    case ".py":
+    case ".pyi":
+      return "python";
+    case ".go":
+      return "go";
     default:
       return null;
   }
@@ -0,0 +1,280 @@
+import fs from "fs";
+import path from "path";
+
+/**
+ * Declared-dependency extraction from build manifests.
+ *
+ *   - npm:   package.json `dependencies` / `devDependencies` /
+ *            `peerDependencies` / `optionalDependencies`
+ *   - maven: pom.xml `<dependency>` entries (outside `<dependencyManagement>`
+ *            and plugin blocks), named `groupId:artifactId`
+ *   - maven: build.gradle / build.gradle.kts string-notation and map-notation
+ *            dependencies in the usual configurations
+ *
+ * plus the coordinates each manifest publishes its own code under, which
+ * link one repository's dependency on another in a shared database.
+ *
+ * Parsing is deliberately regex-level — we only need coordinates, a version
+ * string and a scope, not a full model of the build.
+ */
+
+export type DependencyEcosystem = "npm" | "maven";
+export type DependencyScope = "runtime" | "dev" | "peer" | "optional";
+
+export interface DeclaredDependency {
+  ecosystem: DependencyEcosystem;
+  /** npm package name, or `groupId:artifactId` for maven. */
+  name: string;
+  /** Version range as written (`^4.17.0`, `${spring.version}`, `workspace:*`). */
+  version?: string;
+  scope: DependencyScope;
+  /** Raw section/configuration it came from (`devDependencies`, `test`, `testImplementation`). */
+  declaredAs: string;
+}
+
+export const MANIFEST_FILES = new Set([
+  "package.json",
+  "pom.xml",
+  "build.gradle",
+  "build.gradle.kts",
+]);
+
+export function readManifestDependencies(
+  manifestPath: string,
+): DeclaredDependency[] {
+  let text: string;
+  try {
+    text = fs.readFileSync(manifestPath, "utf8");
+  } catch {
+    return [];
+  }
+  switch (path.basename(manifestPath)) {
+    case "package.json":
+      return npmDependencies(text);
+    case "pom.xml":
+      return pomDependencies(text);
+    case "build.gradle":
+    case "build.gradle.kts":
+      return gradleDependencies(text);
+    default:
+      return [];
+  }
+}
+
+/**
+ * The coordinates a manifest publishes its own code under — npm `name`, or
+ * the pom's `groupId:artifactId` (groupId inherited from `<parent>` when not
+ * set). Null for Gradle builds, which rarely declare them in the build file.
+ */
+export function readManifestCoordinates(
+  manifestPath: string,
+): { ecosystem: DependencyEcosystem; name: string } | null {
+  let text: string;
+  try {
+    text = fs.readFileSync(manifestPath, "utf8");
+  } catch {
+    return null;
+  }
+  switch (path.basename(manifestPath)) {
+    case "package.json": {
+      try {
+        const pkg = JSON.parse(text) as Record<string, unknown>;
+        return typeof pkg.name === "string" && pkg.name
+          ? { ecosystem: "npm", name: pkg.name }
+          : null;
+      } catch {
+        return null;
+      }
+    }
+    case "pom.xml": {
+      const cleaned = text.replace(/<!--[\s\S]*?-->/g, "");
+      const parent = /<parent>([\s\S]*?)<\/parent>/.exec(cleaned)?.[1] ?? "";
+      // Only the project's own top-level tags: drop every nested block that
+      // carries its own groupId/artifactId.
+      const own = cleaned.replace(
+        /<(parent|dependencies|dependencyManagement|build|profiles|reporting|plugins)>[\s\S]*?<\/\1>/g,
+        "",
+      );
+      const tag = (block: string, name: string): string | undefined =>
+        new RegExp(`<${name}>\\s*([^<]*?)\\s*</${name}>`).exec(block)?.[1];
+      const artifactId = tag(own, "artifactId");
+      const groupId = tag(own, "groupId") ?? tag(parent, "groupId");
+      return artifactId && groupId
+        ? { ecosystem: "maven", name: `${groupId}:${artifactId}` }
+        : null;
+    }
+    default:
+      return null;
+  }
+}
+
+const NPM_SECTIONS: Record<string, DependencyScope> = {
+  dependencies: "runtime",
+  devDependencies: "dev",
+  peerDependencies: "peer",
+  optionalDependencies: "optional",
+};
+
+function npmDependencies(text: string): DeclaredDependency[] {
+  let pkg: Record<string, unknown>;
+  try {
+    pkg = JSON.parse(text);
+  } catch {
+    return [];
+  }
+  const out: DeclaredDependency[] = [];
+  const seen = new Set<string>();
+  // Section order matters: a package listed as both runtime and optional
+  // (npm writes optional deps into both) keeps the first, stronger scope.
+  for (const [section, scope] of Object.entries(NPM_SECTIONS)) {
+    const deps = pkg[section];
+    if (!deps || typeof deps !== "object") continue;
+    for (const [name, version] of Object.entries(deps)) {
+      if (seen.has(name)) continue;
+      seen.add(name);
+      out.push({
+        ecosystem: "npm",
+        name,
+        version: typeof version === "string" ? version : undefined,
+        scope,
+        declaredAs: section,
+      });
+    }
+  }
+  return out;
+}
+
+function pomDependencies(text: string): DeclaredDependency[] {
+  // Managed versions and plugin classpaths aren't dependencies of the code.
+  const cleaned = text
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<dependencyManagement>[\s\S]*?<\/dependencyManagement>/g, "")
+    .replace(/<plugins>[\s\S]*?<\/plugins>/g, "")
+    .replace(/<pluginManagement>[\s\S]*?<\/pluginManagement>/g, "");
+
+  const tag = (block: string, name: string): string | undefined =>
+    new RegExp(`<${name}>\\s*([^<]*?)\\s*</${name}>`).exec(block)?.[1];
+
+  const out: DeclaredDependency[] = [];
+  for (const m of cleaned.matchAll(/<dependency>([\s\S]*?)<\/dependency>/g)) {
+    const groupId = tag(m[1], "groupId");
+    const artifactId = tag(m[1], "artifactId");
+    if (!groupId || !artifactId) continue;
+    const rawScope = tag(m[1], "scope") ?? "compile";
+    out.push({
+      ecosystem: "maven",
+      name: `${groupId}:${artifactId}`,
+      version: tag(m[1], "version"),
+      scope:
+        rawScope === "test"
+          ? "dev"
+          : tag(m[1], "optional") === "true"
+            ? "optional"
+            : "runtime",
+      declaredAs: rawScope,
+    });
+  }
+  return out;
+}
+
+const GRADLE_CONFIGS =
+  "implementation|api|compile|compileOnly|runtimeOnly|runtime|" +
+  "annotationProcessor|kapt|ksp|developmentOnly|" +
+  "testImplementation|testCompile|testCompileOnly|testRuntimeOnly|testRuntime|" +
+  "androidTestImplementation|testAnnotationProcessor";
+
+function gradleDependencies(text: string): DeclaredDependency[] {
+  const cleaned = text
+    .replace(/\/\*[\s\S]*?\*\//g, "")
+    .replace(/\/\/.*$/gm, "");
+  const scopeOf = (config: string): DependencyScope =>
+    /^(test|androidTest)/.test(config) ? "dev" : "runtime";
+
+  const out: DeclaredDependency[] = [];
+  // `implementation 'g:a:v'`, `implementation("g:a:v")`, `api(platform("g:a:v"))`
+  const stringNotation = new RegExp(
+    `(?<![\\w.'"-])(${GRADLE_CONFIGS})\\s*\\(?\\s*(?:\\w+\\s*\\(\\s*)?["']([^"':]+):([^"':]+)(?::([^"'@]+))?[^"']*["']`,
+    "g",
+  );
+  for (const m of cleaned.matchAll(stringNotation)) {
+    out.push({
+      ecosystem: "maven",
+      name: `${m[2]}:${m[3]}`,
+      version: m[4],
+      scope: scopeOf(m[1]),
+      declaredAs: m[1],
+    });
+  }
+  // `implementation group: 'g', name: 'a', version: 'v'`
+  const mapNotation = new RegExp(
+    `(?<![\\w.'"-])(${GRADLE_CONFIGS})\\s*\\(?\\s*group\\s*[:=]\\s*["']([^"']+)["']\\s*,\\s*name\\s*[:=]\\s*["']([^"']+)["'](?:\\s*,\\s*version\\s*[:=]\\s*["']([^"']+)["'])?`,
+    "g",
+  );
+  for (const m of cleaned.matchAll(mapNotation)) {
+    out.push({
+      ecosystem: "maven",
+      name: `${m[2]}:${m[3]}`,
+      version: m[4],
+      scope: scopeOf(m[1]),
+      declaredAs: m[1],
+    });
+  }
+  return out;
+}
+
+/** `@scope/pkg/sub/path` → `@scope/pkg`, `lodash/fp` → `lodash`. */
+export function npmPackageName(spec: string): string | null {
+  if (spec.startsWith(".") || spec.startsWith("/") || spec.includes(":")) {
+    return null;
+  }
+  const segs = spec.split("/");
+  if (spec.startsWith("@")) return segs.length >= 2 ? `${segs[0]}/${segs[1]}` : null;
+  return segs[0] || null;
+}
+
+/**
+ * Best-effort mapping of a Java import (`com.fasterxml.jackson.databind.ObjectMapper`)
+ * onto a declared `groupId:artifactId`. Java packages don't name their
+ * artifact, so: the longest groupId that prefixes the import wins; among
+ * artifacts sharing it, prefer one whose artifactId tokens show up in the
+ * import path. Falls back to matching the groupId's parent
+ * (`com.fasterxml.jackson.core` → `com.fasterxml.jackson`) for the common
+ * case of sibling packages published under one group.
+ */
+export function matchMavenArtifact(
+  spec: string,
+  artifacts: string[],
+): string | null {
+  const importPath = spec.replace(/^static\s+/, "");
+  const segs = new Set(importPath.split("."));
+
+  const pick = (prefixOf: (groupId: string) => string): string | null => {
+    let bestLen = -1;
+    let best: string[] = [];
+    for (const a of artifacts) {
+      const prefix = prefixOf(a.split(":")[0]);
+      if (!prefix || !importPath.startsWith(prefix + ".")) continue;
+      if (prefix.length > bestLen) {
+        bestLen = prefix.length;
+        best = [a];
+      } else if (prefix.length === bestLen) {
+        best.push(a);
+      }
+    }
+    if (best.length <= 1) return best[0] ?? null;
+    const scored = best.map((a) => ({
+      a,
+      hits: a
+        .split(":")[1]
+        .split(/[-_.]/)
+        .filter((t) => segs.has(t)).length,
+    }));
+    scored.sort((x, y) => y.hits - x.hits);
+    return scored[0].a;
+  };
+
+  return (
+    pick((g) => g) ??
+    pick((g) => (g.includes(".") ? g.slice(0, g.lastIndexOf(".")) : ""))
+  );
+}
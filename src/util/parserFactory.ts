@@ -2,6 +2,8 @@ import Parser from "tree-sitter";
 import JavaScript from "tree-sitter-javascript";
 import Java from "tree-sitter-java";
 import TS from "tree-sitter-typescript";
+import Python from "tree-sitter-python";
+import Go from "tree-sitter-go";
 import { SupportedLanguage } from "./language";
 
 // The grammar packages declare `Language.language` as `unknown` (correct: it's
@@ -29,6 +31,12 @@ export function getParser(language: SupportedLanguage): Parser {
     case "java":
       p.setLanguage(asLang(Java));
       break;
+    case "python":
+      p.setLanguage(asLang(Python));
+      break;
+    case "go":
+      p.setLanguage(asLang(Go));
+      break;
   }
   cache.set(language, p);
   return p;
@@ -1,7 +1,7 @@
 import fs from "fs";
 import os from "os";
 import path from "path";
-import { gitClone, gitFetchReset } from "./git";
+import { gitClone, gitFetchReset, gitRemoteUrl, isGitRepo } from "./git";
 
 /**
  * Repo-source resolver: turns a CLI input (path or URL) into a local
@@ -98,3 +98,19 @@ export function sanitizeUrlToPath(url: string): string {
     .join("/");
   return `${host}/${safePath}`;
 }
+
+/**
+ * Stable identifier for a repository, used to key its graph ids
+ * (`repo:<id>`, `file:<id>:<relative path>`) so they don't depend on where
+ * the checkout lives. In order of preference:
+ *
+ *   - the URL it was ingested from   → github.com/foo/bar
+ *   - the checkout's `origin` remote → github.com/foo/bar
+ *   - the directory name             → bar
+ */
+export function repositoryIdOf(absRepo: string, sourceUrl?: string): string {
+  if (sourceUrl) return sanitizeUrlToPath(sourceUrl);
+  const origin = isGitRepo(absRepo) ? gitRemoteUrl(absRepo) : null;
+  if (origin && looksLikeGitUrl(origin)) return sanitizeUrlToPath(origin);
+  return path.basename(absRepo);
+}
@@ -0,0 +1,276 @@
+import fs from "fs";
+import path from "path";
+
+/**
+ * tsconfig.json / jsconfig.json discovery for alias-aware import resolution.
+ *
+ * For each source file we find the nearest config walking upwards, follow
+ * its `extends` chain (relative paths and packages under node_modules), and
+ * — for solution-style configs that only list `references` — descend into
+ * the referenced project that owns the file. The effective `baseUrl` and
+ * `paths` are then used to turn `@app/foo` / `~/lib/bar` into candidate
+ * absolute paths; the analyser probes those with its usual extension rules.
+ *
+ * Every config is read at most once per run (cached by absolute path).
+ */
+
+export interface TsconfigAliases {
+  /** Config file the aliases were resolved from (after following references). */
+  configPath: string;
+  /** Absolute `baseUrl`, when set anywhere in the extends chain. */
+  baseUrl?: string;
+  /** `paths` mapping from the extends chain (nearest definition wins). */
+  paths?: Record<string, string[]>;
+  /** Directory `paths` substitutions are relative to (baseUrl, else the defining config's dir). */
+  pathsBase?: string;
+}
+
+export interface AliasMatch {
+  /** Absolute candidate paths, in the order TS would try them. No extension probing yet. */
+  candidates: string[];
+  /** The rule that matched: a `paths` key (e.g. "@app/*") or "baseUrl". */
+  rule: string;
+  configPath: string;
+}
+
+interface RawConfig {
+  dir: string;
+  extends?: string | string[];
+  compilerOptions?: { baseUrl?: string; paths?: Record<string, string[]> };
+  references?: { path: string }[];
+  include?: string[];
+}
+
+const CONFIG_NAMES = ["tsconfig.json", "jsconfig.json"];
+
+export class TsconfigIndex {
+  private readonly raw = new Map<string, RawConfig | null>();
+  private readonly nearest = new Map<string, string | null>();
+  private readonly effective = new Map<string, TsconfigAliases>();
+
+  /** Effective alias settings for a source file, or null when no config applies. */
+  forFile(absPath: string): TsconfigAliases | null {
+    const configPath = this.nearestConfig(path.dirname(absPath));
+    if (!configPath) return null;
+    const owner = this.referencedOwner(configPath, absPath) ?? configPath;
+    return this.aliasesOf(owner);
+  }
+
+  /**
+   * Apply `paths` (longest-prefix pattern wins, like tsc) and then `baseUrl`
+   * to a bare specifier. Returns null for relative specs or when nothing matches.
+   */
+  match(fromPath: string, spec: string): AliasMatch | null {
+    if (spec.startsWith(".") || spec.startsWith("/")) return null;
+    const cfg = this.forFile(fromPath);
+    if (!cfg) return null;
+
+    if (cfg.paths && cfg.pathsBase) {
+      let best: { key: string; captured: string; prefixLen: number } | null =
+        null;
+      for (const key of Object.keys(cfg.paths)) {
+        const star = key.indexOf("*");
+        if (star === -1) {
+          if (key === spec && (!best || key.length > best.prefixLen)) {
+            best = { key, captured: "", prefixLen: key.length };
+          }
+          continue;
+        }
+        const prefix = key.slice(0, star);
+        const suffix = key.slice(star + 1);
+        if (
+          spec.length >= prefix.length + suffix.length &&
+          spec.startsWith(prefix) &&
+          spec.endsWith(suffix) &&
+          (!best || prefix.length > best.prefixLen)
+        ) {
+          best = {
+            key,
+            captured: spec.slice(prefix.length, spec.length - suffix.length),
+            prefixLen: prefix.length,
+          };
+        }
+      }
+      if (best) {
+        const candidates = cfg.paths[best.key].map((sub) =>
+          path.resolve(cfg.pathsBase!, sub.replace("*", best!.captured)),
+        );
+        return { candidates, rule: best.key, configPath: cfg.configPath };
+      }
+    }
+
+    if (cfg.baseUrl) {
+      return {
+        candidates: [path.resolve(cfg.baseUrl, spec)],
+        rule: "baseUrl",
+        configPath: cfg.configPath,
+      };
+    }
+    return null;
+  }
+
+  private nearestConfig(dir: string): string | null {
+    if (this.nearest.has(dir)) return this.nearest.get(dir)!;
+    let found: string | null = null;
+    for (const name of CONFIG_NAMES) {
+      const candidate = path.join(dir, name);
+      if (fs.existsSync(candidate)) {
+        found = candidate;
+        break;
+      }
+    }
+    if (!found) {
+      const parent = path.dirname(dir);
+      found = parent === dir ? null : this.nearestConfig(parent);
+    }
+    this.nearest.set(dir, found);
+    return found;
+  }
+
+  /**
+   * For a solution-style config (`references` + no own `paths`), pick the
+   * referenced project whose directory is the deepest ancestor of the file.
+   * Recurses so nested solutions work. Null when nothing more specific owns it.
+   */
+  private referencedOwner(
+    configPath: string,
+    absPath: string,
+    seen = new Set<string>(),
+  ): string | null {
+    if (seen.has(configPath)) return null;
+    seen.add(configPath);
+    const cfg = this.read(configPath);
+    if (!cfg?.references?.length) return null;
+
+    let best: string | null = null;
+    let bestDepth = -1;
+    for (const ref of cfg.references) {
+      let refPath = path.resolve(cfg.dir, ref.path);
+      if (!refPath.endsWith(".json")) refPath = path.join(refPath, "tsconfig.json");
+      const refDir = path.dirname(refPath);
+      if (!absPath.startsWith(refDir + path.sep)) continue;
+      if (refDir.length > bestDepth && this.read(refPath)) {
+        best = refPath;
+        bestDepth = refDir.length;
+      }
+    }
+    if (!best) return null;
+    return this.referencedOwner(best, absPath, seen) ?? best;
+  }
+
+  private aliasesOf(configPath: string): TsconfigAliases {
+    const cached = this.effective.get(configPath);
+    if (cached) return cached;
+
+    const out: TsconfigAliases = { configPath };
+    // Walk the extends chain nearest-first; the first config to set an
+    // option wins (that's how tsc's override semantics fall out).
+    const visited = new Set<string>();
+    const visit = (p: string): void => {
+      if (visited.has(p)) return;
+      visited.add(p);
+      const cfg = this.read(p);
+      if (!cfg) return;
+      const opts = cfg.compilerOptions ?? {};
+      if (out.baseUrl === undefined && typeof opts.baseUrl === "string") {
+        out.baseUrl = path.resolve(cfg.dir, opts.baseUrl);
+      }
+      if (out.paths === undefined && opts.paths && typeof opts.paths === "object") {
+        out.paths = opts.paths;
+        out.pathsBase = cfg.dir;
+      }
+      const parents = Array.isArray(cfg.extends)
+        ? [...cfg.extends].reverse() // later entries override earlier ones
+        : cfg.extends
+          ? [cfg.extends]
+          : [];
+      for (const ext of parents) {
+        const resolved = resolveExtends(cfg.dir, ext);
+        if (resolved) visit(resolved);
+      }
+    };
+    visit(configPath);
+    // With a baseUrl, `paths` substitutions are relative to it.
+    if (out.paths && out.baseUrl) out.pathsBase = out.baseUrl;
+
+    this.effective.set(configPath, out);
+    return out;
+  }
+
+  private read(configPath: string): RawConfig | null {
+    if (this.raw.has(configPath)) return this.raw.get(configPath)!;
+    let cfg: RawConfig | null = null;
+    try {
+      const parsed = parseJsonc(fs.readFileSync(configPath, "utf8"));
+      if (parsed && typeof parsed === "object") {
+        cfg = { ...(parsed as object), dir: path.dirname(configPath) };
+      }
+    } catch {
+      // Missing or malformed config — treat as absent.
+    }
+    this.raw.set(configPath, cfg);
+    return cfg;
+  }
+}
+
+/**
+ * `extends` may be a relative path (extension optional) or a package spec
+ * (`@tsconfig/node18/tsconfig.json`, `@acme/tsconfig`) looked up through
+ * node_modules directories above the extending config.
+ */
+function resolveExtends(fromDir: string, spec: string): string | null {
+  const withJson = (p: string): string[] =>
+    p.endsWith(".json") ? [p] : [p, p + ".json", path.join(p, "tsconfig.json")];
+
+  if (spec.startsWith(".") || path.isAbsolute(spec)) {
+    for (const c of withJson(path.resolve(fromDir, spec))) {
+      if (isFile(c)) return c;
+    }
+    return null;
+  }
+
+  let dir = fromDir;
+  for (;;) {
+    for (const c of withJson(path.join(dir, "node_modules", spec))) {
+      if (isFile(c)) return c;
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) return null;
+    dir = parent;
+  }
+}
+
+function isFile(p: string): boolean {
+  try {
+    return fs.statSync(p).isFile();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * JSON.parse for tsconfig's dialect: strips `//` and `/* *\/` comments and
+ * trailing commas, leaving string contents (e.g. `"@app/*"`) untouched.
+ */
+export function parseJsonc(text: string): unknown {
+  let out = "";
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    if (ch === '"') {
+      let j = i + 1;
+      while (j < text.length && text[j] !== '"') j += text[j] === "\\" ? 2 : 1;
+      out += text.slice(i, j + 1);
+      i = j + 1;
+    } else if (ch === "/" && text[i + 1] === "/") {
+      while (i < text.length && text[i] !== "\n") i++;
+    } else if (ch === "/" && text[i + 1] === "*") {
+      const end = text.indexOf("*/", i + 2);
+      i = end === -1 ? text.length : end + 2;
+    } else {
+      out += ch;
+      i++;
+    }
+  }
+  return JSON.parse(out.replace(/,(\s*[}\]])/g, "$1"));
+}
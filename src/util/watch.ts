@@ -0,0 +1,216 @@
+import fs from "fs";
+import path from "path";
+import type { RepoIgnore } from "./ignore";
+
+/** Wait before retrying a failed batch; doubles per failure up to RETRY_MAX_MS. */
+const RETRY_MIN_MS = 1000;
+const RETRY_MAX_MS = 60_000;
+
+export interface WatchOptions {
+  /**
+   * Directories it leaves out aren't watched; events for its entries are
+   * dropped. Reloaded when a `.gitignore` or the `.codelensignore` changes.
+   */
+  ignore: RepoIgnore;
+  /** Quiet period after the last event before the batch is handed over. Default 500 ms. */
+  debounceMs?: number;
+  /**
+   * Handles one batch of absolute paths: files that were written, created or
+   * removed, and directories that were removed. A directory that appears is
+   * reported as the files inside it. A directory whose ignore rules changed
+   * is reported itself, along with every file the rules now let in below it;
+   * anything stored there that isn't in the batch is now left out. Calls
+   * never overlap; events arriving meanwhile make up the next batch.
+   */
+  onChange: (paths: string[]) => Promise<void>;
+}
+
+/**
+ * Watches a repository for changes, one fs.watch per directory (recursive
+ * watching isn't available on Linux before Node 20, and would descend into
+ * node_modules and other ignored trees). Directories created later are
+ * picked up as they appear. A batch whose handler throws is kept and retried
+ * after a backoff (1 s, doubling up to a minute), or along with the next
+ * batch if that comes first, so a failed update isn't lost.
+ */
+export class RepoWatcher {
+  private readonly watchers = new Map<string, fs.FSWatcher>();
+  private readonly pending = new Set<string>();
+  /** Paths of a failed batch; they go out again with the next one. */
+  private readonly retry = new Set<string>();
+  /** Failed batches in a row, for the retry backoff. */
+  private failures = 0;
+  /** Directories whose `.gitignore` (or, for the root, `.codelensignore`) changed. */
+  private readonly rulesChanged = new Set<string>();
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<void> | null = null;
+  private closed = false;
+
+  private constructor(
+    readonly absRepo: string,
+    private readonly opts: WatchOptions,
+  ) {}
+
+  static start(absRepo: string, opts: WatchOptions): RepoWatcher {
+    const watcher = new RepoWatcher(absRepo, opts);
+    watcher.watchTree(absRepo);
+    return watcher;
+  }
+
+  /** Number of directories being watched. */
+  get directories(): number {
+    return this.watchers.size;
+  }
+
+  /** Stop watching; resolves once a batch in progress has been handled. */
+  async close(): Promise<void> {
+    this.closed = true;
+    if (this.timer) clearTimeout(this.timer);
+    for (const w of this.watchers.values()) w.close();
+    this.watchers.clear();
+    await this.running;
+  }
+
+  /**
+   * Watch `dir` and every directory below it; returns the files found. A
+   * directory already watched is skipped, unless `rescan` (after the ignore
+   * rules changed), which walks the whole tree again.
+   */
+  private watchTree(dir: string, rescan = false): string[] {
+    if (this.watchers.has(dir) && !rescan) return [];
+    let entries: fs.Dirent[];
+    try {
+      if (!this.watchers.has(dir)) {
+        // Once `dir` itself is gone its events name it, not an entry in it.
+        const w = fs.watch(dir, (_event, name) =>
+          this.touched(
+            name && fs.existsSync(dir) ? path.join(dir, name.toString()) : dir,
+          ),
+        );
+        w.on("error", () => this.unwatch(dir));
+        this.watchers.set(dir, w);
+      }
+      entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch (err) {
+      // Gone already, or out of watches (fs.inotify.max_user_watches).
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.warn(`[ast-graph] can't watch ${dir}: ${(err as Error).message}`);
+      }
+      return [];
+    }
+    const files: string[] = [];
+    for (const entry of entries) {
+      const full = path.join(dir, entry.name);
+      if (this.opts.ignore.ignores(full, entry.isDirectory())) continue;
+      if (entry.isDirectory()) files.push(...this.watchTree(full, rescan));
+      else if (entry.isFile()) files.push(full);
+    }
+    return files;
+  }
+
+  /** Stop watching `dir` and everything below it. */
+  private unwatch(dir: string): void {
+    for (const [d, w] of this.watchers) {
+      if (d === dir || d.startsWith(dir + path.sep)) {
+        w.close();
+        this.watchers.delete(d);
+      }
+    }
+  }
+
+  /**
+   * Reload the ignore rules, stop watching directories they now leave out
+   * and walk each directory whose rules changed again, so the batch carries
+   * it and every file it now covers.
+   */
+  private applyRuleChanges(): void {
+    this.opts.ignore.reload();
+    for (const d of [...this.watchers.keys()]) {
+      if (d === this.absRepo || !this.watchers.has(d)) continue;
+      if (this.opts.ignore.ignores(d, true)) this.unwatch(d);
+    }
+    for (const dir of this.rulesChanged) {
+      if (!this.watchers.has(dir)) continue; // gone, or now ignored itself
+      this.pending.add(dir);
+      for (const f of this.watchTree(dir, true)) this.pending.add(f);
+    }
+    this.rulesChanged.clear();
+  }
+
+  private touched(absPath: string): void {
+    if (this.closed) return;
+    // The ignore files are dot-files, which the rules themselves leave out.
+    const name = path.basename(absPath);
+    const dir = path.dirname(absPath);
+    if (
+      name === ".gitignore" ||
+      (name === ".codelensignore" && dir === this.absRepo)
+    ) {
+      this.rulesChanged.add(dir);
+      this.schedule();
+      return;
+    }
+    let stat: fs.Stats | undefined;
+    try {
+      stat = fs.statSync(absPath);
+    } catch {
+      // Removed (or renamed away); the handler works out what was there.
+    }
+    const isDir = stat ? stat.isDirectory() : this.watchers.has(absPath);
+    if (this.opts.ignore.ignores(absPath, isDir)) return;
+
+    if (stat?.isDirectory()) {
+      // A rename or checkout can create a whole tree at once.
+      if (absPath !== this.absRepo && !this.watchers.has(absPath)) {
+        for (const f of this.watchTree(absPath)) this.pending.add(f);
+      }
+    } else {
+      if (!stat) this.unwatch(absPath);
+      this.pending.add(absPath);
+    }
+    if (this.pending.size > 0) this.schedule();
+  }
+
+  private schedule(delayMs = this.opts.debounceMs ?? 500): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.flush();
+    }, delayMs);
+  }
+
+  private flush(): void {
+    // A batch still running flushes again when it's done.
+    if (this.running || this.closed) return;
+    if (this.rulesChanged.size > 0) this.applyRuleChanges();
+    if (this.pending.size === 0 && this.retry.size === 0) return;
+    const batch = [...new Set([...this.retry, ...this.pending])];
+    this.retry.clear();
+    this.pending.clear();
+    this.running = this.opts
+      .onChange(batch)
+      .then(
+        () => {
+          this.failures = 0;
+        },
+        (err) => {
+          this.failures++;
+          for (const p of batch) this.retry.add(p);
+          console.warn(
+            `[ast-graph] watch update failed: ${(err as Error).message}; ` +
+              `retrying in ${this.retryDelay() / 1000}s`,
+          );
+        },
+      )
+      .finally(() => {
+        this.running = null;
+        if (this.timer || this.closed) return;
+        if (this.pending.size > 0 || this.rulesChanged.size > 0) this.schedule();
+        else if (this.retry.size > 0) this.schedule(this.retryDelay());
+      });
+  }
+
+  private retryDelay(): number {
+    return Math.min(RETRY_MIN_MS * 2 ** (this.failures - 1), RETRY_MAX_MS);
+  }
+}
@@ -0,0 +1,299 @@
+import fs from "fs";
+import path from "path";
+import type { RepoIgnore } from "./ignore";
+
+/**
+ * npm / yarn / pnpm workspace discovery.
+ *
+ * Member globs come from the root `package.json` (`workspaces: [...]` or
+ * yarn's `workspaces: { packages: [...] }`), `pnpm-workspace.yaml` and
+ * `lerna.json`. Every directory matching a positive glob (and no `!`
+ * negation) that holds a named `package.json` is a workspace package.
+ *
+ * Resolution maps `@acme/billing[/sub]` onto candidate source paths; the
+ * analyser probes each with its usual extension rules and takes the first
+ * that exists. Build-output targets (`dist/index.js`, `lib/index.d.ts`) are
+ * mapped back to `src/` because build dirs are never parsed.
+ */
+
+export interface WorkspacePackage {
+  name: string;
+  /** Absolute package directory. */
+  dir: string;
+  version?: string;
+  private?: boolean;
+  /** Parsed manifest, kept for entry-point lookup. */
+  manifest: Record<string, unknown>;
+}
+
+/** Condition keys tried, in order, when an `exports` target is a conditions object. */
+const EXPORT_CONDITIONS = [
+  "source",
+  "types",
+  "typings",
+  "import",
+  "module",
+  "development",
+  "node",
+  "require",
+  "default",
+];
+
+/** Build-output roots mapped back to `src/` when the target isn't parsed. */
+const BUILD_DIR_RE = /^(dist|lib|build|out|esm|cjs|es|types)(\/|$)/;
+
+export function discoverWorkspacePackages(
+  absRepo: string,
+  ignores: RepoIgnore,
+): WorkspacePackage[] {
+  const globs = workspaceGlobs(absRepo);
+  if (globs.length === 0) return [];
+  const include = globs.filter((g) => !g.startsWith("!")).map(globToRegExp);
+  const exclude = globs
+    .filter((g) => g.startsWith("!"))
+    .map((g) => globToRegExp(g.slice(1)));
+
+  const out: WorkspacePackage[] = [];
+  const visit = (dir: string): void => {
+    const rel = path.relative(absRepo, dir).split(path.sep).join("/");
+    if (
+      rel &&
+      include.some((r) => r.test(rel)) &&
+      !exclude.some((r) => r.test(rel))
+    ) {
+      const manifest = readJson(path.join(dir, "package.json"));
+      if (manifest && typeof manifest.name === "string") {
+        out.push({
+          name: manifest.name,
+          dir,
+          version:
+            typeof manifest.version === "string" ? manifest.version : undefined,
+          private: manifest.private === true ? true : undefined,
+          manifest,
+        });
+      }
+    }
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      if (!entry.isDirectory()) continue;
+      const full = path.join(dir, entry.name);
+      if (ignores.ignores(full, true)) continue;
+      visit(full);
+    }
+  };
+  visit(absRepo);
+  return out;
+}
+
+/**
+ * Longest package-name prefix match: `@acme/billing/invoices` →
+ * (`@acme/billing`, "./invoices"). Null for anything not in the workspace.
+ */
+export function matchWorkspacePackage(
+  spec: string,
+  packages: Map<string, WorkspacePackage>,
+): { pkg: WorkspacePackage; subpath: string } | null {
+  let best: WorkspacePackage | null = null;
+  for (const [name, pkg] of packages) {
+    if (spec !== name && !spec.startsWith(name + "/")) continue;
+    if (!best || name.length > best.name.length) best = pkg;
+  }
+  if (!best) return null;
+  const rest = spec.slice(best.name.length);
+  return { pkg: best, subpath: rest ? "." + rest : "." };
+}
+
+/**
+ * Absolute candidate paths (no extension probing yet) for a package
+ * subpath, in priority order:
+ *   1. `exports` (string, subpath map, `./*` patterns, nested conditions)
+ *   2. for ".": `source`, `types`/`typings`, `module`, `main`
+ *   3. conventions: `src/index`, `index` — or `src/<sub>`, `<sub>` for subpaths
+ * Every target under a build dir is followed by its `src/` counterpart.
+ */
+export function packageEntryCandidates(
+  pkg: WorkspacePackage,
+  subpath: string,
+): string[] {
+  const targets: string[] = [];
+  const m = pkg.manifest;
+
+  targets.push(...exportsTargets(m.exports, subpath));
+
+  if (subpath === ".") {
+    for (const field of ["source", "types", "typings", "module", "main"]) {
+      const v = m[field];
+      if (typeof v === "string") targets.push(v);
+    }
+    targets.push("src/index", "index");
+  } else {
+    const sub = subpath.slice(2);
+    targets.push(`src/${sub}`, sub);
+  }
+
+  const out: string[] = [];
+  const seen = new Set<string>();
+  const add = (rel: string): void => {
+    const abs = path.resolve(pkg.dir, rel);
+    if (!seen.has(abs)) {
+      seen.add(abs);
+      out.push(abs);
+    }
+  };
+  for (const t of targets) {
+    const rel = stripDts(t.replace(/^\.\//, ""));
+    add(rel);
+    if (BUILD_DIR_RE.test(rel)) add(rel.replace(BUILD_DIR_RE, "src$2"));
+  }
+  return out;
+}
+
+function exportsTargets(exportsField: unknown, subpath: string): string[] {
+  if (exportsField == null) return [];
+  // `"exports": "./index.js"` / `["./a.js", ...]` / `{ "import": ... }`
+  // are all sugar for the "." entry.
+  const isSubpathMap =
+    typeof exportsField === "object" &&
+    !Array.isArray(exportsField) &&
+    Object.keys(exportsField as object).some((k) => k.startsWith("."));
+  if (!isSubpathMap) {
+    return subpath === "." ? conditionTargets(exportsField) : [];
+  }
+
+  const map = exportsField as Record<string, unknown>;
+  if (subpath in map) return conditionTargets(map[subpath]);
+
+  // Subpath patterns: `"./*": "./src/*.ts"`, `"./utils/*": ...`.
+  // Longest prefix wins, matching Node's resolution.
+  let best: { key: string; captured: string } | null = null;
+  for (const key of Object.keys(map)) {
+    const star = key.indexOf("*");
+    if (star === -1) continue;
+    const prefix = key.slice(0, star);
+    const suffix = key.slice(star + 1);
+    if (
+      subpath.startsWith(prefix) &&
+      subpath.endsWith(suffix) &&
+      subpath.length >= prefix.length + suffix.length &&
+      (!best || prefix.length > best.key.indexOf("*"))
+    ) {
+      best = {
+        key,
+        captured: subpath.slice(prefix.length, subpath.length - suffix.length),
+      };
+    }
+  }
+  if (!best) return [];
+  return conditionTargets(map[best.key]).map((t) =>
+    t.split("*").join(best!.captured),
+  );
+}
+
+/** Flatten an exports target (string / array / nested conditions) into paths. */
+function conditionTargets(target: unknown): string[] {
+  if (typeof target === "string") return [target];
+  if (Array.isArray(target)) return target.flatMap(conditionTargets);
+  if (target && typeof target === "object") {
+    const obj = target as Record<string, unknown>;
+    const keys = [
+      ...EXPORT_CONDITIONS.filter((k) => k in obj),
+      ...Object.keys(obj).filter((k) => !EXPORT_CONDITIONS.includes(k)),
+    ];
+    return keys.flatMap((k) => conditionTargets(obj[k]));
+  }
+  return [];
+}
+
+/** `index.d.ts` → `index` so extension probing can find `index.ts`. */
+function stripDts(p: string): string {
+  return p.replace(/\.d\.(ts|mts|cts)$/, "");
+}
+
+function workspaceGlobs(absRepo: string): string[] {
+  const globs: string[] = [];
+
+  const pkg = readJson(path.join(absRepo, "package.json"));
+  const ws = pkg?.workspaces;
+  if (Array.isArray(ws)) globs.push(...ws.filter(isString));
+  else if (ws && typeof ws === "object") {
+    const nested = (ws as { packages?: unknown }).packages;
+    if (Array.isArray(nested)) globs.push(...nested.filter(isString));
+  }
+
+  const lerna = readJson(path.join(absRepo, "lerna.json"));
+  if (Array.isArray(lerna?.packages)) {
+    globs.push(...(lerna!.packages as unknown[]).filter(isString));
+  }
+
+  try {
+    const yaml = fs.readFileSync(
+      path.join(absRepo, "pnpm-workspace.yaml"),
+      "utf8",
+    );
+    globs.push(...pnpmPackages(yaml));
+  } catch {
+    // not a pnpm workspace
+  }
+
+  return [...new Set(globs)];
+}
+
+/**
+ * The `packages:` list of a pnpm-workspace.yaml. Only the block-sequence
+ * form pnpm documents is supported — enough without pulling in a YAML parser.
+ */
+function pnpmPackages(yaml: string): string[] {
+  const out: string[] = [];
+  let inPackages = false;
+  for (const raw of yaml.split(/\r?\n/)) {
+    const line = raw.replace(/\s+#.*$/, "");
+    if (/^packages\s*:/.test(line)) {
+      inPackages = true;
+      continue;
+    }
+    if (!inPackages) continue;
+    const item = /^\s+-\s*(.+?)\s*$/.exec(line);
+    if (item) out.push(item[1].replace(/^['"]|['"]$/g, ""));
+    else if (/^\S/.test(line)) inPackages = false;
+  }
+  return out;
+}
+
+function globToRegExp(glob: string): RegExp {
+  const g = glob.replace(/^\.\//, "").replace(/\/+$/, "");
+  let re = "";
+  for (let i = 0; i < g.length; i++) {
+    const ch = g[i];
+    if (ch === "*" && g[i + 1] === "*") {
+      // `**/` matches zero or more whole segments; a trailing `**` anything.
+      if (g[i + 2] === "/") {
+        re += "(?:.*/)?";
+        i += 2;
+      } else {
+        re += ".*";
+        i += 1;
+      }
+    } else if (ch === "*") re += "[^/]*";
+    else if (ch === "?") re += "[^/]";
+    else re += ch.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+  }
+  return new RegExp(`^${re}$`);
+}
+
+function readJson(p: string): Record<string, unknown> | null {
+  try {
+    const v = JSON.parse(fs.readFileSync(p, "utf8"));
+    return v && typeof v === "object" ? v : null;
+  } catch {
+    return null;
+  }
+}
+
+function isString(v: unknown): v is string {
+  return typeof v === "string";
+}